@@ -31,7 +31,7 @@ async function main() {
   );
 
   // Run the CLI with Deno.args
-  await cli.run(Deno.args);
+  await cli.main();
 }
 
 if (import.meta.main) {
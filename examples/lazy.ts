@@ -26,7 +26,7 @@ async function main() {
     },
   );
 
-  await cli.run(Deno.args);
+  await cli.main();
 }
 
 if (import.meta.main) {
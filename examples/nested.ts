@@ -70,10 +70,12 @@ async function main() {
       description: "Remove an existing user",
       aliases: ["rm"],
       flagsSchema: removeUserFlagsSchema,
+      // Allow `-f` as a short alias for `--force`
+      flags: [{ name: "force", type: "boolean", short: "f" }],
     },
   );
 
-  await cli.run(Deno.args);
+  await cli.main();
 }
 
 if (import.meta.main) {
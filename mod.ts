@@ -4,11 +4,71 @@
  * Library entry-point.  Re-export the CLI class, error types, helpers, etc.
  */
 export { CLI } from "./src/cli/mod.ts";
+export { type CLIPlugin, type PluginCommand } from "./src/cli/plugins.ts";
 export {
+  buildCommandManifest,
+  COMMAND_MANIFEST,
+  type CommandManifest,
+  type ManifestCommand,
+  writeCommandManifest,
+} from "./src/cli/discover.ts";
+export {
+  type ArgSpec,
+  type ArgTuple,
   type CLIConfig,
   CLIError,
+  type CLIErrorOptions,
+  type CommandHandler,
+  type CommandMiddleware,
   type CommandOptions,
+  EXIT_SIGINT,
+  EXIT_SIGTERM,
+  EXIT_USAGE,
+  type FlagSpec,
   type Middleware,
   type OutputMode,
+  type RunResult,
 } from "./src/types.ts";
 export * from "./src/context.ts";
+export {
+  type CLIRuntime,
+  envFromObject,
+  type EnvSource,
+  type ExitSignal,
+  type InputStream,
+  type OutputStream,
+  type SignalSource,
+} from "./src/runtime.ts";
+export {
+  type ConfigEntry,
+  type ConfigIssue,
+  type ConfigLayer,
+  type ConfigLayerName,
+  type ConfigSearchOptions,
+  type ConfigSource,
+  LayeredConfig,
+  loadConfigLayers,
+  validateConfig,
+} from "./src/utils/config.ts";
+export { type ErrorEnvelope, errorEnvelope } from "./src/utils/errors.ts";
+export { type HelpOptions } from "./src/utils/help.ts";
+export {
+  type OutputColumn,
+  type OutputOptions,
+  renderOutput,
+} from "./src/utils/output.ts";
+export {
+  type Choice,
+  type ConfirmOptions,
+  type InputOptions,
+  type MultiSelectOptions,
+  type PromptSettings,
+  type SelectOptions,
+} from "./src/utils/prompt.ts";
+export { REDACTED, secret } from "./src/utils/secrets.ts";
+export { type PhaseTiming } from "./src/utils/profile.ts";
+export {
+  type ProgressEvent,
+  ProgressTask,
+  type TaskOptions,
+} from "./src/utils/progress.ts";
@@ -0,0 +1,381 @@
+/**
+ * src/cli/builtins.ts
+ *
+ * Commands every CLI gets for free (`help`, `completion`, `config`). They are
+ * registered right before dispatch, and only if the user hasn't registered a
+ * command with the same name.
+ */
+
+import { parse as parseYAML, stringify as stringifyYAML } from "@std/yaml";
+import {
+  CLIError,
+  type CommandHandler,
+  type CommandNode,
+  type CommandOptions,
+  EXIT_USAGE,
+  type FlagSpec,
+} from "../types.ts";
+import {
+  COMPLETION_SHELLS,
+  type CompletionShell,
+  generateCompletion,
+  GLOBAL_FLAGS,
+  type HelpOptions,
+  type LayeredConfig,
+  setPath,
+  WRITABLE_CONFIG_LAYERS,
+  type WritableConfigLayer,
+  writeConfigFile,
+} from "../utils/mod.ts";
+import type { CommandRegistry } from "./registry.ts";
+import { type CommandManifest, writeManifestFile } from "./discover.ts";
+import { printCommandHelp, printHelp, unknownCommand } from "./helpers.ts";
+
+/**
+ * Register the built-in commands on `registry`, skipping any whose name is
+ * already taken by a user command.
+ *
+ * @param cliName - The name of the CLI (used in generated scripts).
+ * @param registry - The registry to add the built-ins to.
+ * @param config - Returns the layered config of the current run.
+ * @param globals - The global flags (including those added by plugins).
+ * @param manifest - Builds the lazy-command manifest, and where it is kept.
+ * @param help - How `help` lays out the help (see `collapseHelp`).
+ */
+export function registerBuiltins(
+  cliName: string,
+  registry: CommandRegistry,
+  config: () => LayeredConfig,
+  globals: FlagSpec[] = GLOBAL_FLAGS,
+  manifest?: { build: () => Promise<CommandManifest>; path?: string },
+  help: HelpOptions = {},
+): void {
+  const taken = registry.root.children;
+
+  if (!taken.has("help")) {
+    const showHelp: CommandHandler = (args, flags, ctx) => {
+      const verbosity = flags.quiet ? "quiet" : "normal";
+      if (args.length === 0) {
+        printHelp(
+          cliName,
+          registry.root,
+          verbosity,
+          ctx.runtime,
+          globals,
+          flags.all ? { ...help, collapse: false } : help,
+        );
+        return;
+      }
+      const { node, consumed } = registry.traverse(args);
+      if (!node || consumed < args.length) {
+        unknownCommand(
+          cliName,
+          args.join(" "),
+          registry.root,
+          verbosity,
+          ctx.runtime,
+          globals,
+          help,
+        );
+        return;
+      }
+      printCommandHelp(
+        cliName,
+        args,
+        node,
+        verbosity,
+        ctx.runtime,
+        globals,
+        help,
+      );
+    };
+    // Help needs no valid config, so it works with a broken file too
+    RAW_CONFIG_HANDLERS.add(showHelp);
+    registry.registerCommand(["help"], showHelp, {
+      description: "Show help for a command",
+      examples: [`${cliName} help cluster node add`, `${cliName} help --all`],
+      flags: [{
+        name: "all",
+        type: "boolean",
+        description: "List every command, not only the top-level ones",
+      }],
+    });
+  }
+
+  if (!taken.has("completion")) {
+    registry.registerCommand(
+      ["completion"],
+      (args, _flags, ctx) => {
+        const shell = args[0] as CompletionShell | undefined;
+        if (!shell || !COMPLETION_SHELLS.includes(shell)) {
+          throw new CLIError(
+            `Usage: ${cliName} completion [${COMPLETION_SHELLS.join("|")}]`,
+            EXIT_USAGE,
+          );
+        }
+        ctx.runtime.stdout.write(
+          `${generateCompletion(shell, cliName, registry.root, globals)}\n`,
+        );
+      },
+      {
+        description: "Generate a shell completion script",
+        examples: [
+          `${cliName} completion bash > /etc/bash_completion.d/${cliName}`,
+          `${cliName} completion zsh > "\${fpath[1]}/_${cliName}"`,
+          `${cliName} completion fish > ~/.config/fish/completions/${cliName}.fish`,
+        ],
+      },
+    );
+  }
+
+  if (manifest && !taken.has("__manifest")) {
+    registry.registerCommand(
+      ["__manifest"],
+      async (_args, _flags, ctx) => {
+        const built = await manifest.build();
+        if (!manifest.path) {
+          ctx.runtime.stdout.write(`${JSON.stringify(built, null, 2)}\n`);
+          return;
+        }
+        await writeManifestFile(manifest.path, built);
+        ctx.log(manifest.path);
+      },
+      {
+        description: "Write the manifest describing the lazy commands",
+        hidden: true,
+      },
+    );
+  }
+
+  if (!taken.has("config")) {
+    registerConfigCommands(cliName, registry, config, globals);
+  }
+}
+
+/**
+ * Handlers of the `help` and `config` commands. They don't use the validated
+ * config (`config` reads the layers itself), so they run even when a file is
+ * broken or the config fails its schema.
+ */
+const RAW_CONFIG_HANDLERS = new WeakSet<CommandHandler>();
+
+/**
+ * Whether `node` is one of the built-in `help` and `config` commands, which
+ * don't need a valid config and so skip config validation.
+ *
+ * @param node - The resolved command node.
+ * @returns True for `help`, `config` and its subcommands.
+ */
+export function readsRawConfig(node: CommandNode): boolean {
+  return !!node.handler && RAW_CONFIG_HANDLERS.has(node.handler);
+}
+
+/** `--layer` flag of `config set|edit|path`. */
+const LAYER_FLAG: FlagSpec = {
+  name: "layer",
+  type: "string",
+  description: "Config file to use",
+  choices: [...WRITABLE_CONFIG_LAYERS],
+};
+
+/**
+ * Parse a value given to `config set` as YAML (so `true`, `3` and `[a, b]`
+ * keep their types), except for numbers that would not round-trip, such as
+ * "0123" or "1.10", which stay strings.
+ *
+ * @param raw - The value as typed.
+ * @returns The value to store.
+ */
+function parseConfigValue(raw: string): unknown {
+  try {
+    const value = parseYAML(raw);
+    if (typeof value === "number" && String(value) !== raw) return raw;
+    return value === undefined ? raw : value;
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Register `config get|set|list|edit|path`.
+ *
+ * @param cliName - The name of the CLI.
+ * @param registry - The registry to add the commands to.
+ * @param config - Returns the layered config of the current run.
+ * @param globals - The global flags, for the help page.
+ */
+function registerConfigCommands(
+  cliName: string,
+  registry: CommandRegistry,
+  config: () => LayeredConfig,
+  globals: FlagSpec[],
+): void {
+  const fileOf = (name: WritableConfigLayer) => {
+    const layer = config().layer(name)!;
+    return {
+      path: layer.path!,
+      data: structuredClone(layer.data),
+      loaded: layer.loaded,
+      error: layer.error,
+    };
+  };
+  const layerFlag = (flags: Record<string, unknown>) =>
+    (flags.layer ?? "user") as WritableConfigLayer;
+  const command = (
+    path: string[],
+    handler: CommandHandler,
+    options: CommandOptions,
+  ) => {
+    RAW_CONFIG_HANDLERS.add(handler);
+    registry.registerCommand(path, handler, options);
+  };
+
+  command(
+    ["config"],
+    (_args, flags, ctx) => {
+      const { node } = registry.traverse(["config"]);
+      const verbosity = flags.quiet ? "quiet" : "normal";
+      printCommandHelp(
+        cliName,
+        ["config"],
+        node!,
+        verbosity,
+        ctx.runtime,
+        globals,
+      );
+    },
+    { description: "Show and change configuration" },
+  );
+
+  command(
+    ["config", "get"],
+    (args, flags, ctx) => {
+      const [key] = args;
+      const value = config().get(key);
+      if (value === undefined) {
+        throw new CLIError(`Config key not set: ${key}`, 1, {
+          code: "CONFIG_KEY_NOT_FOUND",
+          details: { key },
+        });
+      }
+      const source = config().source(key)!;
+      if (flags["show-origin"]) {
+        ctx.output({ key, value, layer: source.layer, path: source.path });
+      } else if (
+        typeof value === "object" && value !== null &&
+        ctx.outputMode === "text"
+      ) {
+        ctx.output(stringifyYAML(value).trimEnd());
+      } else {
+        ctx.output(value);
+      }
+    },
+    {
+      description: "Print an effective config value",
+      args: [{ name: "key", description: "Dotted key path, e.g. db.host" }],
+      flags: [{
+        name: "show-origin",
+        type: "boolean",
+        description: "Also show the layer and file the value came from",
+      }],
+      examples: [`${cliName} config get db.host --show-origin`],
+    },
+  );
+
+  command(
+    ["config", "list"],
+    (_args, _flags, ctx) => {
+      const rows = config().entries().map(({ key, value, source }) => ({
+        key,
+        value: typeof value === "string" ? value : JSON.stringify(value),
+        layer: source.layer,
+        path: source.path ?? "",
+      }));
+      // Secret flags and config keys are masked (`config get` shows them)
+      ctx.output(ctx.redact(rows), {
+        columns: ["key", "value", "layer", { key: "path", wide: true }],
+      });
+    },
+    {
+      description: "List effective config values and where they came from",
+      examples: [
+        `${cliName} config list --output wide`,
+        `${cliName} config list --output json`,
+      ],
+    },
+  );
+
+  command(
+    ["config", "set"],
+    async (args, flags, ctx) => {
+      const [key, raw] = args;
+      const layer = layerFlag(flags);
+      const file = fileOf(layer);
+      // Rewriting a file that failed to parse would throw its contents away
+      if (file.error) throw file.error;
+      setPath(file.data, key, parseConfigValue(raw));
+      await writeConfigFile(file.path, file.data);
+      ctx.debug(`Wrote ${key} to ${file.path}`);
+    },
+    {
+      description: "Set a value in a config file",
+      args: [
+        { name: "key", description: "Dotted key path, e.g. db.host" },
+        { name: "value", description: "Value, parsed as YAML (e.g. 3, true)" },
+      ],
+      flags: [{ ...LAYER_FLAG, default: "user" }],
+      examples: [
+        `${cliName} config set db.host localhost`,
+        `${cliName} config set region eu-west-1 --layer project`,
+      ],
+    },
+  );
+
+  command(
+    ["config", "edit"],
+    async (_args, flags, ctx) => {
+      const file = fileOf(layerFlag(flags));
+      if (!file.loaded && !file.error) {
+        await writeConfigFile(file.path, file.data);
+      }
+      const [editor, ...editorArgs] = (
+        ctx.runtime.env.get("VISUAL") ?? ctx.runtime.env.get("EDITOR") ?? "vi"
+      ).split(/\s+/);
+      const { code } = await new Deno.Command(editor, {
+        args: [...editorArgs, file.path],
+        stdin: "inherit",
+        stdout: "inherit",
+        stderr: "inherit",
+      }).output();
+      if (code !== 0) {
+        throw new CLIError(`${editor} exited with code ${code}`, code);
+      }
+    },
+    {
+      description: "Open a config file in $VISUAL / $EDITOR",
+      flags: [{ ...LAYER_FLAG, default: "user" }],
+    },
+  );
+
+  command(
+    ["config", "path"],
+    (_args, flags, ctx) => {
+      if (flags.layer) {
+        ctx.output(fileOf(layerFlag(flags)).path);
+        return;
+      }
+      ctx.output(
+        config().layers.filter((layer) => layer.path).map((layer) => ({
+          layer: layer.name,
+          path: layer.path,
+          loaded: layer.loaded,
+          ...(layer.error ? { error: layer.error.message } : {}),
+        })),
+      );
+    },
+    {
+      description: "Show the config files that are read",
+      flags: [LAYER_FLAG],
+    },
+  );
+}
@@ -0,0 +1,334 @@
+/**
+ * src/cli/discover.ts
+ *
+ * File-system routing for commands: every module under a commands directory
+ * is a command, at the path its file name spells
+ * (`commands/cluster/node/add.ts` is `cluster node add`). A module exports
+ * its handler as `default` and its `CommandOptions` as `options`. A manifest
+ * written at build time holds that metadata, so startup reads one JSON file
+ * instead of importing every module.
+ */
+
+import { walk } from "@std/fs";
+import { fromFileUrl, join, relative, resolve, toFileUrl } from "@std/path";
+import type { ArgSpec, CommandOptions } from "../types.ts";
+import { commandFlags } from "../utils/mod.ts";
+
+/** File name of the manifest inside a commands directory. */
+export const COMMAND_MANIFEST = "_manifest.json";
+
+/** Extensions of command modules. */
+const COMMAND_EXTENSIONS = [".ts", ".tsx", ".mts", ".js", ".jsx", ".mjs"];
+
+/** One command in a manifest. */
+export interface ManifestCommand {
+  /** Command path, e.g. `["cluster", "node", "add"]`. */
+  path: string[];
+  /**
+   * Module path: relative to the commands directory, or (in a CLI manifest)
+   * as passed to `registerLazyCommand`.
+   */
+  module: string;
+  /** Export holding the handler, if not "default". */
+  symbol?: string;
+  /** Modification time of a local module when it was described (ms). */
+  mtime?: number;
+  /** SHA-256 of a local module's source when it was described. */
+  hash?: string;
+  /**
+   * The module's `options` without schemas: `flagsSchema` is written out as
+   * `flags`, and `args` lose their `schema`. Both are loaded from the module
+   * when the command runs.
+   */
+  options: CommandOptions;
+}
+
+/**
+ * Metadata of lazy commands, read instead of importing their modules: the
+ * commands of a commands directory, or all lazy commands of a CLI.
+ */
+export interface CommandManifest {
+  /** Format version. */
+  version: 1;
+  /** The commands, sorted by path. */
+  commands: ManifestCommand[];
+}
+
+/**
+ * The command path a module's file name maps to: directories and the file
+ * name are the segments, and `index` files name their directory.
+ *
+ * @param file - Module path relative to the commands directory.
+ * @returns The command path (empty for a top-level `index` file).
+ */
+export function commandPathOf(file: string): string[] {
+  const segments = file.replace(/\\/g, "/").replace(/\.[^./]+$/, "").split(
+    "/",
+  );
+  if (segments.at(-1) === "index") segments.pop();
+  return segments;
+}
+
+/**
+ * Whether a file is a command module: skipped are files and directories
+ * starting with `_` or `.` (shared helpers, the manifest), tests and
+ * declaration files.
+ *
+ * @param file - Module path relative to the commands directory.
+ * @returns True if it defines a command.
+ */
+function isCommandFile(file: string): boolean {
+  const segments = file.replace(/\\/g, "/").split("/");
+  const name = segments.at(-1)!;
+  return COMMAND_EXTENSIONS.some((ext) => name.endsWith(ext)) &&
+    !segments.some((seg) => seg.startsWith("_") || seg.startsWith(".")) &&
+    !/[._]test\.[^.]+$/.test(name) && !name.endsWith(".d.ts");
+}
+
+/**
+ * Resolve a local file or directory given as a path or a `file:` URL.
+ *
+ * @param path - The path or URL.
+ * @returns The absolute path.
+ */
+export function localPath(path: string | URL): string {
+  return path instanceof URL || path.startsWith("file:")
+    ? fromFileUrl(path)
+    : resolve(path);
+}
+
+/**
+ * The part of a command's options a manifest can hold (JSON, no schemas).
+ *
+ * @param options - The options a module exports.
+ * @returns Description, examples, aliases, hidden, category, order, the
+ *          flags (derived from `flagsSchema` too) and the args without their
+ *          schemas.
+ */
+function manifestOptions(options: CommandOptions): CommandOptions {
+  const { description, examples, aliases, hidden, category, order } = options;
+  const flags = commandFlags(options);
+  const args = options.args?.map(({ schema: _schema, ...arg }) => arg) as
+    | ArgSpec[]
+    | undefined;
+  return JSON.parse(JSON.stringify({
+    description,
+    examples,
+    aliases,
+    hidden,
+    category,
+    order,
+    flags: flags.length ? flags : undefined,
+    args,
+  }));
+}
+
+/**
+ * The modification time and SHA-256 hash of a local module.
+ *
+ * @param url - The module URL.
+ * @returns Both, or nothing for a remote module or one that can't be read.
+ */
+async function moduleStamp(
+  url: string,
+): Promise<Pick<ManifestCommand, "mtime" | "hash">> {
+  if (!url.startsWith("file:")) return {};
+  try {
+    const [info, source] = await Promise.all([
+      Deno.stat(new URL(url)),
+      Deno.readFile(new URL(url)),
+    ]);
+    const digest = await crypto.subtle.digest("SHA-256", source);
+    return {
+      mtime: info.mtime?.getTime(),
+      hash: Array.from(new Uint8Array(digest))
+        .map((byte) => byte.toString(16).padStart(2, "0")).join(""),
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Import a command module and describe it for a manifest. Importing runs
+ * the module's top-level code, but never its handler.
+ *
+ * @param path - The command path.
+ * @param module - The module path to record.
+ * @param url - The module URL to import.
+ * @param symbol - Export holding the handler.
+ * @param optionsSymbol - Export holding its `CommandOptions`, if any.
+ * @returns The manifest entry.
+ * @throws Error if `symbol` is not a function.
+ */
+export async function describeCommand(
+  path: string[],
+  module: string,
+  url: string,
+  symbol = "default",
+  optionsSymbol = "options",
+): Promise<ManifestCommand> {
+  const imported = await import(url);
+  if (typeof imported[symbol] !== "function") {
+    throw new Error(`${module}: export "${symbol}" is not a command handler`);
+  }
+  const options = imported[optionsSymbol];
+  return {
+    path,
+    module,
+    ...(symbol === "default" ? {} : { symbol }),
+    ...await moduleStamp(url),
+    options: manifestOptions(
+      typeof options === "object" && options ? options : {},
+    ),
+  };
+}
+
+/**
+ * Whether a manifest entry no longer describes its module: the module's
+ * modification time changed and so did its contents. Remote modules are
+ * assumed to be versioned and never stale.
+ *
+ * @param entry - The manifest entry.
+ * @param url - The module URL.
+ * @returns True if the entry must be rebuilt.
+ */
+export async function isStaleEntry(
+  entry: ManifestCommand,
+  url: string,
+): Promise<boolean> {
+  if (!url.startsWith("file:")) return false;
+  let mtime: number | undefined;
+  try {
+    mtime = (await Deno.stat(new URL(url))).mtime?.getTime();
+  } catch {
+    return true;
+  }
+  if (mtime !== undefined && mtime === entry.mtime) return false;
+  return (await moduleStamp(url)).hash !== entry.hash;
+}
+
+/**
+ * The command modules under a commands directory.
+ *
+ * @param root - The absolute commands directory.
+ * @returns Module paths relative to `root`, with `/` separators.
+ */
+async function commandFiles(root: string): Promise<string[]> {
+  const files: string[] = [];
+  for await (const entry of walk(root, { includeDirs: false })) {
+    const file = relative(root, entry.path).replace(/\\/g, "/");
+    if (isCommandFile(file)) files.push(file);
+  }
+  return files.sort();
+}
+
+/**
+ * Import every command module under `dir` and describe it.
+ *
+ * @param dir - The commands directory (path or `file:` URL).
+ * @returns The manifest for `dir`.
+ * @throws Error if a module has no handler as its default export, or an
+ *         `index` file sits at the top of `dir`.
+ */
+export async function buildCommandManifest(
+  dir: string | URL,
+): Promise<CommandManifest> {
+  const root = localPath(dir);
+  const commands: ManifestCommand[] = [];
+  for (const file of await commandFiles(root)) {
+    const path = commandPathOf(file);
+    if (path.length === 0) {
+      throw new Error(
+        `${join(root, file)}: an index module needs a subdirectory`,
+      );
+    }
+    commands.push(
+      await describeCommand(path, file, toFileUrl(join(root, file)).href),
+    );
+  }
+  commands.sort((a, b) => a.path.join(" ").localeCompare(b.path.join(" ")));
+  return { version: 1, commands };
+}
+
+/**
+ * The manifest of a commands directory: `<dir>/_manifest.json` if it is up
+ * to date, otherwise built from the modules. A stale manifest (modules
+ * added, removed or changed since it was written) or one that can't be
+ * parsed is rewritten, if the directory is writable.
+ *
+ * @param dir - The commands directory (path or `file:` URL).
+ * @returns The manifest.
+ */
+export async function loadCommandManifest(
+  dir: string | URL,
+): Promise<CommandManifest> {
+  const root = localPath(dir);
+  const path = join(root, COMMAND_MANIFEST);
+  // One that can't be read (truncated, another version) is rebuilt too
+  const manifest = await readManifestFile(path).catch(() => null);
+  if (manifest === undefined) return await buildCommandManifest(root);
+  const files = await commandFiles(root);
+  const listed = (manifest?.commands ?? []).map(({ module }) => module).sort();
+  const stale = !manifest || files.join("\n") !== listed.join("\n") ||
+    (await Promise.all(
+      manifest.commands.map((entry) =>
+        isStaleEntry(entry, toFileUrl(join(root, entry.module)).href)
+      ),
+    )).some(Boolean);
+  if (!stale) return manifest;
+  const rebuilt = await buildCommandManifest(root);
+  await writeManifestFile(path, rebuilt).catch(() => {});
+  return rebuilt;
+}
+
+/**
+ * Build the manifest for `dir` and write it to `<dir>/_manifest.json`: the
+ * build step that lets `cli.discoverCommands(dir)` start without importing
+ * any command module.
+ *
+ * @param dir - The commands directory (path or `file:` URL).
+ * @returns The path of the manifest written.
+ */
+export async function writeCommandManifest(dir: string | URL): Promise<string> {
+  const path = join(localPath(dir), COMMAND_MANIFEST);
+  await writeManifestFile(path, await buildCommandManifest(dir));
+  return path;
+}
+
+/**
+ * Write a manifest file.
+ *
+ * @param path - The file to write.
+ * @param manifest - The manifest.
+ */
+export async function writeManifestFile(
+  path: string,
+  manifest: CommandManifest,
+): Promise<void> {
+  await Deno.writeTextFile(path, `${JSON.stringify(manifest, null, 2)}\n`);
+}
+
+/**
+ * Read a manifest file.
+ *
+ * @param path - The manifest file.
+ * @returns The manifest, or `undefined` if the file does not exist.
+ * @throws Error if the manifest is not valid JSON or has another version.
+ */
+export async function readManifestFile(
+  path: string,
+): Promise<CommandManifest | undefined> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return undefined;
+    throw err;
+  }
+  const manifest = JSON.parse(text) as CommandManifest;
+  if (manifest.version !== 1) {
+    throw new Error(`${path}: unsupported manifest version`);
+  }
+  return manifest;
+}
@@ -0,0 +1,286 @@
+/**
+ * src/cli/discover_test.ts
+ *
+ * File-system routing with `discoverCommands`: which modules become which
+ * commands, and the `_manifest.json` that spares startup from importing
+ * them — read when fresh, rebuilt when stale or corrupt.
+ */
+
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { toFileUrl } from "@std/path";
+import { CLI } from "./mod.ts";
+import {
+  buildCommandManifest,
+  COMMAND_MANIFEST,
+  type CommandManifest,
+  commandPathOf,
+  isStaleEntry,
+  loadCommandManifest,
+  writeCommandManifest,
+} from "./discover.ts";
+import { runCLI } from "../testing.ts";
+
+/** A commands directory in a temporary root. */
+interface CommandsDir {
+  /** The temporary root. */
+  root: string;
+  /** The commands directory, `<root>/commands`. */
+  dir: string;
+  /** The names of the modules imported so far, in import order. */
+  imports(): Promise<string[]>;
+}
+
+/**
+ * The source of a command module that logs `name` when run, and appends
+ * `name` to `<root>/imports` when imported.
+ *
+ * @param root - The temporary root.
+ * @param name - The command's name.
+ * @param description - The description in its `options`.
+ * @returns The module source.
+ */
+function commandSource(
+  root: string,
+  name: string,
+  description = `The ${name} command`,
+): string {
+  return `
+Deno.writeTextFileSync(${JSON.stringify(`${root}/imports`)}, "${name}\\n", {
+  append: true,
+});
+export const options = {
+  description: ${JSON.stringify(description)},
+  flags: [{ name: "count", type: "number" }],
+};
+export default (args, flags, ctx) => {
+  ctx.log(JSON.stringify({ command: "${name}", args, count: flags.count }));
+};
+`;
+}
+
+/**
+ * Run `fn` with a fresh commands directory holding the standard tree:
+ * `cluster/index.ts`, `cluster/node/add.ts`, a `_shared.ts` helper, a test
+ * and a declaration file. Every call uses new module URLs, so no module is
+ * cached from an earlier test.
+ *
+ * @param fn - Receives the directory.
+ */
+async function withCommands(
+  fn: (commands: CommandsDir) => Promise<void>,
+): Promise<void> {
+  const root = await Deno.makeTempDir();
+  const dir = `${root}/commands`;
+  try {
+    await Deno.mkdir(`${dir}/cluster/node`, { recursive: true });
+    await Deno.writeTextFile(
+      `${dir}/cluster/index.ts`,
+      commandSource(root, "cluster"),
+    );
+    await Deno.writeTextFile(
+      `${dir}/cluster/node/add.ts`,
+      commandSource(root, "add"),
+    );
+    await Deno.writeTextFile(
+      `${dir}/cluster/node/_shared.ts`,
+      'throw new Error("helpers are not commands");\n',
+    );
+    await Deno.writeTextFile(
+      `${dir}/version_test.ts`,
+      'throw new Error("tests are not commands");\n',
+    );
+    await Deno.writeTextFile(`${dir}/types.d.ts`, "export {};\n");
+    await fn({
+      root,
+      dir,
+      imports: async () => {
+        const text = await Deno.readTextFile(`${root}/imports`)
+          .catch(() => "");
+        return text.split("\n").filter(Boolean);
+      },
+    });
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+}
+
+/**
+ * Read the manifest of a commands directory.
+ *
+ * @param dir - The commands directory.
+ * @returns The parsed `_manifest.json`.
+ */
+async function readManifest(dir: string): Promise<CommandManifest> {
+  return JSON.parse(await Deno.readTextFile(`${dir}/${COMMAND_MANIFEST}`));
+}
+
+/* ------------------------------------------------------------------ *
+ *  Routing
+ * ------------------------------------------------------------------ */
+
+Deno.test("discover: file names spell command paths", () => {
+  assertEquals(commandPathOf("deploy.ts"), ["deploy"]);
+  assertEquals(commandPathOf("cluster/node/add.ts"), [
+    "cluster",
+    "node",
+    "add",
+  ]);
+  assertEquals(commandPathOf("cluster/index.tsx"), ["cluster"]);
+  assertEquals(commandPathOf("cluster\\node\\rm.js"), [
+    "cluster",
+    "node",
+    "rm",
+  ]);
+  assertEquals(commandPathOf("index.ts"), []);
+});
+
+Deno.test("discover: helpers, tests and declaration files are skipped", async () => {
+  await withCommands(async ({ dir }) => {
+    const manifest = await buildCommandManifest(dir);
+    assertEquals(manifest.version, 1);
+    assertEquals(
+      manifest.commands.map(({ path, module }) => [path.join(" "), module]),
+      [
+        ["cluster", "cluster/index.ts"],
+        ["cluster node add", "cluster/node/add.ts"],
+      ],
+    );
+    const [, add] = manifest.commands;
+    assertEquals(add.options.description, "The add command");
+    assertEquals(add.options.flags, [{ name: "count", type: "number" }]);
+    assert(add.mtime !== undefined && add.hash?.length === 64);
+  });
+});
+
+Deno.test("discover: a top-level index module is an error", async () => {
+  await withCommands(async ({ root, dir }) => {
+    await Deno.writeTextFile(`${dir}/index.ts`, commandSource(root, "root"));
+    let error: unknown;
+    await buildCommandManifest(dir).catch((err) => error = err);
+    assert(error instanceof Error);
+    assertStringIncludes(error.message, "an index module needs a subdirectory");
+  });
+});
+
+Deno.test("discover: discovered commands run with their options", async () => {
+  await withCommands(async ({ dir }) => {
+    const cli = new CLI({ name: "app" });
+    cli.discoverCommands(dir);
+    const result = await runCLI(cli, [
+      "cluster",
+      "node",
+      "add",
+      "web-1",
+      "--count=2",
+    ]);
+    assertEquals(result.exitCode, 0, result.stderr);
+    assertEquals(JSON.parse(result.stdout), {
+      command: "add",
+      args: ["web-1"],
+      count: 2,
+    });
+    const help = await runCLI(cli, ["cluster", "--help"]);
+    assertStringIncludes(help.stdout, "The cluster command");
+  });
+});
+
+/* ------------------------------------------------------------------ *
+ *  Manifest
+ * ------------------------------------------------------------------ */
+
+Deno.test("discover: with a manifest, startup imports no module", async () => {
+  await withCommands(async ({ root, dir, imports }) => {
+    await writeCommandManifest(dir);
+    // Same files and mtimes at new URLs, so nothing is cached
+    const moved = `${root}/moved`;
+    await Deno.rename(dir, moved);
+    await Deno.remove(`${root}/imports`);
+
+    const cli = new CLI({ name: "app" });
+    await cli.discoverCommands(moved);
+    const help = await runCLI(cli, ["--help"]);
+    assertStringIncludes(help.stdout, "cluster");
+    const commandHelp = await runCLI(cli, ["cluster", "node", "add", "--help"]);
+    assertStringIncludes(commandHelp.stdout, "The add command");
+    assertStringIncludes(commandHelp.stdout, "--count <number>");
+    assertEquals(await imports(), []);
+
+    const result = await runCLI(cli, ["cluster", "node", "add"]);
+    assertEquals(result.exitCode, 0, result.stderr);
+    assertEquals(await imports(), ["add"], "imported when its command runs");
+  });
+});
+
+Deno.test("discover: a changed module makes its entry stale", async () => {
+  await withCommands(async ({ root, dir }) => {
+    const file = `${dir}/cluster/node/add.ts`;
+    const url = toFileUrl(file).href;
+    const [, entry] = (await buildCommandManifest(dir)).commands;
+    assertEquals(await isStaleEntry(entry, url), false);
+
+    // A new mtime alone (a checkout, a copy) keeps it fresh
+    const later = new Date(entry.mtime! + 60_000);
+    await Deno.utime(file, later, later);
+    assertEquals(await isStaleEntry(entry, url), false);
+
+    await Deno.writeTextFile(file, commandSource(root, "add", "Changed"));
+    assertEquals(await isStaleEntry(entry, url), true);
+    await Deno.remove(file);
+    assertEquals(await isStaleEntry(entry, url), true);
+    assertEquals(await isStaleEntry(entry, "https://example.com/x.ts"), false);
+  });
+});
+
+Deno.test("discover: a stale manifest is rebuilt and rewritten", async () => {
+  await withCommands(async ({ dir }) => {
+    // Describes an older add.ts and misses cluster/index.ts
+    const stale: CommandManifest = {
+      version: 1,
+      commands: [{
+        path: ["cluster", "node", "add"],
+        module: "cluster/node/add.ts",
+        mtime: 0,
+        hash: "0".repeat(64),
+        options: { description: "Outdated" },
+      }],
+    };
+    await Deno.writeTextFile(
+      `${dir}/${COMMAND_MANIFEST}`,
+      JSON.stringify(stale),
+    );
+    const manifest = await loadCommandManifest(dir);
+    assertEquals(manifest.commands.map(({ module }) => module), [
+      "cluster/index.ts",
+      "cluster/node/add.ts",
+    ]);
+    assertEquals(manifest.commands[1].options.description, "The add command");
+    assertEquals(await readManifest(dir), manifest);
+  });
+});
+
+Deno.test("discover: a manifest listing a removed module is rebuilt", async () => {
+  await withCommands(async ({ dir }) => {
+    await writeCommandManifest(dir);
+    await Deno.remove(`${dir}/cluster/index.ts`);
+    const manifest = await loadCommandManifest(dir);
+    assertEquals(manifest.commands.map(({ path }) => path.join(" ")), [
+      "cluster node add",
+    ]);
+    assertEquals((await readManifest(dir)).commands.length, 1);
+  });
+});
+
+Deno.test("discover: a corrupt manifest is rebuilt", async () => {
+  for (const text of ["{ not json", '{"version": 2, "commands": []}', ""]) {
+    await withCommands(async ({ dir }) => {
+      await Deno.writeTextFile(`${dir}/${COMMAND_MANIFEST}`, text);
+      const cli = new CLI({ name: "app" });
+      await cli.discoverCommands(dir);
+      const result = await runCLI(cli, ["cluster", "node", "add"]);
+      assertEquals(result.exitCode, 0, `${text}: ${result.stderr}`);
+      const manifest = await readManifest(dir);
+      assertEquals(manifest.version, 1);
+      assertEquals(manifest.commands.length, 2);
+    });
+  }
+});
@@ -1,8 +1,16 @@
 // src/cli/helpers.ts
 
 import { cyan, red } from "@std/fmt/colors";
-import { formatHelpLines, suggestFullPath } from "../utils/mod.ts";
-import type { CommandNode } from "../types.ts";
+import {
+  formatCommandHelpLines,
+  formatHelpLines,
+  GLOBAL_FLAGS,
+  type HelpOptions,
+  suggestFullPath,
+  writeError,
+} from "../utils/mod.ts";
+import type { CommandNode, FlagSpec, OutputMode } from "../types.ts";
+import { type CLIRuntime, denoRuntime } from "../runtime.ts";
 
 type Verbosity = "quiet" | "normal" | "verbose";
 
@@ -13,41 +21,146 @@ type Verbosity = "quiet" | "normal" | "verbose";
  * @param cliName - The name of the CLI, used in the usage line.
  * @param root - The root CommandNode of the command tree.
  * @param verbosity - The verbosity level ("quiet", "normal", or "verbose").
+ * @param runtime - Where to write (defaults to the Deno process).
+ * @param globals - The global flags (including those added by plugins).
+ * @param help - Layout options; descriptions wrap at the terminal's width
+ *               unless `columns` is given.
  */
 export function printHelp(
   cliName: string,
   root: CommandNode,
   verbosity: Verbosity,
+  runtime: CLIRuntime = denoRuntime(),
+  globals: FlagSpec[] = GLOBAL_FLAGS,
+  help: HelpOptions = {},
 ): void {
   if (verbosity === "quiet") return;
-  const lines = formatHelpLines(cliName, root);
+  const lines = formatHelpLines(cliName, root, globals, {
+    columns: runtime.stdout.columns?.(),
+    ...help,
+  });
   for (const l of lines) {
-    console.log(l);
+    runtime.stdout.write(`${l}\n`);
+  }
+}
+
+/**
+ * Print the help page for a single command (or command group).
+ * If verbosity is "quiet", this function does nothing.
+ *
+ * @param cliName - The name of the CLI, used in the usage line.
+ * @param path - The command path as typed by the user.
+ * @param node - The CommandNode the path resolves to.
+ * @param verbosity - The verbosity level ("quiet", "normal", or "verbose").
+ * @param runtime - Where to write (defaults to the Deno process).
+ * @param globals - The global flags (including those added by plugins).
+ * @param help - Layout options; descriptions wrap at the terminal's width
+ *               unless `columns` is given.
+ */
+export function printCommandHelp(
+  cliName: string,
+  path: string[],
+  node: CommandNode,
+  verbosity: Verbosity,
+  runtime: CLIRuntime = denoRuntime(),
+  globals: FlagSpec[] = GLOBAL_FLAGS,
+  help: HelpOptions = {},
+): void {
+  if (verbosity === "quiet") return;
+  const lines = formatCommandHelpLines(cliName, path, node, globals, {
+    columns: runtime.stdout.columns?.(),
+    ...help,
+  });
+  for (const l of lines) {
+    runtime.stdout.write(`${l}\n`);
   }
 }
 
 /**
  * Called when an unknown command is invoked: prints an error, possibly a suggestion,
- * and then the full help.
+ * and then the full help — all on stderr, since none of it is command output.
  *
+ * @param cliName - The name of the CLI, used in the help's usage line.
  * @param cmd - The unknown command string that was invoked.
  * @param root - The root CommandNode of the command tree.
  * @param verbosity - The current verbosity level ("quiet", "normal", or "verbose").
+ * @param runtime - Where to write (defaults to the Deno process).
+ * @param globals - The global flags (including those added by plugins).
+ * @param help - Layout options for the help.
  */
 export function unknownCommand(
+  cliName: string,
   cmd: string,
   root: CommandNode,
   verbosity: Verbosity,
+  runtime: CLIRuntime = denoRuntime(),
+  globals: FlagSpec[] = GLOBAL_FLAGS,
+  help: HelpOptions = {},
 ): void {
   if (verbosity !== "quiet") {
-    console.error(red(`\nUnknown command: ${cmd}\n`));
+    runtime.stderr.write(`${red(`\nUnknown command: ${cmd}\n`)}\n`);
     // Attempt a suggestion
     const parts = cmd.split(" ");
     const closest = suggestFullPath(root, parts);
     if (closest) {
-      console.error(`Did you mean ${cyan(closest)} ?\n`);
+      runtime.stderr.write(`Did you mean ${cyan(closest)} ?\n\n`);
     }
   }
   // Always print full help (unless quiet)
-  printHelp("", root, verbosity);
+  printHelp(
+    cliName,
+    root,
+    verbosity,
+    { ...runtime, stdout: runtime.stderr },
+    globals,
+    help,
+  );
+}
+
+/**
+ * Report an error that occurred before a command context existed (e.g. a
+ * malformed flag) on stderr and map it to an exit code.
+ *
+ * @param err - The error to report.
+ * @param runtime - Where to write (defaults to the Deno process).
+ * @param outputMode - "json"/"yaml" write an error envelope instead of text.
+ * @param command - The resolved command path, if any.
+ * @returns The exit code: `err.exitCode` for a CLIError, otherwise 1.
+ */
+export function reportError(
+  err: unknown,
+  runtime: CLIRuntime = denoRuntime(),
+  outputMode: OutputMode = "text",
+  command: string[] = [],
+): number {
+  return writeError(err, runtime.stderr, outputMode, command);
+}
+
+/**
+ * Import a module and pick one of its exports: how lazy commands and plugins
+ * are loaded. Relative specifiers resolve against this directory, so pass
+ * absolute paths or URLs (e.g. `new URL("./cmd.ts", import.meta.url).href`).
+ *
+ * @param specifier - Module path or URL (`jsr:`, `npm:`, `https:`, `file:`).
+ * @param symbol - The export to return; falls back to the default export.
+ * @returns The export (`undefined` if the module has neither).
+ */
+export async function importSymbol(
+  specifier: string,
+  symbol = "default",
+): Promise<unknown> {
+  const imported = await import(specifier);
+  return symbol && imported[symbol] !== undefined
+    ? imported[symbol]
+    : imported.default;
+}
+
+/**
+ * Resolve a module specifier the way `importSymbol` does.
+ *
+ * @param specifier - Module path or URL.
+ * @returns The absolute module URL.
+ */
+export function resolveModule(specifier: string): string {
+  return import.meta.resolve(specifier);
 }
@@ -0,0 +1,260 @@
+/**
+ * src/cli/manifest_test.ts
+ *
+ * The CLI's command manifest (`new CLI({ manifest })`): help, suggestions
+ * and completions describe lazy commands from it without importing their
+ * modules, and a manifest that no longer matches the registered commands is
+ * regenerated and written back.
+ */
+
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { toFileUrl } from "@std/path";
+import { CLI } from "./mod.ts";
+import type { CommandManifest, ManifestCommand } from "./discover.ts";
+import { runCLI } from "../testing.ts";
+
+/** A lazy command module in a temporary directory. */
+interface Fixture {
+  /** The directory, also holding the manifest. */
+  dir: string;
+  /** The manifest file. */
+  manifest: string;
+  /** The module's `file:` URL. */
+  module: string;
+  /** The names of the modules imported so far, in import order. */
+  imports(): Promise<string[]>;
+}
+
+/**
+ * The source of a module exporting `sumCommand` and its `options`, which
+ * appends "sum" to `<dir>/imports` when imported.
+ *
+ * @param dir - The temporary directory.
+ * @returns The module source.
+ */
+function sumSource(dir: string): string {
+  return `
+Deno.writeTextFileSync(${JSON.stringify(`${dir}/imports`)}, "sum\\n", {
+  append: true,
+});
+export const options = {
+  description: "Compute the sum of numbers",
+  aliases: ["add"],
+  flags: [{ name: "precision", type: "number" }],
+  args: [{ name: "numbers", variadic: true }],
+};
+export const sumCommand = (args, _flags, ctx) => {
+  ctx.log(String(args.reduce((total, n) => total + Number(n), 0)));
+};
+`;
+}
+
+/**
+ * Run `fn` with a fresh directory holding `sum.ts`. Every call uses a new
+ * module URL, so the module is never cached from an earlier test.
+ *
+ * @param fn - Receives the fixture.
+ */
+async function withModule(
+  fn: (fixture: Fixture) => Promise<void>,
+): Promise<void> {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(`${dir}/sum.ts`, sumSource(dir));
+    await fn({
+      dir,
+      manifest: `${dir}/cli.manifest.json`,
+      module: toFileUrl(`${dir}/sum.ts`).href,
+      imports: async () => {
+        const text = await Deno.readTextFile(`${dir}/imports`).catch(() => "");
+        return text.split("\n").filter(Boolean);
+      },
+    });
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+/**
+ * A CLI using `fixture`'s manifest, with `compute sum` registered lazily and
+ * without options.
+ *
+ * @param fixture - The fixture.
+ * @returns The CLI.
+ */
+function sumCLI(fixture: Fixture): CLI {
+  const cli = new CLI({ name: "app", manifest: fixture.manifest });
+  cli.registerLazyCommand(["compute", "sum"], fixture.module, "sumCommand");
+  return cli;
+}
+
+/**
+ * Write a manifest describing `compute sum`, as a build step would have.
+ * Its `mtime` matches the module unless `stale` is set, so it is trusted
+ * without hashing or importing the module.
+ *
+ * @param fixture - The fixture.
+ * @param description - The description to record.
+ * @param stale - Record another modification time and hash.
+ */
+async function writeManifest(
+  fixture: Fixture,
+  description: string,
+  stale = false,
+): Promise<void> {
+  const { mtime } = await Deno.stat(`${fixture.dir}/sum.ts`);
+  const entry: ManifestCommand = {
+    path: ["compute", "sum"],
+    module: fixture.module,
+    symbol: "sumCommand",
+    mtime: stale ? 0 : mtime!.getTime(),
+    hash: "0".repeat(64),
+    options: {
+      description,
+      aliases: ["add"],
+      flags: [{ name: "precision", type: "number" }],
+      args: [{ name: "numbers", variadic: true }],
+    },
+  };
+  const manifest: CommandManifest = { version: 1, commands: [entry] };
+  await Deno.writeTextFile(fixture.manifest, JSON.stringify(manifest));
+}
+
+/**
+ * Read the manifest file back.
+ *
+ * @param fixture - The fixture.
+ * @returns The parsed manifest.
+ */
+async function readManifest(fixture: Fixture): Promise<CommandManifest> {
+  return JSON.parse(await Deno.readTextFile(fixture.manifest));
+}
+
+/* ------------------------------------------------------------------ *
+ *  Reading the manifest
+ * ------------------------------------------------------------------ */
+
+Deno.test("manifest: help, suggestions and completions never import modules", async () => {
+  await withModule(async (fixture) => {
+    await writeManifest(fixture, "From the manifest");
+    const cli = sumCLI(fixture);
+
+    const help = await runCLI(cli, ["compute", "--help"]);
+    assertStringIncludes(help.stdout, "From the manifest");
+    const commandHelp = await runCLI(cli, ["compute", "sum", "--help"]);
+    assertStringIncludes(commandHelp.stdout, "--precision <number>");
+    assertStringIncludes(commandHelp.stdout, "numbers...");
+    const typo = await runCLI(cli, ["compute", "sun"]);
+    assertStringIncludes(typo.stderr, "Did you mean");
+    assertStringIncludes(typo.stderr, "compute sum");
+    const completion = await runCLI(cli, ["completion", "bash"]);
+    assertStringIncludes(completion.stdout, "--precision");
+    assertEquals(await fixture.imports(), []);
+
+    // The alias from the manifest resolves; only now is the module imported
+    const result = await runCLI(cli, ["compute", "add", "1", "2"]);
+    assertEquals(result.exitCode, 0, result.stderr);
+    assertEquals(result.stdout, "3\n");
+    assertEquals(await fixture.imports(), ["sum"]);
+  });
+});
+
+Deno.test("manifest: a fresh manifest is left as it is", async () => {
+  await withModule(async (fixture) => {
+    await writeManifest(fixture, "From the manifest");
+    const before = await Deno.readTextFile(fixture.manifest);
+    await runCLI(sumCLI(fixture), ["--help"]);
+    assertEquals(await Deno.readTextFile(fixture.manifest), before);
+  });
+});
+
+/* ------------------------------------------------------------------ *
+ *  Regenerating it
+ * ------------------------------------------------------------------ */
+
+Deno.test("manifest: a changed module regenerates the manifest", async () => {
+  await withModule(async (fixture) => {
+    await writeManifest(fixture, "Outdated", true);
+    const help = await runCLI(sumCLI(fixture), ["compute", "--help"]);
+    assertStringIncludes(help.stdout, "Compute the sum of numbers");
+    assert(!help.stdout.includes("Outdated"));
+
+    const [entry] = (await readManifest(fixture)).commands;
+    assertEquals(entry.options.description, "Compute the sum of numbers");
+    assertEquals(
+      entry.mtime,
+      (await Deno.stat(`${fixture.dir}/sum.ts`)).mtime?.getTime(),
+    );
+    assertEquals(entry.hash?.length, 64);
+    assert(entry.hash !== "0".repeat(64));
+  });
+});
+
+Deno.test("manifest: a missing or corrupt manifest is regenerated", async () => {
+  for (const text of [undefined, "{ not json", '{"version": 2}']) {
+    await withModule(async (fixture) => {
+      if (text !== undefined) await Deno.writeTextFile(fixture.manifest, text);
+      const help = await runCLI(sumCLI(fixture), ["compute", "--help"]);
+      assertEquals(help.exitCode, 0);
+      assertStringIncludes(help.stdout, "Compute the sum of numbers");
+      const manifest = await readManifest(fixture);
+      assertEquals(manifest.version, 1);
+      assertEquals(manifest.commands.map(({ path }) => path.join(" ")), [
+        "compute sum",
+      ]);
+    });
+  }
+});
+
+Deno.test("manifest: registering another lazy command regenerates it", async () => {
+  await withModule(async (fixture) => {
+    await writeManifest(fixture, "From the manifest");
+    const cli = sumCLI(fixture);
+    cli.registerLazyCommand(["total"], fixture.module, "sumCommand");
+    const result = await runCLI(cli, ["--help"]);
+    assertEquals(result.exitCode, 0);
+    const manifest = await readManifest(fixture);
+    assertEquals(manifest.commands.map(({ path }) => path.join(" ")), [
+      "compute sum",
+      "total",
+    ]);
+  });
+});
+
+Deno.test("manifest: a module that fails to import keeps help working", async () => {
+  await withModule(async (fixture) => {
+    await writeManifest(fixture, "Outdated", true);
+    await Deno.writeTextFile(`${fixture.dir}/sum.ts`, "export const = ;\n");
+    const cli = sumCLI(fixture);
+    const help = await runCLI(cli, ["--help"]);
+    assertEquals(help.exitCode, 0);
+    const result = await runCLI(cli, ["compute", "sum"]);
+    assertEquals(result.exitCode, 1);
+  });
+});
+
+/* ------------------------------------------------------------------ *
+ *  __manifest
+ * ------------------------------------------------------------------ */
+
+Deno.test("manifest: __manifest writes the manifest, or prints it", async () => {
+  await withModule(async (fixture) => {
+    const written = await runCLI(sumCLI(fixture), ["__manifest"]);
+    assertEquals(written.exitCode, 0, written.stderr);
+    assertEquals(written.stdout, `${fixture.manifest}\n`);
+    const [entry] = (await readManifest(fixture)).commands;
+    assertEquals(entry.module, fixture.module);
+    assertEquals(entry.symbol, "sumCommand");
+    assertEquals(entry.options.aliases, ["add"]);
+
+    const cli = new CLI({ name: "app" });
+    cli.registerLazyCommand(["compute", "sum"], fixture.module, "sumCommand");
+    const printed = await runCLI(cli, ["__manifest"]);
+    assertEquals(
+      (JSON.parse(printed.stdout) as CommandManifest).commands[0].path,
+      ["compute", "sum"],
+    );
+    const help = await runCLI(cli, ["--help"]);
+    assert(!help.stdout.includes("__manifest"), "the command is hidden");
+  });
+});
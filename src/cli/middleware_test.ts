@@ -0,0 +1,199 @@
+/**
+ * src/cli/middleware_test.ts
+ *
+ * `cli.use` middleware around command handlers: the order it runs in
+ * relative to `beforeEach` / `afterEach`, scoping to a command subtree,
+ * short-circuiting, and how its errors (including calling `next()` twice)
+ * end the run.
+ */
+
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { z } from "zod";
+import { CLI } from "./mod.ts";
+import { runCLI } from "../testing.ts";
+import { CLIError } from "../types.ts";
+
+/**
+ * A CLI whose `cluster create` (alias `cluster add`) and `status` commands
+ * append their name to `calls`.
+ *
+ * @param calls - Receives the order things ran in.
+ * @returns The CLI.
+ */
+function callCLI(calls: string[]): CLI {
+  const cli = new CLI({ name: "app" });
+  cli.registerCommand(["cluster", "create"], () => {
+    calls.push("cluster create");
+  }, { aliases: ["add"] });
+  cli.registerCommand(["status"], () => {
+    calls.push("status");
+  });
+  return cli;
+}
+
+/* ------------------------------------------------------------------ *
+ *  Order and scope
+ * ------------------------------------------------------------------ */
+
+Deno.test("middleware: runs in registration order, outermost first", async () => {
+  const calls: string[] = [];
+  const cli = callCLI(calls);
+  cli.beforeEach(() => void calls.push("beforeEach"));
+  cli.afterEach(() => void calls.push("afterEach"));
+  cli.use(async (_ctx, next) => {
+    calls.push("outer in");
+    await next();
+    calls.push("outer out");
+  });
+  cli.use(async (_ctx, next) => {
+    calls.push("inner in");
+    await next();
+    calls.push("inner out");
+  });
+  const result = await runCLI(cli, ["status"]);
+  assertEquals(result.exitCode, 0);
+  assertEquals(calls, [
+    "beforeEach",
+    "outer in",
+    "inner in",
+    "status",
+    "inner out",
+    "outer out",
+    "afterEach",
+  ]);
+});
+
+Deno.test("middleware: sees the validated flags and may replace them", async () => {
+  const cli = new CLI({ name: "app" });
+  cli.registerCommand(["show"], (_args, flags, ctx) => {
+    ctx.log(JSON.stringify(flags));
+  }, { flagsSchema: z.object({ count: z.coerce.number().default(1) }) });
+  cli.use(async (ctx, next) => {
+    assertEquals(ctx.command, ["show"]);
+    assertEquals(ctx.flags.count, 2);
+    ctx.flags = { ...ctx.flags, count: 3 };
+    await next();
+  });
+  const result = await runCLI(cli, ["show", "--count=2"]);
+  assertEquals(result.exitCode, 0);
+  assertEquals(JSON.parse(result.stdout).count, 3);
+});
+
+Deno.test("middleware: a scope limits it to that subtree, aliases included", async () => {
+  const calls: string[] = [];
+  const cli = callCLI(calls);
+  cli.use(["cluster"], async function cluster(_ctx, next) {
+    calls.push("cluster mw");
+    await next();
+  });
+  cli.use(["cluster", "create"], async function create(_ctx, next) {
+    calls.push("create mw");
+    await next();
+  });
+  for (
+    const argv of [["cluster", "create"], ["cluster", "add"], ["status"]]
+  ) {
+    calls.length = 0;
+    const result = await runCLI(cli, argv);
+    assertEquals(result.exitCode, 0, argv.join(" "));
+    assertEquals(
+      calls,
+      argv[0] === "cluster"
+        ? ["cluster mw", "create mw", "cluster create"]
+        : ["status"],
+      argv.join(" "),
+    );
+  }
+});
+
+Deno.test("middleware: not calling next() skips the handler", async () => {
+  const calls: string[] = [];
+  const cli = callCLI(calls);
+  cli.use((ctx) => ctx.log("skipped"));
+  const result = await runCLI(cli, ["status"]);
+  assertEquals(result.exitCode, 0);
+  assertEquals(result.stdout, "skipped\n");
+  assertEquals(calls, []);
+});
+
+Deno.test("middleware: each one runs in a child span of the command", async () => {
+  const cli = callCLI([]);
+  cli.use(async function timing(_ctx, next) {
+    await next();
+  });
+  const result = await runCLI(cli, ["status"]);
+  const command = result.spans.find((span) => span.name === "status");
+  const span = result.spans.find((span) => span.name === "middleware timing");
+  assert(command && span);
+  assertEquals(span.parentSpanId, command.spanId);
+  assertEquals(span.attributes["cli.middleware.phase"], "use");
+  assertEquals(span.attributes["cli.middleware.name"], "timing");
+  assert(span.ended);
+});
+
+/* ------------------------------------------------------------------ *
+ *  Errors
+ * ------------------------------------------------------------------ */
+
+Deno.test("middleware: next() rejects with the handler's error", async () => {
+  const cli = new CLI({ name: "app" });
+  cli.registerCommand(["fail"], () => {
+    throw new CLIError("handler failed", 3, { code: "HANDLER" });
+  });
+  cli.use(async (_ctx, next) => {
+    try {
+      await next();
+    } catch (err) {
+      assert(err instanceof CLIError);
+      throw new CLIError(`wrapped: ${err.message}`, 4, { code: "WRAPPED" });
+    }
+  });
+  const result = await runCLI(cli, ["fail", "--output=json"]);
+  assertEquals(result.exitCode, 4);
+  assertEquals(JSON.parse(result.stderr).error, {
+    message: "wrapped: handler failed",
+    code: "WRAPPED",
+    exitCode: 4,
+    command: "fail",
+  });
+});
+
+Deno.test("middleware: an error it throws becomes the error envelope", async () => {
+  const calls: string[] = [];
+  const cli = callCLI(calls);
+  cli.afterEach(() => void calls.push("afterEach"));
+  cli.use(["cluster"], function requireLogin() {
+    throw new CLIError("Not logged in", 2, {
+      code: "UNAUTHENTICATED",
+      details: { hint: "run app login" },
+    });
+  });
+  const result = await runCLI(cli, ["cluster", "create", "--output=json"]);
+  assertEquals(result.exitCode, 2);
+  assertEquals(JSON.parse(result.stderr).error, {
+    message: "Not logged in",
+    code: "UNAUTHENTICATED",
+    exitCode: 2,
+    command: "cluster create",
+    hint: "run app login",
+  });
+  // The handler never ran; afterEach still does
+  assertEquals(calls, ["afterEach"]);
+  const span = result.spans.find((s) => s.name === "middleware requireLogin");
+  assertEquals(span?.exceptions.length, 1);
+});
+
+Deno.test("middleware: calling next() twice fails the run", async () => {
+  const calls: string[] = [];
+  const cli = callCLI(calls);
+  cli.use(async (_ctx, next) => {
+    await next();
+    await next();
+  });
+  const result = await runCLI(cli, ["status", "--output=json"]);
+  assertEquals(result.exitCode, 1);
+  const { error } = JSON.parse(result.stderr);
+  assertEquals(error.code, "INTERNAL_ERROR");
+  assertStringIncludes(error.message, "next() called multiple times");
+  assertEquals(calls, ["status"], "the handler runs once");
+});
@@ -6,60 +6,290 @@
  */
 
 import { parseArgs } from "@std/cli";
-import type { ZodType } from "zod";
-import { type CLIConfig, CLIError, type CommandHandler } from "../types.ts";
+import { setColorEnabled } from "@std/fmt/colors";
+import { join, toFileUrl } from "@std/path";
+import type { ZodType, ZodTypeAny, ZodTypeDef } from "zod";
+import {
+  type ArgSpec,
+  type ArgTuple,
+  type CLIConfig,
+  CLIError,
+  type CommandHandler,
+  type CommandMiddleware,
+  type CommandNode,
+  type CommandOptions,
+  EXIT_USAGE,
+  type FlagSpec,
+  type Middleware,
+  type OutputMode,
+  type RunResult,
+} from "../types.ts";
 import { CLIContext } from "../context.ts";
-import { loadConfigFile, loadEnvOverrides } from "../utils/mod.ts";
+import { type CLIRuntime, denoRuntime } from "../runtime.ts";
+import {
+  coerceFlagValue,
+  type ColorPolicy,
+  colorStream,
+  commandFlags,
+  envFlagValue,
+  formatArgsUsage,
+  formatCommandHelpLines,
+  formatHelpLines,
+  formatProfile,
+  getPath,
+  GLOBAL_FLAGS,
+  type HelpOptions,
+  interruptError,
+  isCancellation,
+  LayeredConfig,
+  loadConfigLayers,
+  loadEnvOverrides,
+  type OutputFormat,
+  parseArgsOptions,
+  parseFlags,
+  parseOutputFlag,
+  Profiler,
+  readSecret,
+  resolveColorMode,
+  resolveColorPolicy,
+  secretConfigKeys,
+  secretFileFlag,
+  suggestFullPath,
+  validateArgs,
+  validateConfig,
+} from "../utils/mod.ts";
 import { CommandRegistry } from "./registry.ts";
 import { loadPackageInfo } from "./packageInfo.ts";
-import { printHelp, unknownCommand } from "./helpers.ts";
+import {
+  importSymbol,
+  printCommandHelp,
+  printHelp,
+  reportError,
+  resolveModule,
+  unknownCommand,
+} from "./helpers.ts";
+import { type CLIPlugin, loadPlugin, pluginSpecifiers } from "./plugins.ts";
+import {
+  type CommandManifest,
+  describeCommand,
+  isStaleEntry,
+  loadCommandManifest,
+  localPath,
+  readManifestFile,
+  writeManifestFile,
+} from "./discover.ts";
+import { readsRawConfig, registerBuiltins } from "./builtins.ts";
+import { type Span, SpanStatusCode } from "@opentelemetry/api";
+import {
+  BufferingMeter,
+  BufferingTracer,
+  cliResource,
+  exportMetrics,
+  exportSpans,
+  type OTLPExporterOptions,
+  parentContext,
+  parseKeyValueList,
+  recordError,
+  resolveOTLPUrl,
+} from "../telemetry/mod.ts";
 
-type Middleware = (ctx: CLIContext) => Promise<void> | void;
+/** Mutable per-run state shared between `run()` and `#execute()`. */
+interface RunState {
+  result: RunResult;
+  /** Runtime whose stdout/stderr enforce `color`. */
+  runtime: CLIRuntime;
+  /** Color policy; mutated in place once flags and config are resolved. */
+  color: ColorPolicy;
+  /** Output mode errors are reported in; known once flags are parsed. */
+  outputMode: OutputMode;
+  ctx?: CLIContext;
+  /** Times the phases of the run. */
+  profiler: Profiler;
+  /** Whether to print the phase timings (`--profile` / `<NAME>_PROFILE`). */
+  profile: boolean;
+  /** The command span; `run()` ends it once the exit code is known. */
+  span?: Span;
+  /**
+   * Set when spans and/or metrics are exported over OTLP/HTTP after the run;
+   * each signal is present only when its own endpoint resolves.
+   */
+  telemetry?: {
+    traces?: { tracer: BufferingTracer; exporter: OTLPExporterOptions };
+    metrics?: { meter: BufferingMeter; exporter: OTLPExporterOptions };
+  };
+}
 
 /**
  * Class representing a command-line interface with support for registering
  * commands (including lazy-loaded commands), middleware hooks, automatic help,
  * and flag parsing.
+ *
+ * @typeParam Config - The configuration handlers see as `ctx.config`,
+ *                    inferred from `configSchema`.
  */
-export class CLI {
+export class CLI<Config extends CLIConfig = CLIConfig> {
   #registry = new CommandRegistry();
   #name: string = "";
   #version: string = "";
-  #beforeMiddleware: Middleware[] = [];
-  #afterMiddleware: Middleware[] = [];
+  #beforeMiddleware: Middleware<Config>[] = [];
+  #afterMiddleware: Middleware<Config>[] = [];
+  #middleware: { scope: string[]; fn: CommandMiddleware<Config> }[] = [];
+  #globalFlags: FlagSpec[] = [...GLOBAL_FLAGS];
+  #plugins: CLIPlugin<Config>[] = [];
+  /** Whether plugins listed under `plugins` in config files are installed. */
+  #pluginDiscovery = false;
+  /** Plugin modules already imported from the config `plugins` list. */
+  #discovered = new Set<string>();
+  /**
+   * `setup()` promises of installed plugins and pending `discoverCommands`
+   * calls, awaited by the next run and then dropped (see `#settle`).
+   */
+  #pending: Promise<void>[] = [];
   #config: CLIConfig = {};
+  #layers = new LayeredConfig([]);
+  #configSchema?: ZodType<Config, ZodTypeDef, unknown>;
+  #cleanupTimeoutMs = 5_000;
+  #manifestPath?: string;
+  #manifestLoaded = false;
+  #help: HelpOptions = {};
 
   /**
    * Construct a new CLI instance.
    * If `name` and `version` are not provided, defaults are used and an attempt
    * is made to auto-load name/version from `deno.json` or `deno.jsonc`.
    *
-   * @param info - An object containing optional `name` and `version` fields.
+   * @param info - An object containing optional `name` and `version` fields,
+   *               `configSchema`: a Zod schema the merged configuration is
+   *               validated with before each command, and
+   *               `cleanupTimeoutMs`: how long `onAbort` handlers may run
+   *               after Ctrl-C / SIGTERM (default: 5000), and `manifest`:
+   *               the JSON file describing the lazy commands (a path or
+   *               `file:` URL; see the `__manifest` command), and
+   *               `collapseHelp`: list only the top-level commands in the
+   *               help (`true`), or only once it would list more commands
+   *               than the given number (`help --all` lists them all),
+   *               and `discoverPlugins`: install the plugins listed under
+   *               `plugins` in the system, user and `--config` files
+   *               (default: false; the project file is never read for them).
    */
-  constructor(info: { name?: string; version?: string } = {}) {
+  constructor(
+    info: {
+      name?: string;
+      version?: string;
+      configSchema?: ZodType<Config, ZodTypeDef, unknown>;
+      cleanupTimeoutMs?: number;
+      manifest?: string | URL;
+      collapseHelp?: boolean | number;
+      discoverPlugins?: boolean;
+    } = {},
+  ) {
     // Attempt to auto-load name/version from deno.json / deno.jsonc
     this.#initializePackageInfo();
     // Overrides
     if (info.name) this.#name = info.name;
     if (info.version) this.#version = info.version;
+    this.#configSchema = info.configSchema;
+    if (info.cleanupTimeoutMs !== undefined) {
+      this.#cleanupTimeoutMs = info.cleanupTimeoutMs;
+    }
+    if (info.manifest) this.#manifestPath = localPath(info.manifest);
+    if (info.collapseHelp !== undefined) {
+      this.#help = { collapse: info.collapseHelp };
+    }
+    this.#pluginDiscovery = info.discoverPlugins ?? false;
   }
 
   // -------------------- Public API --------------------
 
+  /** The CLI name (as shown in usage lines and `--version`). */
+  get name(): string {
+    return this.#name;
+  }
+
+  /** The CLI version (as shown by `--version`). */
+  get version(): string {
+    return this.#version;
+  }
+
+  /**
+   * Format the help text for the whole CLI, or for the command at `path`.
+   * Built-in commands are included, exactly as `--help` would print it.
+   *
+   * @param path - Command path (empty for top-level help).
+   * @param options - Layout options, over the CLI's own (`collapseHelp`);
+   *                  descriptions are only wrapped if `columns` is given.
+   * @returns The formatted help lines.
+   * @throws CLIError if `path` does not resolve to a command.
+   */
+  helpLines(path: string[] = [], options: HelpOptions = {}): string[] {
+    this.#registerBuiltins();
+    const help = { ...this.#help, ...options };
+    if (path.length === 0) {
+      return formatHelpLines(
+        this.#name,
+        this.#registry.root,
+        this.#globalFlags,
+        help,
+      );
+    }
+    const { node, consumed } = this.#registry.traverse(path);
+    if (!node || consumed < path.length) {
+      throw new CLIError(`Unknown command: ${path.join(" ")}`, EXIT_USAGE);
+    }
+    return formatCommandHelpLines(
+      this.#name,
+      path,
+      node,
+      this.#globalFlags,
+      help,
+    );
+  }
+
+  /**
+   * Describe a command group, i.e. a path that only holds subcommands, such
+   * as `cluster` for `cluster create` and `cluster delete`:
+   *
+   *   cli.describeGroup(["cluster"], "Manage clusters");
+   *
+   * Groups without a description are listed without one.
+   *
+   * @param path - The group's path.
+   * @param description - Shown in the CLI's help and the group's help page.
+   * @param options - The group's `category` and `order` in the help, its
+   *                  `examples`, and whether it is `hidden`.
+   */
+  describeGroup(
+    path: string[],
+    description: string,
+    options: Parameters<CommandRegistry["describeGroup"]>[2] = {},
+  ): void {
+    this.#registry.describeGroup(path, description, options);
+  }
+
   /**
    * Register a new (non-lazy) command.
    *
    * @typeParam Path - An array of string segments representing the command path.
+   * @typeParam Flags - Type of the validated flags (inferred from `flagsSchema`).
+   * @typeParam Args - Declared positional arguments (inferred from `args`).
    * @param path - Array of segments, e.g. ["cluster", "node", "add"].
    * @param handler - Function to run when the command is invoked.
-   * @param options - Optional metadata including description, examples, aliases, hidden, flagsSchema.
+   * @param options - Optional metadata including description, examples, aliases, hidden, flagsSchema, flags, args.
    */
-  registerCommand<Path extends readonly string[]>(
+  registerCommand<
+    Path extends readonly string[],
+    Flags extends Record<string, unknown> = Record<string, unknown>,
+    const Args extends readonly ArgSpec[] = readonly ArgSpec[],
+  >(
     path: Path,
-    handler: CommandHandler,
-    options: Parameters<CommandRegistry["registerCommand"]>[2] = {},
+    handler: CommandHandler<Flags, ArgTuple<Args>, Config>,
+    options: CommandOptions<Flags, Args> = {},
   ): void {
-    this.#registry.registerCommand(path, handler, options);
+    this.#registry.registerCommand(
+      path,
+      handler as unknown as CommandHandler<Flags>,
+      options as CommandOptions<Flags>,
+    );
   }
 
   /**
@@ -79,179 +309,970 @@ export class CLI {
     this.#registry.registerLazyCommand(path, modPath, symbol, options);
   }
 
+  /**
+   * Register every command module under `dir` as a lazy command, at the path
+   * its file name spells: `commands/cluster/node/add.ts` is
+   * `cluster node add`, and `commands/cluster/index.ts` is `cluster`. A
+   * module exports its handler as `default` and its `CommandOptions` as
+   * `options`; files and directories starting with `_` or `.`, and tests,
+   * are skipped.
+   *
+   * The metadata is read from `<dir>/_manifest.json` (see
+   * `writeCommandManifest`) when it exists, so no module is imported until
+   * its command runs; otherwise each module is imported (not run) to read
+   * its `options`. A manifest that no longer matches the modules is rebuilt.
+   * `run()` waits for a call that wasn't awaited.
+   *
+   * @param dir - The commands directory: a path, or a `file:` URL such as
+   *              `new URL("./commands", import.meta.url)`.
+   * @throws Error if a module has no handler, or two map to the same path.
+   */
+  discoverCommands(dir: string | URL): Promise<void> {
+    const discovery = (async () => {
+      const root = localPath(dir);
+      const manifest = await loadCommandManifest(root);
+      for (const { path, module, options } of manifest.commands) {
+        this.#registry.registerLazyCommand(
+          path,
+          toFileUrl(join(root, module)).href,
+          "default",
+          options,
+          "options",
+        );
+      }
+    })();
+    // Reported by the next run (if not awaited), not as an unhandled rejection
+    discovery.catch(() => {});
+    this.#pending.push(discovery);
+    return discovery;
+  }
+
+  /**
+   * Add middleware that wraps command handlers, Koa style. It runs after
+   * flags and arguments are validated (see `ctx.flags` and `ctx.command`)
+   * and calls `await next()` to run the rest of the chain and the handler,
+   * so it can time the command, catch or transform its errors, or skip it
+   * by not calling `next()`. Middleware runs in registration order,
+   * outermost first.
+   *
+   * @param fn - The middleware, applied to every command.
+   */
+  use(fn: CommandMiddleware<Config>): void;
+  /**
+   * Add middleware that only wraps the commands under `scope`.
+   *
+   * @param scope - Command path prefix, e.g. `["cluster"]`.
+   * @param fn - The middleware.
+   */
+  use(scope: string[], fn: CommandMiddleware<Config>): void;
+  /**
+   * Install a plugin: register its commands, global flags and middleware,
+   * then call its `setup`.
+   *
+   * @param plugin - The plugin.
+   * @throws Error if a plugin of the same name is already installed, or one
+   *         of its global flags is already defined.
+   */
+  use(plugin: CLIPlugin<Config>): void;
+  use(
+    target: string[] | CommandMiddleware<Config> | CLIPlugin<Config>,
+    fn?: CommandMiddleware<Config>,
+  ): void {
+    if (typeof target === "function") {
+      this.#middleware.push({ scope: [], fn: target });
+    } else if (Array.isArray(target)) {
+      this.#middleware.push({ scope: [...target], fn: fn! });
+    } else {
+      this.#install(target);
+    }
+  }
+
   /**
    * Add a before-each hook (runs before every command).
    *
    * @param fn - Middleware function to execute before each command.
    */
-  beforeEach(fn: Middleware): void {
+  beforeEach(fn: Middleware<Config>): void {
     this.#beforeMiddleware.push(fn);
   }
 
   /**
-   * Add an after-each hook (runs after every command).
+   * Add an after-each hook (runs after every command, including one that
+   * failed, but not after Ctrl-C / SIGTERM).
    *
    * @param fn - Middleware function to execute after each command.
    */
-  afterEach(fn: Middleware): void {
+  afterEach(fn: Middleware<Config>): void {
     this.#afterMiddleware.push(fn);
   }
 
   /**
    * Execute the CLI with raw argv (e.g., `Deno.args`).
    *
+   * Never exits the process: errors from flag parsing, schema validation,
+   * middleware and handlers are reported and reflected in the returned
+   * result, so the CLI can be driven in-process (tests, REPLs, servers).
+   *
+   * SIGINT and SIGTERM cancel the run: the context's `signal` is aborted, the
+   * spinner stopped and `onAbort` handlers run (up to `cleanupTimeoutMs`),
+   * and the run resolves with exit code 130 / 143 without waiting for the
+   * handler. A second signal exits the process immediately.
+   *
    * @param argv - Array of raw argument strings.
+   * @param runtime - Overrides for stdout/stderr/stdin/env/signals/tracer (defaults to the Deno process).
+   * @returns The structured outcome of the run (exit code, error, command path, timing).
    */
-  async run(argv: string[]): Promise<void> {
-    // 1. Parse global flags
-    const parsed = parseArgs(argv, {
-      boolean: ["help", "version", "quiet", "verbose"],
-      string: ["color", "output", "config", "otel-endpoint"],
-      alias: {
-        h: "help",
-        V: "version",
-        q: "quiet",
-        v: "verbose",
+  async run(
+    argv: string[],
+    runtime: Partial<CLIRuntime> = {},
+  ): Promise<RunResult> {
+    const started = performance.now();
+    const base: CLIRuntime = { ...denoRuntime(), ...runtime };
+    // Provisional policy (env + TTY only) until flags and config are known
+    const color = resolveColorPolicy(
+      resolveColorMode(undefined, undefined, base.env),
+      base,
+      base.env,
+    );
+    const state: RunState = {
+      result: { exitCode: 0, command: [], durationMs: 0 },
+      runtime: {
+        ...base,
+        stdout: colorStream(base.stdout, () => color.stdout),
+        stderr: colorStream(base.stderr, () => color.stderr),
       },
-      stopEarly: true,
-      "--": true,
+      color,
+      outputMode: "text",
+      profiler: new Profiler(),
+      profile: /^(1|true|yes)$/i.test(
+        base.env.get(
+          `${this.#name.replace(/-/g, "_").toUpperCase()}_PROFILE`,
+        ) ??
+          "",
+      ),
+    };
+    // The first SIGINT/SIGTERM cancels the run; a second one forces exit
+    const interrupted = Promise.withResolvers<never>();
+    let signalled = false;
+    const unlisten = (["SIGINT", "SIGTERM"] as const).map((signal) =>
+      base.signals.listen(signal, () => {
+        const err = interruptError(signal);
+        if (signalled) return base.exit(err.exitCode);
+        signalled = true;
+        interrupted.reject(err);
+      })
+    );
+    try {
+      const execution = this.#execute(argv, state);
+      // A cancelled handler may still settle later; that outcome is ignored
+      execution.catch(() => {});
+      await Promise.race([execution, interrupted.promise]);
+    } catch (err) {
+      if (isCancellation(err)) {
+        await state.ctx?.cancel(err, this.#cleanupTimeoutMs);
+      }
+      // Clear progress tasks left running so the error prints cleanly
+      state.ctx?.stopTasks();
+      state.result.error = err;
+      state.result.exitCode = state.ctx
+        ? state.ctx.handleError(err)
+        : reportError(
+          err,
+          state.runtime,
+          state.outputMode,
+          state.result.command,
+        );
+    }
+    state.ctx?.stopTasks();
+    unlisten.forEach((remove) => remove());
+    await this.#exitPlugins(state);
+    state.result.durationMs = performance.now() - started;
+    state.result.phases = state.profiler.phases;
+    if (state.profile) {
+      const { phases, durationMs } = state.result;
+      state.span?.setAttributes(
+        Object.fromEntries(
+          phases.map(({ phase, ms }) => [`cli.profile.${phase}_ms`, ms]),
+        ),
+      );
+      for (const line of formatProfile(phases, durationMs)) {
+        state.runtime.stderr.write(`${line}\n`);
+      }
+    }
+    if (state.span) {
+      const { error, exitCode, command, durationMs } = state.result;
+      if (error === undefined) {
+        state.span.setStatus({ code: SpanStatusCode.OK });
+      } else if (isCancellation(error)) {
+        // OTEL has no "cancelled" status; mark it with attributes instead
+        state.span.setStatus({
+          code: SpanStatusCode.ERROR,
+          message: error.message,
+        });
+        state.span.setAttributes({
+          "cli.cancelled": true,
+          "cli.signal": String(error.details?.signal ?? "SIGINT"),
+        });
+      } else {
+        recordError(
+          state.span,
+          error,
+          (text) => state.ctx?.redact(text) ?? text,
+        );
+      }
+      state.span.setAttribute("cli.exit_code", exitCode);
+      state.span.end();
+      state.runtime.meter.createHistogram("cli.command.duration", {
+        description: "Duration of command invocations",
+        unit: "ms",
+      }).record(durationMs, {
+        "cli.command": command.join(" "),
+        "cli.exit_code": exitCode,
+      });
+    }
+    if (state.telemetry) {
+      // Flush before returning so `main()` never exits with data in memory;
+      // an unreachable collector must not change the outcome of the run
+      const { traces, metrics } = state.telemetry;
+      await Promise.all([
+        traces &&
+        exportSpans(traces.tracer.drain(), traces.exporter).catch(() => {}),
+        metrics &&
+        exportMetrics(metrics.meter.collect(), metrics.exporter).catch(
+          () => {},
+        ),
+      ]);
+    }
+    return state.result;
+  }
+
+  /**
+   * Run the CLI and exit the process with the resulting exit code.
+   * Thin entry-point wrapper around `run()`.
+   *
+   * @param argv - Array of raw argument strings (defaults to `Deno.args`).
+   * @returns Never returns (exits the process).
+   */
+  async main(argv: string[] = Deno.args): Promise<never> {
+    const { exitCode } = await this.run(argv);
+    Deno.exit(exitCode);
+  }
+
+  /**
+   * Parse argv, resolve the command and invoke it, recording the outcome in
+   * `state`. Throws on failure; `run()` turns the error into an exit code.
+   *
+   * @param argv - Array of raw argument strings.
+   * @param state - Per-run state (result being built, context once created).
+   */
+  async #execute(argv: string[], state: RunState): Promise<void> {
+    const { runtime } = state;
+    // 1. Parse global flags (up to the first positional)
+    const parseGlobals = () =>
+      parseArgs(argv, {
+        ...parseArgsOptions(this.#globalFlags),
+        stopEarly: true,
+        "--": true,
+      });
+    let parsed = parseGlobals();
+    const { profiler } = state;
+    profiler.lap("parse");
+
+    // 2. Install the plugins listed in the config files (if enabled), then
+    //    parse again if they added global flags. A plugin that fails to load
+    //    is reported once the command is known (see step 5)
+    await this.#settle();
+    const explicitPath = parsed.config as string | undefined;
+    let files = await loadConfigLayers(this.#name, {
+      explicitPath,
+      env: runtime.env,
+      cwd: runtime.cwd(),
     });
+    profiler.lap("config");
+    const flagCount = this.#globalFlags.length;
+    let pluginFailure: { error: unknown } | undefined;
+    if (this.#pluginDiscovery) {
+      try {
+        await this.#discoverPlugins(pluginSpecifiers(files, runtime.cwd()));
+      } catch (error) {
+        pluginFailure = { error };
+      }
+    }
+    if (this.#globalFlags.length > flagCount) parsed = parseGlobals();
+    profiler.lap("plugins");
+    // Describe lazy commands from the manifest, so help, suggestions and
+    // completions never import their modules
+    await this.#loadManifest();
+    profiler.lap("manifest");
+
+    // 3. Traverse the command tree; built-ins such as `help` and
+    //    `completion` are added first so they resolve and show in help
+    this.#registerBuiltins();
+    // Provisional, so errors from the second phase honour a leading --output
+    state.outputMode = parseOutputFlag(parsed.output).mode;
+    const positionals = parsed._.map(String);
+    const { node, consumed } = this.#registry.traverse(positionals);
+
+    // 4. Second phase: parse everything after the command path against the
+    //    resolved command's declared flags (plus the globals, which may also
+    //    appear after the path)
+    const commandSpecs = node && consumed > 0 ? commandFlags(node.options) : [];
+    const second = parseFlags(positionals.slice(consumed), [
+      ...this.#globalFlags,
+      ...commandSpecs,
+    ]);
+    // Phase one also reports each short alias (`v` next to `verbose`); keep
+    // only the canonical names
+    const { "--": leadingDashDash } = parsed;
+    const globalFlags = Object.fromEntries(
+      this.#globalFlags.filter(({ name }) => name in parsed)
+        .map(({ name }) => [name, parsed[name]]),
+    );
+    const flags: Record<string, unknown> = { ...globalFlags, ...second.flags };
+    const dashDash = leadingDashDash?.length ? leadingDashDash : second["--"];
+
+    // Determine the output format (--output, --query)
+    const format: OutputFormat = {
+      ...parseOutputFlag(flags.output),
+      query: typeof flags.query === "string" ? flags.query : undefined,
+    };
+    const outputMode = format.mode;
+    state.outputMode = outputMode;
+    if (flags.profile === true) state.profile = true;
+    profiler.lap("parse");
+
+    // 5. Load the config layers and deep-merge them. Precedence: flags > ENV
+    //    > --config > project > user > system
+    //    (env names are matched, and values coerced, against the schema,
+    //    the keys the files already set and the command's flags; the files
+    //    are read again only if `--config` came after the command path)
+    if (flags.config !== explicitPath) {
+      files = await loadConfigLayers(this.#name, {
+        explicitPath: flags.config as string | undefined,
+        env: runtime.env,
+        cwd: runtime.cwd(),
+      });
+      profiler.lap("config");
+    }
+    const envLayer = loadEnvOverrides(this.#name, runtime.env, {
+      schema: this.#configSchema as ZodTypeAny | undefined,
+      known: new LayeredConfig(files).value,
+      flags: commandSpecs,
+    });
+    profiler.lap("env");
+    const lower = new LayeredConfig([
+      ...files,
+      { name: "env", loaded: true, data: envLayer },
+    ]);
+    // Flags given on the command line override config keys of the same name
+    // (phase one reports every global boolean, so `false` means "not given")
+    const given = { ...globalFlags, ...second.flags };
+    const flagLayer = Object.fromEntries(
+      Object.entries(given).filter(([key, value]) =>
+        key in lower.value && value !== undefined &&
+        (value !== false || key in second.flags)
+      ),
+    );
+    this.#layers = new LayeredConfig([
+      ...lower.layers,
+      { name: "flags", loaded: true, data: flagLayer },
+    ]);
+    this.#config = this.#layers.value;
+    // Validate it (reporting unparseable files too) and report a plugin that
+    // failed to load, except for runs that only print the version or help,
+    // and the built-in `help` and `config` commands, which must keep working
+    // to repair a broken file
+    const repairs = !!(flags.version || flags.help) ||
+      positionals.length === 0 || (!!node && readsRawConfig(node));
+    if (pluginFailure && !repairs) throw pluginFailure.error;
+    const printsOnly = repairs || (!node?.handler && !node?.lazyImport);
+    let config = this.#config as Config;
+    if (!printsOnly) {
+      if (this.#configSchema) {
+        config = validateConfig(this.#layers, this.#configSchema);
+      } else {
+        const broken = this.#layers.layers.find((layer) => layer.error);
+        if (broken) throw broken.error;
+      }
+    }
+    profiler.lap("validate");
+
+    // Export spans and metrics over OTLP/HTTP when an endpoint is configured
+    const endpoint = [
+      flags["otel-endpoint"],
+      this.#config["otel-endpoint"] ?? this.#config.otelEndpoint,
+    ] as const;
+    const tracesUrl = resolveOTLPUrl("traces", ...endpoint, runtime.env);
+    const metricsUrl = resolveOTLPUrl("metrics", ...endpoint, runtime.env);
+    if (tracesUrl || metricsUrl) {
+      const exporter = {
+        headers: parseKeyValueList(
+          runtime.env.get("OTEL_EXPORTER_OTLP_HEADERS"),
+        ),
+        resource: cliResource(this.#name, this.#version, runtime.env),
+      };
+      state.telemetry = {};
+      // A signal without an endpoint keeps the runtime's tracer or meter
+      if (tracesUrl) {
+        const tracer = new BufferingTracer();
+        state.telemetry.traces = {
+          tracer,
+          exporter: { ...exporter, url: tracesUrl },
+        };
+        runtime.tracer = tracer;
+      }
+      if (metricsUrl) {
+        const meter = new BufferingMeter();
+        state.telemetry.metrics = {
+          meter,
+          exporter: { ...exporter, url: metricsUrl },
+        };
+        runtime.meter = meter;
+      }
+    }
+
+    // Resolve the color policy: --color > NO_COLOR/FORCE_COLOR > config > TTY
+    Object.assign(
+      state.color,
+      resolveColorPolicy(
+        resolveColorMode(flags.color, this.#config.color, runtime.env),
+        runtime,
+        runtime.env,
+      ),
+    );
+    // @std/fmt/colors honours the process-level NO_COLOR on its own; enable it
+    // whenever a stream may carry color and let the streams strip the rest
+    setColorEnabled(state.color.stdout || state.color.stderr);
 
-    // Determine output mode (text | json | yaml)
-    const outputMode = (parsed.output === "json" || parsed.output === "yaml")
-      ? (parsed.output as "json" | "yaml")
-      : "text";
-
-    // 2. Load config file (YAML) + ENV overrides
-    const configPath = parsed.config as string | undefined;
-    const fileConfig = await loadConfigFile(this.#name, configPath);
-    const envOverrides = loadEnvOverrides(this.#name);
-    // Merge precedence: CLI flags > ENV > config file
-    this.#config = { ...fileConfig, ...envOverrides };
-
-    // 3. Handle `--version`
-    if (parsed.version) {
-      console.log(`${this.#name} ${this.#version}`);
+    // 6. Handle `--version`
+    if (flags.version) {
+      runtime.stdout.write(`${this.#name} ${this.#version}\n`);
       return;
     }
 
-    // 4. Determine verbosity
-    const verbosity = parsed.quiet
+    // 7. Determine verbosity
+    const verbosity = flags.quiet
       ? "quiet"
-      : parsed.verbose
+      : flags.verbose
       ? "verbose"
       : "normal";
 
-    // 5. Extract positional segments (everything after flags)
-    const positionals = parsed._.map(String);
-    if (parsed.help || positionals.length === 0) {
+    // 8. Help and unknown commands
+    if (positionals.length === 0) {
       // Print top-level help
-      printHelp(this.#name, this.#registry.root, verbosity);
+      printHelp(
+        this.#name,
+        this.#registry.root,
+        verbosity,
+        runtime,
+        this.#globalFlags,
+        this.#help,
+      );
+      return;
+    }
+    if (flags.help && node && consumed > 0) {
+      const path = positionals.slice(0, consumed);
+      printCommandHelp(
+        this.#name,
+        path,
+        node,
+        verbosity,
+        runtime,
+        this.#globalFlags,
+        this.#help,
+      );
+      return;
+    }
+    if (flags.help) {
+      printHelp(
+        this.#name,
+        this.#registry.root,
+        verbosity,
+        runtime,
+        this.#globalFlags,
+        this.#help,
+      );
       return;
     }
-
-    // 6. Traverse the command tree
-    const { node, consumed } = this.#registry.traverse(positionals);
     if (!node?.handler && !node?.lazyImport) {
-      // Unknown command: show error + suggestion + full help
+      // Unknown command: show error + suggestion + full help, or report it as
+      // an error envelope in the machine-readable modes
       const unknownCmdName = positionals.slice(0, consumed + 1).join(" ");
-      unknownCommand(unknownCmdName, this.#registry.root, verbosity);
+      if (["json", "ndjson", "yaml"].includes(outputMode)) {
+        const suggestion = suggestFullPath(
+          this.#registry.root,
+          unknownCmdName.split(" "),
+        );
+        throw new CLIError(`Unknown command: ${unknownCmdName}`, EXIT_USAGE, {
+          code: "UNKNOWN_COMMAND",
+          details: suggestion ? { suggestion } : undefined,
+        });
+      }
+      unknownCommand(
+        this.#name,
+        unknownCmdName,
+        this.#registry.root,
+        verbosity,
+        runtime,
+        this.#globalFlags,
+        this.#help,
+      );
+      state.result.exitCode = EXIT_USAGE;
+      state.result.error = new CLIError(
+        `Unknown command: ${unknownCmdName}`,
+        EXIT_USAGE,
+        { code: "UNKNOWN_COMMAND" },
+      );
       return;
     }
+    state.result.command = positionals.slice(0, consumed);
 
-    // 7. Prepare context for command-specific execution
+    // 9. Prepare context for command-specific execution
     //    - remainingArgs: positional args after the command path
-    //    - rawFlags: any raw values from parsed global flags and config
-    const remainingArgs = positionals.slice(consumed);
-    // Combine file/config defaults, env overrides, and any new parsed global flags
+    //    - rawFlags: typed flags from both phases over the config (with a
+    //      configSchema, only config keys named like one of the command's
+    //      flags, which then act as defaults; the rest is `ctx.config`).
+    //      A command flag not given on the command line is read from its
+    //      `--<name>-file` (secret flags), its `env` variable, then the
+    //      config, then its default.
+    const remainingArgs = second.args;
     // Note: we keep these in a rawFlags object to feed into Zod if a flagsSchema exists
     const rawFlags: Record<string, unknown> = {
-      ...this.#config,
-      ...(parsed as Record<string, unknown>),
+      ...(this.#configSchema ? {} : this.#config),
+      ...flags,
     };
-    if (parsed["--"]) {
-      rawFlags["--"] = parsed["--"];
+    for (const spec of commandSpecs) {
+      let value = flags[spec.name];
+      const file = secretFileFlag(spec);
+      if (value === undefined && file && typeof flags[file] === "string") {
+        value = await readSecret(flags[file], runtime.stdin, `--${file}`);
+      }
+      value ??= envFlagValue(spec, runtime.env);
+      if (value === undefined) {
+        // Config values set through the environment may still be strings
+        value = this.#config[spec.name];
+        if (typeof value === "string" && spec.type !== "string") {
+          value = coerceFlagValue(spec, value);
+        }
+      }
+      value ??= spec.default;
+      if (value !== undefined) rawFlags[spec.name] = value;
+    }
+    if (dashDash) {
+      rawFlags["--"] = dashDash;
+    }
+    for (const spec of node.options.flags ?? []) {
+      if (spec.required && rawFlags[spec.name] === undefined) {
+        throw new CLIError(`Missing required flag --${spec.name}`, EXIT_USAGE, {
+          code: "MISSING_FLAG",
+          details: { flag: `--${spec.name}` },
+        });
+      }
     }
 
-    // 8. Run `beforeEach` middleware
-    const ctx = new CLIContext(remainingArgs, rawFlags, verbosity, outputMode);
+    // 10. Start the command span (continuing a `TRACEPARENT` trace, if any;
+    //     `run()` ends it with the exit code), then run the plugins' `onInit`
+    //     hooks and `beforeEach` middleware, each in a child span
+    const ctx = new CLIContext(
+      remainingArgs,
+      rawFlags,
+      verbosity,
+      format,
+      runtime,
+      state.color,
+      state.result.command,
+      {
+        interactive: runtime.stdin.isTerminal() && !flags.yes &&
+          !flags["no-input"],
+        assumeYes: flags.yes === true,
+      },
+      config,
+    );
+    state.ctx = ctx;
+    // Register secrets before anything (the span included) can report them
+    for (const spec of commandSpecs) {
+      if (spec.secret) ctx.addSecret(rawFlags[spec.name]);
+    }
+    if (this.#configSchema) {
+      const schema = this.#configSchema as unknown as ZodTypeAny;
+      for (const key of secretConfigKeys(schema)) {
+        ctx.addSecret(getPath(this.#config, key));
+      }
+    }
+    const commandPath = positionals.slice(0, consumed);
+    ctx.startSpan(
+      commandPath.join(" "),
+      {
+        "cli.name": this.#name,
+        "cli.command": commandPath.join(" "),
+        "cli.args": remainingArgs,
+      },
+      parentContext(runtime.env.get("TRACEPARENT")),
+    );
+    state.span = ctx.span ?? undefined;
+    profiler.lap("setup");
+    for (const plugin of this.#plugins) {
+      if (!plugin.onInit) continue;
+      await ctx.withSpan(
+        `onInit ${plugin.name}`,
+        () => plugin.onInit!(ctx as CLIContext<Config>),
+        { "cli.plugin.name": plugin.name },
+      );
+    }
     for (const mw of this.#beforeMiddleware) {
-      await mw(ctx);
+      await this.#runMiddleware("beforeEach", mw, ctx);
     }
+    profiler.lap("beforeEach");
 
-    // 9. Resolve the handler (import if lazy)
+    // 11. Resolve the handler (import if lazy)
     let handler: CommandHandler;
     const options = node.options;
     if (node.handler) {
       handler = node.handler;
     } else {
       // Lazy load
-      const { path: modPath, symbol } = node.lazyImport!;
-      const imported = await import(modPath);
-      handler = symbol && imported[symbol]
-        ? (imported[symbol] as CommandHandler)
-        : (imported.default as CommandHandler);
+      const { path: modPath, symbol, options: optionsSymbol } = node
+        .lazyImport!;
+      handler = await importSymbol(modPath, symbol) as CommandHandler;
       if (typeof handler !== "function") {
         throw new Error(`Lazy import did not yield a function (${modPath})`);
       }
+      // Commands registered from a manifest get their schemas now
+      const exported = optionsSymbol
+        ? await importSymbol(modPath, optionsSymbol)
+        : undefined;
+      if (typeof exported === "object" && exported) {
+        const { flagsSchema, args } = exported as CommandOptions;
+        if (flagsSchema) options.flagsSchema = flagsSchema;
+        if (args) options.args = args;
+      }
       // Cache it so next time we don't re-import
       node.handler = handler;
       node.lazyImport = undefined;
+      profiler.lap("import");
     }
 
-    // 10. Parse and validate flags using flagsSchema (if provided)
+    // 12. Parse and validate flags using flagsSchema (if provided)
     //     - We use Zod to validate the merged rawFlags object.
-    //     - If validation fails, print errors and exit.
+    //     - If validation fails, a usage error is raised listing each issue.
     let validatedFlags: Record<string, unknown> = {};
     if (options.flagsSchema) {
-      try {
-        // Cast to ZodType for proper parsing
-        const schema = options.flagsSchema as ZodType<Record<string, unknown>>;
-        const result = schema.safeParse(rawFlags);
-        if (!result.success) {
-          // ZodError: print formatted errors
-          const zodErr = result.error;
-          ctx.error(`\nInvalid flags:\n${zodErr.format()}`);
-          Deno.exit(1);
-        }
-        validatedFlags = result.data;
-      } catch (err) {
-        ctx.error(`Error parsing flags: ${String(err)}`);
-        Deno.exit(1);
+      // Cast to ZodType for proper parsing
+      const schema = options.flagsSchema as ZodType<Record<string, unknown>>;
+      const result = schema.safeParse(rawFlags);
+      if (!result.success) {
+        const issues = result.error.issues.map((issue) => ({
+          flag: issue.path.length ? `--${issue.path.join(".")}` : null,
+          message: issue.message,
+        }));
+        const lines = issues.map(({ flag, message }) =>
+          `  ${flag ? `${flag}: ` : ""}${message}`
+        );
+        throw new CLIError(`Invalid flags:\n${lines.join("\n")}`, EXIT_USAGE, {
+          code: "INVALID_FLAGS",
+          details: { issues },
+        });
       }
+      validatedFlags = result.data;
     } else {
       // No schema: pass through all raw flags (including globals)
       validatedFlags = rawFlags;
     }
 
-    // 11. Start the span/tracing
-    const spanName = positionals.slice(0, consumed).join(" ") || "root";
-    ctx.startSpan(spanName);
+    // 13. Validate positional arguments against `options.args` (if declared)
+    let validatedArgs: unknown[] = ctx.args;
+    if (options.args) {
+      const usage = [this.#name, ...commandPath, formatArgsUsage(options.args)]
+        .join(" ");
+      validatedArgs = validateArgs(ctx.args, options.args, usage);
+    }
+    profiler.lap("validate");
 
-    // 12. Execute the handler
+    // 14. Execute the handler inside the `use` middleware scoped to this
+    //     command (matched on its canonical path, so aliases count)
+    ctx.flags = validatedFlags;
+    const canonical = node.aliasOf ?? commandPath;
+    const chain = this.#middleware
+      .filter(({ scope }) => scope.every((seg, i) => canonical[i] === seg))
+      .map(({ fn }) => fn);
+    let failure: { error: unknown } | undefined;
     try {
-      await handler(ctx.args, validatedFlags, ctx);
-      ctx.ok();
-    } catch (err) {
-      ctx.fail(err);
-      if (err instanceof CLIError) {
-        ctx.error(err.message);
-        Deno.exit(err.exitCode);
+      await this.#compose(
+        chain,
+        ctx,
+        () => handler(validatedArgs as string[], ctx.flags, ctx),
+      );
+    } catch (error) {
+      failure = { error };
+    }
+    profiler.lap("command");
+
+    // 15. Run `afterEach` middleware, also when the command failed (but not
+    //     once it was cancelled); a failing hook never masks the command's
+    //     own error
+    if (!ctx.signal.aborted) {
+      for (const mw of this.#afterMiddleware) {
+        try {
+          await this.#runMiddleware("afterEach", mw, ctx);
+        } catch (err) {
+          if (!failure) throw err;
+        }
+      }
+      profiler.lap("afterEach");
+    }
+    if (failure) throw failure.error;
+  }
+
+  /**
+   * Run `chain` around `handler`, Koa style: each middleware runs in its own
+   * child span and continues with `next()`, which resolves once everything
+   * after it (ultimately the handler) has finished.
+   *
+   * @param chain - The middleware that applies, outermost first.
+   * @param ctx - The command context.
+   * @param handler - Invokes the command handler.
+   */
+  async #compose(
+    chain: CommandMiddleware<Config>[],
+    ctx: CLIContext<Config>,
+    handler: () => void | Promise<void>,
+  ): Promise<void> {
+    let index = -1;
+    const dispatch = async (i: number): Promise<void> => {
+      if (i <= index) throw new Error("next() called multiple times");
+      index = i;
+      if (i === chain.length) return await handler();
+      const mw = chain[i];
+      const name = mw.name || "anonymous";
+      await ctx.withSpan(
+        `middleware ${name}`,
+        () => mw(ctx, () => dispatch(i + 1)),
+        { "cli.middleware.phase": "use", "cli.middleware.name": name },
+      );
+    };
+    await dispatch(0);
+  }
+
+  /**
+   * Run a middleware function inside its own child span.
+   *
+   * @param phase - Which hook list the middleware belongs to.
+   * @param mw - The middleware function.
+   * @param ctx - The command context.
+   */
+  async #runMiddleware(
+    phase: "beforeEach" | "afterEach",
+    mw: Middleware<Config>,
+    ctx: CLIContext<Config>,
+  ): Promise<void> {
+    const name = mw.name || "anonymous";
+    await ctx.withSpan(`${phase} ${name}`, () => mw(ctx), {
+      "cli.middleware.phase": phase,
+      "cli.middleware.name": name,
+    });
+  }
+
+  // -------------------- Private Helpers --------------------
+
+  /** Add the built-in commands (unless the user registered the names). */
+  #registerBuiltins(): void {
+    registerBuiltins(
+      this.#name,
+      this.#registry,
+      () => this.#layers,
+      this.#globalFlags,
+      { build: () => this.#buildManifest(), path: this.#manifestPath },
+      this.#help,
+    );
+  }
+
+  /**
+   * The lazy commands not imported yet (aliases excluded).
+   *
+   * @returns Each command's path and node.
+   */
+  #lazyCommands(): { path: string[]; node: CommandNode }[] {
+    const found: { path: string[]; node: CommandNode }[] = [];
+    const visit = (node: CommandNode, path: string[]) => {
+      if (node.lazyImport && !node.aliasOf) found.push({ path, node });
+      for (const [seg, child] of node.children) visit(child, [...path, seg]);
+    };
+    visit(this.#registry.root, []);
+    return found;
+  }
+
+  /**
+   * Import every lazy command's module and describe it (without running the
+   * handler). Modules export their `CommandOptions` as `options`.
+   *
+   * @returns The manifest.
+   */
+  async #buildManifest(): Promise<CommandManifest> {
+    const commands = [];
+    for (const { path, node } of this.#lazyCommands()) {
+      const { path: module, symbol, options } = node.lazyImport!;
+      commands.push(
+        await describeCommand(
+          path,
+          module,
+          resolveModule(module),
+          symbol,
+          options,
+        ),
+      );
+    }
+    return { version: 1, commands };
+  }
+
+  /**
+   * Read the manifest (once per CLI) and fill in the lazy commands'
+   * metadata. A missing or stale manifest (commands added or removed, or a
+   * module changed since) is rebuilt and written back; if that fails, the
+   * commands keep their registration options.
+   */
+  async #loadManifest(): Promise<void> {
+    if (!this.#manifestPath || this.#manifestLoaded) return;
+    this.#manifestLoaded = true;
+    const lazy = this.#lazyCommands();
+    let manifest = await readManifestFile(this.#manifestPath)
+      .catch(() => undefined);
+    const key = (path: string[], module: string, symbol?: string) =>
+      `${path.join(" ")}\0${module}\0${symbol ?? "default"}`;
+    const registered = lazy.map(({ path, node }) =>
+      key(path, node.lazyImport!.path, node.lazyImport!.symbol)
+    ).sort().join("\n");
+    const stale = !manifest ||
+      manifest.commands.map(({ path, module, symbol }) =>
+          key(path, module, symbol)
+        ).sort().join("\n") !== registered ||
+      (await Promise.all(
+        manifest.commands.map((entry) =>
+          isStaleEntry(entry, resolveModule(entry.module))
+        ),
+      )).some(Boolean);
+    if (stale) {
+      try {
+        manifest = await this.#buildManifest();
+      } catch {
+        // A broken module fails when its command runs (or in `__manifest`)
+        return;
+      }
+      await writeManifestFile(this.#manifestPath, manifest).catch(() => {});
+    }
+    for (const { path, options } of manifest!.commands) {
+      this.#registry.describeLazyCommand(path, options);
+    }
+  }
+
+  /**
+   * Install a plugin's commands, global flags and middleware, and call its
+   * `setup` (a returned promise is awaited by the next run).
+   *
+   * @param plugin - The plugin.
+   */
+  #install(plugin: CLIPlugin<Config>): void {
+    if (this.#plugins.some(({ name }) => name === plugin.name)) {
+      throw new Error(`Plugin "${plugin.name}" is already installed`);
+    }
+    for (const flag of plugin.flags ?? []) {
+      const clash = this.#globalFlags.find(({ name, short }) =>
+        name === flag.name || (flag.short !== undefined && short === flag.short)
+      );
+      if (clash) {
+        throw new Error(
+          `Plugin "${plugin.name}": global flag --${flag.name} clashes with --${clash.name}`,
+        );
+      }
+    }
+    this.#plugins.push(plugin);
+    this.#globalFlags.push(...plugin.flags ?? []);
+    for (const command of plugin.commands ?? []) {
+      if (command.module) {
+        this.registerLazyCommand(
+          command.path,
+          command.module,
+          command.symbol,
+          command.options,
+        );
+      } else if (command.handler) {
+        this.registerCommand(command.path, command.handler, command.options);
       } else {
-        ctx.error(String(err));
-        Deno.exit(1);
+        throw new Error(
+          `Plugin "${plugin.name}": command "${
+            command.path.join(" ")
+          }" needs a handler or a module`,
+        );
       }
-    } finally {
-      ctx.endSpan();
     }
+    for (const mw of plugin.middleware ?? []) {
+      if (typeof mw === "function") this.use(mw);
+      else this.use(mw.scope, mw.fn);
+    }
+    const setup = plugin.setup?.(this);
+    if (setup) {
+      const pending = Promise.resolve(setup);
+      // Reported by the next run, not as an unhandled rejection
+      pending.catch(() => {});
+      this.#pending.push(pending);
+    }
+  }
 
-    // 13. Run `afterEach` middleware
-    for (const mw of this.#afterMiddleware) {
-      await mw(ctx);
+  /**
+   * Import and install the plugins listed in config files. Each module is
+   * imported once per CLI; one whose plugin is already installed (e.g.
+   * bundled with the CLI) is skipped.
+   *
+   * @param specifiers - The plugin modules, from `pluginSpecifiers`.
+   */
+  async #discoverPlugins(specifiers: string[]): Promise<void> {
+    for (const specifier of specifiers) {
+      if (this.#discovered.has(specifier)) continue;
+      const plugin = await loadPlugin(specifier) as CLIPlugin<Config>;
+      this.#discovered.add(specifier);
+      if (this.#plugins.some(({ name }) => name === plugin.name)) continue;
+      this.#install(plugin);
     }
+    await this.#settle();
   }
 
-  // -------------------- Private Helpers --------------------
+  /**
+   * Wait for the pending `setup()` and `discoverCommands` promises, then
+   * drop the ones that succeeded and the failure reported, so each failure
+   * fails one run instead of every later one.
+   *
+   * @throws The first failure among them.
+   */
+  async #settle(): Promise<void> {
+    const pending = [...this.#pending];
+    const results = await Promise.allSettled(pending);
+    const failed = results.findIndex((r) => r.status === "rejected");
+    const done = pending.filter((_, i) =>
+      i === failed || results[i].status === "fulfilled"
+    );
+    this.#pending = this.#pending.filter((p) => !done.includes(p));
+    if (failed >= 0) throw (results[failed] as PromiseRejectedResult).reason;
+  }
+
+  /**
+   * Run the plugins' `onExit` hooks. A failing hook is reported on stderr
+   * but leaves the exit code alone.
+   *
+   * @param state - The finished run.
+   */
+  async #exitPlugins(state: RunState): Promise<void> {
+    const ctx = state.ctx as CLIContext<Config> | undefined;
+    for (const plugin of this.#plugins) {
+      try {
+        await plugin.onExit?.(state.result, ctx);
+      } catch (err) {
+        const message = `Plugin "${plugin.name}" onExit failed: ${
+          err instanceof Error ? err.message : err
+        }`;
+        if (ctx) ctx.warn(message);
+        else state.runtime.stderr.write(`${message}\n`);
+      }
+    }
+  }
 
   /**
    * Fire-and-forget: attempt to auto-load name/version from deno.json / deno.jsonc
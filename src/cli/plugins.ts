@@ -0,0 +1,166 @@
+/**
+ * src/cli/plugins.ts
+ *
+ * Plugins package commands, global flags, middleware and lifecycle hooks so
+ * several CLIs can share them: install one with `cli.use(plugin)`, or (with
+ * `discoverPlugins`) list modules under `plugins` in a config file to have
+ * them discovered at run time.
+ */
+
+import { dirname, resolve, toFileUrl } from "@std/path";
+import type {
+  CLIConfig,
+  CommandHandler,
+  CommandMiddleware,
+  CommandOptions,
+  FlagSpec,
+  RunResult,
+} from "../types.ts";
+import { CLIError } from "../types.ts";
+import type { CLIContext } from "../context.ts";
+import type { ConfigLayer, ConfigLayerName } from "../utils/mod.ts";
+import type { CLI } from "./mod.ts";
+import { importSymbol } from "./helpers.ts";
+
+/**
+ * A command contributed by a plugin: either a `handler`, or a `module` (an
+ * absolute path or URL) imported only when the command runs.
+ */
+export interface PluginCommand<Config extends CLIConfig = CLIConfig> {
+  /** Command path, e.g. `["auth", "login"]`. */
+  path: string[];
+  /** The handler (for typed flags, register the command in `setup`). */
+  handler?: CommandHandler<Record<string, unknown>, string[], Config>;
+  /** Module to import the handler from, for a lazy command. */
+  module?: string;
+  /** Export of `module` holding the handler (default: "default"). */
+  symbol?: string;
+  /** Description, flags, aliases etc., as for `registerCommand`. */
+  options?: CommandOptions;
+}
+
+/**
+ * A reusable bundle of commands, global flags, middleware and hooks.
+ *
+ * @typeParam Config - The configuration of the CLIs it is installed on.
+ */
+export interface CLIPlugin<Config extends CLIConfig = CLIConfig> {
+  /** Unique name; a CLI installs each plugin once. */
+  name: string;
+  /** Commands (and command subtrees) to register. */
+  commands?: PluginCommand<Config>[];
+  /** Flags accepted by every command, shown with the global options. */
+  flags?: FlagSpec[];
+  /** Middleware for `cli.use`, optionally scoped to a command subtree. */
+  middleware?: (
+    | CommandMiddleware<Config>
+    | { scope: string[]; fn: CommandMiddleware<Config> }
+  )[];
+  /**
+   * Called once when the plugin is installed, after its other
+   * contributions, to register anything else on the CLI. A returned promise
+   * is awaited before the next run starts.
+   */
+  setup?(cli: CLI<Config>): void | Promise<void>;
+  /** Called at the start of every command, before `beforeEach` hooks. */
+  onInit?(ctx: CLIContext<Config>): void | Promise<void>;
+  /**
+   * Called at the end of every run with its result (and the command context,
+   * if a command ran). Errors are reported but don't change the exit code.
+   */
+  onExit?(
+    result: RunResult,
+    ctx: CLIContext<Config> | undefined,
+  ): void | Promise<void>;
+}
+
+/**
+ * Config layers whose `plugins` list is read. The project file is left out:
+ * it comes with whatever directory the CLI runs in, and listing a module
+ * there must not be enough to run its code.
+ */
+export const PLUGIN_CONFIG_LAYERS: readonly ConfigLayerName[] = [
+  "system",
+  "user",
+  "explicit",
+];
+
+/**
+ * The plugin modules listed under `plugins` in the system, user and
+ * `--config` layers (see `PLUGIN_CONFIG_LAYERS`), in layer order and without
+ * duplicates. Relative paths resolve against the directory of the file that
+ * lists them; other specifiers (`jsr:`, `npm:`, URLs, import-map names) are
+ * used as they are.
+ *
+ * @param layers - The config file layers.
+ * @param cwd - Resolves relative paths in layers without a file.
+ * @returns The module specifiers.
+ * @throws {CLIError} "INVALID_CONFIG" if `plugins` is not a list of strings.
+ */
+export function pluginSpecifiers(
+  layers: ConfigLayer[],
+  cwd: string,
+): string[] {
+  const specifiers = new Set<string>();
+  for (const layer of layers) {
+    if (!PLUGIN_CONFIG_LAYERS.includes(layer.name)) continue;
+    const list = layer.data.plugins;
+    if (list === undefined) continue;
+    if (
+      !Array.isArray(list) || !list.every((item) => typeof item === "string")
+    ) {
+      throw new CLIError(
+        `Invalid config: plugins must be a list of module specifiers (${layer.name} layer${
+          layer.path ? `, ${layer.path}` : ""
+        })`,
+        1,
+        {
+          code: "INVALID_CONFIG",
+          details: { key: "plugins", layer: layer.name, path: layer.path },
+        },
+      );
+    }
+    const base = layer.path ? dirname(layer.path) : cwd;
+    for (const item of list) {
+      specifiers.add(
+        /^\.{0,2}\//.test(item) ? toFileUrl(resolve(base, item)).href : item,
+      );
+    }
+  }
+  return [...specifiers];
+}
+
+/**
+ * Import a plugin module: its default export (or `plugin` export) must be a
+ * `CLIPlugin`.
+ *
+ * @param specifier - Module path or URL.
+ * @returns The plugin.
+ * @throws {CLIError} "PLUGIN_LOAD_ERROR" if the module can't be imported or
+ *         does not export a plugin.
+ */
+export async function loadPlugin(specifier: string): Promise<CLIPlugin> {
+  let plugin: unknown;
+  try {
+    plugin = await importSymbol(specifier, "plugin");
+  } catch (err) {
+    throw new CLIError(
+      `Cannot load plugin ${specifier}: ${
+        err instanceof Error ? err.message : err
+      }`,
+      1,
+      { code: "PLUGIN_LOAD_ERROR", details: { plugin: specifier } },
+    );
+  }
+  if (
+    typeof plugin !== "object" || plugin === null ||
+    typeof (plugin as CLIPlugin).name !== "string"
+  ) {
+    throw new CLIError(
+      `Cannot load plugin ${specifier}: it does not export a plugin`,
+      1,
+      { code: "PLUGIN_LOAD_ERROR", details: { plugin: specifier } },
+    );
+  }
+  return plugin as CLIPlugin;
+}
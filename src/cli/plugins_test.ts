@@ -0,0 +1,191 @@
+/**
+ * src/cli/plugins_test.ts
+ *
+ * Plugins discovered from the `plugins` list in config files: opt-in via
+ * `discoverPlugins`, read from the system, user and `--config` layers but
+ * never the project one, and a plugin that fails to load not getting in the
+ * way of help, `--version` or `config edit`.
+ */
+
+import {
+  assert,
+  assertEquals,
+  assertFalse,
+  assertStringIncludes,
+} from "@std/assert";
+import { toFileUrl } from "@std/path";
+import { CLI } from "./mod.ts";
+import { pluginSpecifiers } from "./plugins.ts";
+import { runCLI } from "../testing.ts";
+import { EXIT_USAGE } from "../types.ts";
+
+/**
+ * A plugin module adding a `hello` command. Importing it writes an
+ * `imported` marker file next to it.
+ */
+const PLUGIN_SOURCE = `
+Deno.writeTextFileSync(new URL("./imported", import.meta.url), "");
+export default {
+  name: "hello",
+  commands: [{
+    path: ["hello"],
+    handler: (_args, _flags, ctx) => ctx.log("hello from a plugin"),
+  }],
+};
+`;
+
+/**
+ * Run `fn` with a temporary directory holding the plugin module as
+ * `plugin.ts`.
+ *
+ * @param fn - Receives the directory and the module's absolute path.
+ */
+async function withPlugin(
+  fn: (dir: string, module: string) => Promise<void>,
+): Promise<void> {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(`${dir}/plugin.ts`, PLUGIN_SOURCE);
+    await fn(dir, `${dir}/plugin.ts`);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+/**
+ * Whether the plugin module in `dir` was imported.
+ *
+ * @param dir - The directory from `withPlugin`.
+ * @returns True once its marker file exists.
+ */
+async function imported(dir: string): Promise<boolean> {
+  try {
+    await Deno.stat(`${dir}/imported`);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/* ------------------------------------------------------------------ *
+ *  Discovery
+ * ------------------------------------------------------------------ */
+
+Deno.test("plugins: config plugins are ignored unless discovery is enabled", async () => {
+  await withPlugin(async (dir, module) => {
+    const result = await runCLI(new CLI({ name: "app" }), ["hello"], {
+      config: { plugins: [module] },
+    });
+    assertEquals(result.exitCode, EXIT_USAGE);
+    assertStringIncludes(result.stderr, "Unknown command: hello");
+    assertFalse(await imported(dir));
+  });
+});
+
+Deno.test("plugins: the user config installs a plugin", async () => {
+  await withPlugin(async (dir, module) => {
+    const cli = new CLI({ name: "app", discoverPlugins: true });
+    const result = await runCLI(cli, ["hello"], {
+      config: { plugins: [toFileUrl(module).href] },
+    });
+    assertEquals(result.exitCode, 0);
+    assertEquals(result.stdout, "hello from a plugin\n");
+    assert(await imported(dir));
+  });
+});
+
+Deno.test("plugins: a --config file's paths resolve next to it", async () => {
+  await withPlugin(async (dir) => {
+    await Deno.writeTextFile(`${dir}/app.yaml`, "plugins: [./plugin.ts]\n");
+    const cli = new CLI({ name: "app", discoverPlugins: true });
+    const result = await runCLI(cli, [`--config=${dir}/app.yaml`, "hello"]);
+    assertEquals(result.exitCode, 0);
+    assertEquals(result.stdout, "hello from a plugin\n");
+  });
+});
+
+Deno.test("plugins: the project config is never read for plugins", async () => {
+  await withPlugin(async (dir) => {
+    await Deno.writeTextFile(`${dir}/.app.yaml`, "plugins: [./plugin.ts]\n");
+    const cli = new CLI({ name: "app", discoverPlugins: true });
+    const result = await runCLI(cli, ["hello"], { cwd: dir });
+    assertEquals(result.exitCode, EXIT_USAGE);
+    assertFalse(await imported(dir));
+  });
+});
+
+Deno.test("plugins: pluginSpecifiers skips the project layer", () => {
+  const specifiers = pluginSpecifiers([
+    { name: "system", loaded: true, data: { plugins: ["jsr:@acme/a"] } },
+    { name: "user", loaded: true, data: { plugins: ["jsr:@acme/b"] } },
+    {
+      name: "project",
+      path: "/repo/.app.yaml",
+      loaded: true,
+      data: { plugins: ["./evil.ts"] },
+    },
+    {
+      name: "explicit",
+      path: "/etc/app/extra.yaml",
+      loaded: true,
+      data: { plugins: ["./c.ts", "jsr:@acme/a"] },
+    },
+  ], "/work");
+  assertEquals(specifiers, [
+    "jsr:@acme/a",
+    "jsr:@acme/b",
+    "file:///etc/app/c.ts",
+  ]);
+});
+
+/* ------------------------------------------------------------------ *
+ *  Broken plugins
+ * ------------------------------------------------------------------ */
+
+Deno.test("plugins: a plugin that fails to load fails commands", async () => {
+  const cli = new CLI({ name: "app", discoverPlugins: true });
+  cli.registerCommand(["status"], () => {});
+  const result = await runCLI(cli, ["status", "--output=json"], {
+    config: { plugins: ["/nonexistent/plugin.ts"] },
+  });
+  assertEquals(result.exitCode, 1);
+  const { error } = JSON.parse(result.stderr);
+  assertEquals(error.code, "PLUGIN_LOAD_ERROR");
+  assertEquals(error.plugin, "file:///nonexistent/plugin.ts");
+});
+
+Deno.test("plugins: a broken plugin leaves help, --version and config edit working", async () => {
+  const cli = new CLI({ name: "app", version: "1.2.3", discoverPlugins: true });
+  cli.registerCommand(["status"], () => {}, { description: "Show status" });
+  const options = {
+    config: { plugins: ["/nonexistent/plugin.ts"] },
+    env: { EDITOR: "true" },
+  };
+  for (
+    const argv of [
+      [],
+      ["--help"],
+      ["status", "--help"],
+      ["help"],
+      ["--version"],
+      ["config", "edit"],
+      ["config", "list"],
+    ]
+  ) {
+    const result = await runCLI(cli, argv, options);
+    assertEquals(result.exitCode, 0, `${argv.join(" ")}: ${result.stderr}`);
+    assert(!result.stderr.includes("Cannot load plugin"), argv.join(" "));
+  }
+  const version = await runCLI(cli, ["--version"], options);
+  assertEquals(version.stdout, "app 1.2.3\n");
+});
+
+Deno.test("plugins: an invalid plugins list does not block help", async () => {
+  const cli = new CLI({ name: "app", discoverPlugins: true });
+  cli.registerCommand(["status"], () => {});
+  const config = { plugins: "jsr:@acme/not-a-list" };
+  const help = await runCLI(cli, ["--help"], { config });
+  assertEquals(help.exitCode, 0);
+  const status = await runCLI(cli, ["status", "--output=json"], { config });
+  assertEquals(JSON.parse(status.stderr).error.code, "INVALID_CONFIG");
+});
@@ -49,22 +49,9 @@ export class CommandRegistry {
       throw new Error(`Command already registered: ${path.join(" ")}`);
     }
     node.handler = handler as CommandHandler;
-    node.options = options as CommandOptions;
-
-    // register aliases (if any) as hidden commands at the same parent level
-    if (options.aliases) {
-      for (const alias of options.aliases) {
-        let parent = this.root;
-        for (let i = 0; i < path.length - 1; i++) {
-          parent = parent.children.get(path[i])!;
-        }
-        parent.children.set(alias, {
-          children: new Map(),
-          handler: handler as CommandHandler,
-          options: { ...options, hidden: true } as CommandOptions,
-        });
-      }
-    }
+    // Keeps what `describeGroup` set, unless the command sets it too
+    node.options = { ...node.options, ...options as CommandOptions };
+    this.#registerAliases(path, node, node.options.aliases);
   }
 
   /**
@@ -74,6 +61,7 @@ export class CommandRegistry {
    * @param modPath - File path or URL to import the module from.
    * @param symbol - Exported handler symbol name in the module (defaults to "default").
    * @param options - Metadata including description, examples, aliases, hidden, flagsSchema.
+   * @param optionsSymbol - Exported options to take the schemas from on import.
    * @throws Error if `path` is empty or the command is already registered.
    */
   registerLazyCommand(
@@ -81,6 +69,7 @@ export class CommandRegistry {
     modPath: string,
     symbol = "default",
     options: CommandOptions = {},
+    optionsSymbol?: string,
   ): void {
     if (path.length === 0) {
       throw new Error(
@@ -97,22 +86,104 @@ export class CommandRegistry {
     if (node.handler || node.lazyImport) {
       throw new Error(`Command already registered: ${path.join(" ")}`);
     }
-    node.lazyImport = { path: modPath, symbol };
-    node.options = options;
+    node.lazyImport = { path: modPath, symbol, options: optionsSymbol };
+    node.options = { ...node.options, ...options };
+    this.#registerAliases(path, node, options.aliases);
+  }
 
-    // register aliases (if any) as hidden lazy imports
-    if (options.aliases) {
-      for (const alias of options.aliases) {
-        let parent = this.root;
-        for (let i = 0; i < path.length - 1; i++) {
-          parent = parent.children.get(path[i])!;
-        }
-        parent.children.set(alias, {
-          children: new Map(),
-          lazyImport: { path: modPath, symbol },
-          options: { ...options, hidden: true },
-        });
+  /**
+   * Describe a command group: a node that only holds subcommands (or a
+   * command with subcommands). The node is created if no command below it
+   * is registered yet; options set here are kept when a command is
+   * registered at `path`, unless it sets them too.
+   *
+   * @param path - The group's path, e.g. ["cluster"].
+   * @param description - Shown in the CLI's help and the group's help page.
+   * @param options - Category, order, examples and whether it is hidden.
+   * @throws Error if `path` is empty.
+   */
+  describeGroup(
+    path: string[],
+    description: string,
+    options: Pick<
+      CommandOptions,
+      "category" | "order" | "examples" | "hidden"
+    > = {},
+  ): void {
+    if (path.length === 0) {
+      throw new Error("describeGroup() requires at least one path segment");
+    }
+    let node = this.root;
+    for (const seg of path) {
+      if (!node.children.has(seg)) {
+        node.children.set(seg, { children: new Map(), options: {} });
       }
+      node = node.children.get(seg)!;
+    }
+    node.options = { ...node.options, ...options, description };
+  }
+
+  /**
+   * Fill in a lazy command's metadata from a manifest: options given at
+   * registration win, new aliases are registered, and the module's
+   * `optionsSymbol` export supplies the schemas once it is imported.
+   *
+   * @param path - The command path.
+   * @param options - The metadata from the manifest.
+   * @param optionsSymbol - Export holding the module's `CommandOptions`.
+   */
+  describeLazyCommand(
+    path: string[],
+    options: CommandOptions,
+    optionsSymbol = "options",
+  ): void {
+    const { node, consumed } = this.traverse(path);
+    if (!node?.lazyImport || consumed < path.length) return;
+    const siblings = this.traverse(path.slice(0, -1)).node!.children;
+    const aliases = [
+      ...new Set([...node.options.aliases ?? [], ...options.aliases ?? []]),
+    ];
+    // The command and the aliases registered with it
+    for (const target of [node, ...siblings.values()]) {
+      if (target !== node && target.aliasOf?.join(" ") !== path.join(" ")) {
+        continue;
+      }
+      target.options = { ...options, ...target.options };
+      if (aliases.length) target.options.aliases = aliases;
+      if (target.lazyImport) target.lazyImport.options ??= optionsSymbol;
+    }
+    this.#registerAliases(
+      path,
+      node,
+      options.aliases?.filter((alias) => !siblings.has(alias)),
+    );
+  }
+
+  /**
+   * Register aliases of a command as hidden nodes at the same parent level,
+   * sharing its handler (or lazy import) and options.
+   *
+   * @param path - The command path.
+   * @param node - The command's node.
+   * @param aliases - The alias names.
+   */
+  #registerAliases(
+    path: readonly string[],
+    node: CommandNode,
+    aliases: string[] = [],
+  ): void {
+    let parent = this.root;
+    for (let i = 0; i < path.length - 1; i++) {
+      parent = parent.children.get(path[i])!;
+    }
+    for (const alias of aliases) {
+      parent.children.set(alias, {
+        children: new Map(),
+        handler: node.handler,
+        lazyImport: node.lazyImport && { ...node.lazyImport },
+        options: { ...node.options, hidden: true },
+        aliasOf: [...path],
+      });
     }
   }
 
@@ -7,11 +7,53 @@
  */
 
 import { blue, green, red, yellow } from "@std/fmt/colors";
-import { type Span, SpanStatusCode, type Tracer } from "@opentelemetry/api";
-import { trace } from "@opentelemetry/api";
-import type { Options, OutputMode, Verbosity } from "./types.ts";
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  type Attributes,
+  type AttributeValue,
+  type Context,
+  context as otelContext,
+  type Counter,
+  type Exception,
+  type Histogram,
+  type Link,
+  type Meter,
+  type MetricOptions,
+  type Span,
+  type SpanContext,
+  type SpanStatus,
+  SpanStatusCode,
+  type TimeInput,
+  trace,
+  type Tracer,
+} from "@opentelemetry/api";
+import type { CLIConfig, Options, OutputMode, Verbosity } from "./types.ts";
 import { CLIError } from "./types.ts";
 import { stringify as stringifyYAML } from "@std/yaml";
+import { type CLIRuntime, denoRuntime, type OutputStream } from "./runtime.ts";
+import type { ColorPolicy } from "./utils/color.ts";
+import { writeError } from "./utils/errors.ts";
+import {
+  type OutputFormat,
+  type OutputOptions,
+  renderOutput,
+} from "./utils/output.ts";
+import {
+  type ProgressTask,
+  RenderManager,
+  type RenderMode,
+  type TaskOptions,
+} from "./utils/progress.ts";
+import {
+  type ConfirmOptions,
+  type InputOptions,
+  type MultiSelectOptions,
+  Prompter,
+  type PromptSettings,
+  type SelectOptions,
+} from "./utils/prompt.ts";
+import { Redactor } from "./utils/secrets.ts";
+import { recordError } from "./telemetry/mod.ts";
 
 /**
  * Mapping of verbosity levels to numeric weights.
@@ -23,63 +65,42 @@ export const LEVEL_WEIGHT: Record<Verbosity, number> = {
   verbose: 2,
 };
 
-/** A simple spinner for progress indication. */
-class Spinner {
-  #frames = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
-  #intervalId: number | null = null;
-  #index = 0;
-
-  constructor(private readonly message: string) {}
-
-  /**
-   * Start the spinner. Subsequent calls have no effect if spinner is already running.
-   */
-  start(): void {
-    if (this.#intervalId !== null) return;
-    this.#intervalId = setInterval(() => {
-      Deno.stdout.write(
-        new TextEncoder().encode(`\r${this.currentFrame()} ${this.message}`),
-      );
-      this.#index = (this.#index + 1) % this.#frames.length;
-    }, 80);
-  }
-
-  /**
-   * Stop the spinner and clear the line.
-   */
-  stop(): void {
-    if (this.#intervalId !== null) {
-      clearInterval(this.#intervalId);
-      this.#intervalId = null;
-      Deno.stdout.write(
-        new TextEncoder().encode(`\r${" ".repeat(this.message.length + 2)}\r`),
-      );
-    }
-  }
-
-  private currentFrame(): string {
-    return this.#frames[this.#index];
-  }
-}
-
 /**
  * Context passed into every command handler, offering utilities such as:
  * - `args`: positional arguments after the command path
  * - `options`: parsed flags/options
+ * - `flags`: the validated flags, once validation has run
+ * - `config`: the merged configuration (validated, with a `configSchema`)
  * - Logging methods (log, warn, error, debug)
- * - Spinner and progress helpers
- * - Tracing (startSpan, endSpan, ok, fail)
- * - Abort signal handling for Ctrl-C
+ * - Progress tasks (spinners and bars) drawn below the log output
+ * - Interactive prompts (confirm, prompt, password, select, multiSelect)
+ * - Tracing (withSpan, startSpan, endSpan, ok, fail) and metrics
+ * - Cancellation on Ctrl-C / SIGTERM (signal, onAbort, cancel)
  * - Structured error handling
+ * - Secret redaction (addSecret, redact) in logs, errors and spans
  */
-export class CLIContext {
-  readonly tracer: Tracer = trace.getTracer("generic-cli");
-  #span: Span | null = null;
+export class CLIContext<Config extends CLIConfig = CLIConfig> {
+  readonly tracer: Tracer;
+  readonly meter: Meter;
+  /** Spans opened with `startSpan` and not yet ended, innermost last. */
+  #spans: Span[] = [];
+  /** The `withSpan` span active for the current async call chain. */
+  #activeSpan = new AsyncLocalStorage<Span>();
   #verbosity: Verbosity;
-  #outputMode: OutputMode;
+  #format: OutputFormat;
   #dataStore = new Map<string, unknown>();
-  #spinner: Spinner | null = null;
+  #render: RenderManager;
+  #spinner: ProgressTask | null = null;
+  #progress: ProgressTask | null = null;
   #signalController = new AbortController();
+  #cleanup: (() => void | Promise<void>)[] = [];
+  #prompter: Prompter;
+  #redactor = new Redactor();
+  /**
+   * The validated flags the handler receives (the raw `options` until
+   * validation has run). Middleware added with `cli.use` may replace them.
+   */
+  flags: Options;
 
   /**
    * Create a new CLIContext.
@@ -87,53 +108,184 @@ export class CLIContext {
    * @param args - Remaining positional arguments after the command path.
    * @param options - Parsed flags/options object.
    * @param verbosity - Verbosity level ("quiet", "normal", or "verbose").
-   * @param outputMode - Output mode ("text", "json", or "yaml").
+   * @param output - Output mode, or the full format (mode, template, query).
+   * @param runtime - Streams, env and tracer to use (defaults to the Deno process).
+   * @param color - Whether stdout/stderr carry ANSI colors for this run.
+   * @param command - The resolved command path.
+   * @param prompts - Whether prompts may ask (default: when stdin is a
+   *                  terminal) and whether `--yes` was given.
+   * @param config - The merged configuration, as validated by the CLI's
+   *                 `configSchema` if it has one.
    */
   constructor(
     public readonly args: string[],
     public readonly options: Options,
     verbosity: Verbosity = "normal",
-    outputMode: OutputMode = "text",
+    output: OutputMode | OutputFormat = "text",
+    public readonly runtime: CLIRuntime = denoRuntime(),
+    public readonly color: ColorPolicy = { stdout: true, stderr: true },
+    public readonly command: string[] = [],
+    prompts: PromptSettings = { interactive: runtime.stdin.isTerminal() },
+    public readonly config: Config = {} as Config,
   ) {
     this.#verbosity = verbosity;
-    this.#outputMode = outputMode;
+    this.flags = options;
+    this.#prompter = new Prompter(runtime.stdin, runtime.stderr, {
+      ...prompts,
+      quiet: verbosity === "quiet",
+      signal: this.#signalController.signal,
+    });
+    this.#format = typeof output === "string" ? { mode: output } : output;
+    const mode: RenderMode = verbosity === "quiet"
+      ? "silent"
+      : this.#format.mode === "json" || this.#format.mode === "ndjson"
+      ? "json"
+      : runtime.stderr.isTerminal()
+      ? "tty"
+      : "plain";
+    this.#render = new RenderManager(runtime.stderr, mode);
+    this.tracer = runtime.tracer;
+    this.meter = runtime.meter;
   }
 
   // -------------------- Tracing helpers --------------------
 
   /**
-   * Start a new tracing span with the given name.
+   * The current tracing span: the innermost `withSpan` span of this async
+   * call chain, else the innermost span opened with `startSpan`.
+   *
+   * @returns The span, or `null` if none is open.
+   */
+  get span(): Span | null {
+    return this.#activeSpan.getStore() ?? this.#spans.at(-1) ?? null;
+  }
+
+  /**
+   * Context carrying the current span, used to parent new spans.
+   *
+   * @returns The context, or `undefined` if no span is open.
+   */
+  #currentContext(): Context | undefined {
+    const span = this.span;
+    return span ? trace.setSpan(otelContext.active(), span) : undefined;
+  }
+
+  /**
+   * Run `fn` inside a child span of the current span. The span's status is
+   * set to OK when `fn` resolves, or ERROR (with the exception recorded) when
+   * it throws; either way the span is ended. Spans started inside `fn` —
+   * including nested `withSpan` calls — become its children.
+   *
+   * @typeParam T - Return type of `fn`.
+   * @param name - Name of the span.
+   * @param fn - The work to trace; receives the span for extra attributes.
+   * @param attributes - Initial span attributes.
+   * @returns Whatever `fn` returns.
+   */
+  async withSpan<T>(
+    name: string,
+    fn: (span: Span) => T | Promise<T>,
+    attributes?: Attributes,
+  ): Promise<T> {
+    const span = this.#redacting(this.tracer.startSpan(
+      name,
+      { attributes: this.redact(attributes) },
+      this.#currentContext(),
+    ));
+    try {
+      const result = await this.#activeSpan.run(
+        span,
+        () =>
+          otelContext.with(
+            trace.setSpan(otelContext.active(), span),
+            () => fn(span),
+          ),
+      );
+      span.setStatus({ code: SpanStatusCode.OK });
+      return result;
+    } catch (err) {
+      recordError(span, err, (text) => this.redact(text));
+      throw err;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Start a tracing span with the given name, as a child of the current span.
+   * Pair with `endSpan()`; prefer `withSpan` for scoped work.
    *
    * @param name - Name of the span.
+   * @param attributes - Initial span attributes.
+   * @param parent - Context carrying the parent span (e.g. from `TRACEPARENT`),
+   *                 instead of the current span.
    */
-  startSpan(name: string): void {
-    this.#span = this.tracer.startSpan(name);
+  startSpan(name: string, attributes?: Attributes, parent?: Context): void {
+    this.#spans.push(this.#redacting(this.tracer.startSpan(
+      name,
+      { attributes: this.redact(attributes) },
+      parent ?? this.#currentContext(),
+    )));
   }
 
   /**
-   * End the current tracing span, if any.
+   * Wrap a new span so that what handlers set on it is redacted too.
+   *
+   * @param span - The tracer's span.
+   * @returns The wrapped span.
+   */
+  #redacting(span: Span): Span {
+    return new RedactingSpan(span, (value) => this.redact(value));
+  }
+
+  /**
+   * End the innermost span opened with `startSpan`, if any.
    */
   endSpan(): void {
-    this.#span?.end();
+    this.#spans.pop()?.end();
   }
 
   /**
    * Mark the current span status as OK.
    */
   ok(): void {
-    this.#span?.setStatus({ code: SpanStatusCode.OK });
+    this.span?.setStatus({ code: SpanStatusCode.OK });
   }
 
   /**
-   * Mark the current span status as ERROR with a message.
+   * Mark the current span status as ERROR and record the exception.
    *
    * @param err - The error that occurred.
    */
   fail(err: unknown): void {
-    this.#span?.setStatus({
-      code: SpanStatusCode.ERROR,
-      message: String(err),
-    });
+    const span = this.span;
+    if (span) recordError(span, err, (text) => this.redact(text));
+  }
+
+  // -------------------- Metrics helpers --------------------
+
+  /**
+   * Get a counter (e.g. API calls made). Exported with the run's spans when
+   * an OTLP endpoint is configured.
+   *
+   * @param name - Metric name, e.g. "api.calls".
+   * @param options - Description and unit.
+   * @returns The counter; call `.add(n, attributes)`.
+   */
+  counter(name: string, options?: MetricOptions): Counter {
+    return this.meter.createCounter(name, options);
+  }
+
+  /**
+   * Get a histogram (e.g. request latency). Exported with the run's spans
+   * when an OTLP endpoint is configured.
+   *
+   * @param name - Metric name, e.g. "api.latency".
+   * @param options - Description, unit and bucket boundaries.
+   * @returns The histogram; call `.record(value, attributes)`.
+   */
+  histogram(name: string, options?: MetricOptions): Histogram {
+    return this.meter.createHistogram(name, options);
   }
 
   // -------------------- Context store (hierarchical) --------------------
@@ -160,17 +312,43 @@ export class CLIContext {
   }
 
   // -------------------- Progress / Spinner --------------------
+  //
+  // Tasks are drawn on stderr by a single render manager: animated below the
+  // log output on a terminal, as periodic plain lines otherwise, and as
+  // `{"type":"progress",...}` events in json/ndjson mode. Nothing is shown
+  // in quiet mode.
+
+  /**
+   * Start a progress task: a spinner, or a bar with rate and ETA when
+   * `total` is given. Any number of tasks can run at once.
+   *
+   * @param title - Text shown next to the task.
+   * @param options - Total units of work and unit ("items" or "bytes").
+   * @returns The task; call `tick`/`update`, then `succeed`, `fail` or `stop`.
+   */
+  task(title: string, options?: TaskOptions): ProgressTask {
+    return this.#render.task(title, options);
+  }
+
+  /**
+   * Remove every active task without final lines. Called by `CLI.run` when
+   * the command ends or is cancelled.
+   */
+  stopTasks(): void {
+    this.#render.stop();
+    this.#spinner = null;
+    this.#progress = null;
+  }
 
   /**
    * Start a spinner with a given message. Call `.stopSpinner()` to end.
-   * No-op if verbosity is "quiet".
+   * Shorthand for a single `task(msg)`.
    *
    * @param msg - The message to display alongside the spinner.
    */
   startSpinner(msg: string): void {
-    if (this.#verbosity === "quiet") return;
-    this.#spinner = new Spinner(msg);
-    this.#spinner.start();
+    this.#spinner?.stop();
+    this.#spinner = this.#render.task(msg);
   }
 
   /**
@@ -182,34 +360,29 @@ export class CLIContext {
   }
 
   /**
-   * Print a progress line “[current/total] …desc…”.
-   * If in quiet mode, this is a no-op.
+   * Show a progress bar “[####----] current/total …desc…”; it completes
+   * when `current` reaches `total`. Shorthand for a single
+   * `task(desc, { total })`.
    *
    * @param current - Current progress count.
    * @param total - Total count.
    * @param desc - Optional description to display.
    */
   progress(current: number, total: number, desc?: string): void {
-    if (this.#verbosity === "quiet") return;
-    const barSize = 20;
-    const ratio = total > 0 ? current / total : 1;
-    const filled = Math.floor(ratio * barSize);
-    const empty = barSize - filled;
-    const bar = `[${"#".repeat(filled)}${"-".repeat(empty)}]`;
-    Deno.stdout.write(
-      new TextEncoder().encode(
-        `\r${bar} ${current}/${total} ${desc ?? ""}`,
-      ),
-    );
+    this.#progress ??= this.#render.task(desc ?? "Progress", { total });
+    this.#progress.update(current, { title: desc, total });
     if (current >= total) {
-      Deno.stdout.write(new TextEncoder().encode("\n"));
+      this.#progress.succeed();
+      this.#progress = null;
     }
   }
 
   // -------------------- Abort / Signal handling --------------------
 
   /**
-   * Return the AbortSignal tied to Ctrl‐C (SIGINT).
+   * Return the AbortSignal aborted when the command is cancelled (Ctrl-C /
+   * SIGINT, SIGTERM). Its `reason` is the CLIError the run fails with; pass
+   * the signal to `fetch`, child processes, etc.
    *
    * @returns The AbortSignal for this context.
    */
@@ -218,110 +391,379 @@ export class CLIContext {
   }
 
   /**
-   * Register a handler to run if the user hits Ctrl‐C.
+   * Register a cleanup handler to run when the command is cancelled, e.g. to
+   * roll back half-written state. Handlers run concurrently and are awaited
+   * up to the cleanup timeout before the process exits.
+   *
+   * @param fn - Function to call upon cancellation.
+   */
+  onAbort(fn: () => void | Promise<void>): void {
+    this.#cleanup.push(fn);
+  }
+
+  /**
+   * Cancel the command: remove progress tasks, abort `signal` with `reason` and
+   * run the `onAbort` handlers, waiting at most `timeoutMs` for them. Called
+   * by `CLI.run` on SIGINT/SIGTERM; later calls have no effect.
+   *
+   * @param reason - Why the command is cancelled (becomes `signal.reason`).
+   * @param timeoutMs - How long to wait for cleanup handlers.
+   */
+  async cancel(reason: unknown, timeoutMs = 5_000): Promise<void> {
+    if (this.signal.aborted) return;
+    this.stopTasks();
+    this.#signalController.abort(reason);
+    const cleanup = Promise.allSettled(
+      this.#cleanup.map(async (fn) => await fn()),
+    );
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(true), timeoutMs);
+    });
+    try {
+      if (await Promise.race([cleanup.then(() => false), timedOut])) {
+        this.warn(`Cleanup did not finish within ${timeoutMs}ms`);
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // -------------------- Input --------------------
+
+  /**
+   * Read all of stdin as text (e.g. for `cat file | my-cli import`).
+   *
+   * @returns The decoded contents of stdin.
+   */
+  async readStdin(): Promise<string> {
+    return await new Response(this.runtime.stdin.readable).text();
+  }
+
+  // -------------------- Prompts --------------------
+  //
+  // Prompts are drawn on stderr and read keys from stdin in raw mode. When
+  // stdin is not a terminal, or `--yes` / `--no-input` was given, they never
+  // ask: they resolve to their default or throw a CLIError with code
+  // "INPUT_REQUIRED". Ctrl-C while prompting throws code "CANCELLED" (exit
+  // 130). In quiet mode hints and the answered-prompt line are omitted.
+
+  /**
+   * Ask a yes/no question. With `--yes` it resolves to true without asking.
+   *
+   * @param message - The question.
+   * @param options - The default answer.
+   * @returns The answer.
+   */
+  async confirm(message: string, options?: ConfirmOptions): Promise<boolean> {
+    return await this.#render.suspend(() =>
+      this.#prompter.confirm(message, options)
+    );
+  }
+
+  /**
+   * Ask for a line of text, validated (and transformed) by an optional Zod
+   * schema; invalid replies are re-prompted.
    *
-   * @param fn - Function to call upon abort.
+   * @typeParam T - The value type produced by the schema.
+   * @param message - The question.
+   * @param options - Default reply and schema.
+   * @returns The validated reply.
    */
-  onAbort(fn: () => void): void {
-    this.signal.addEventListener("abort", () => fn());
+  async prompt<T = string>(
+    message: string,
+    options?: InputOptions<T>,
+  ): Promise<T> {
+    return await this.#render.suspend(() =>
+      this.#prompter.prompt(message, options)
+    );
+  }
+
+  /**
+   * Ask for a secret without echoing it.
+   *
+   * @typeParam T - The value type produced by the schema.
+   * @param message - The question.
+   * @param options - Validation schema.
+   * @returns The validated reply.
+   */
+  async password<T = string>(
+    message: string,
+    options?: Omit<InputOptions<T>, "default">,
+  ): Promise<T> {
+    return await this.#render.suspend(() =>
+      this.#prompter.password(message, options)
+    );
+  }
+
+  /**
+   * Ask the user to pick one of several choices.
+   *
+   * @typeParam T - The choice value type.
+   * @param message - The question.
+   * @param options - Choices and the default value.
+   * @returns The picked value.
+   */
+  async select<T = string>(
+    message: string,
+    options: SelectOptions<T>,
+  ): Promise<T> {
+    return await this.#render.suspend(() =>
+      this.#prompter.select(message, options)
+    );
+  }
+
+  /**
+   * Ask the user to check any number of choices.
+   *
+   * @typeParam T - The choice value type.
+   * @param message - The question.
+   * @param options - Choices, initially checked values and a schema.
+   * @returns The checked values.
+   */
+  async multiSelect<T = string>(
+    message: string,
+    options: MultiSelectOptions<T>,
+  ): Promise<T[]> {
+    return await this.#render.suspend(() =>
+      this.#prompter.multiSelect(message, options)
+    );
+  }
+
+  // -------------------- Command output --------------------
+
+  /**
+   * The output mode selected with `--output`.
+   *
+   * @returns The output mode.
+   */
+  get outputMode(): OutputMode {
+    return this.#format.mode;
+  }
+
+  /**
+   * Write a command result to stdout in the selected `--output` format,
+   * after applying `--query`. Arrays of records become aligned tables in
+   * text mode; `columns` picks and orders the fields shown. Results are
+   * written even in quiet mode.
+   *
+   * @param data - The result (typically a record or an array of records).
+   * @param options - Column definitions for tables and CSV/TSV.
+   * @throws CLIError for an invalid `--query` or template.
+   */
+  output(data: unknown, options: OutputOptions = {}): void {
+    this.#render.write(
+      this.runtime.stdout,
+      renderOutput(data, this.#format, options),
+    );
   }
 
   // -------------------- Logging helpers --------------------
+  //
+  // `log` writes data to stdout; `warn`, `debug` and `error` are diagnostics
+  // and go to stderr, so piping a command's output (e.g. into `jq`) only ever
+  // sees data.
 
   /**
-   * Log a message or object. No-op if verbosity is "quiet".
+   * Write a message to `out`: serialized in json/yaml mode, otherwise as a
+   * line of text painted with `paint`.
+   *
+   * @param out - The stream to write to.
+   * @param msg - The message string or object.
+   * @param paint - Color function for text mode.
+   */
+  #emit(
+    out: OutputStream,
+    msg: string | Record<string, unknown>,
+    paint: (text: string) => string,
+  ): void {
+    const mode = this.#format.mode;
+    const redacted = this.redact(msg);
+    if (mode === "json" || mode === "ndjson") {
+      this.#render.write(out, `${JSON.stringify(redacted)}\n`);
+    } else if (mode === "yaml") {
+      this.#render.write(out, `${stringifyYAML(redacted)}\n`);
+    } else {
+      // Objects that are not plain (errors, maps) are masked once printed
+      const text = typeof redacted === "string" ? redacted : this.redact(
+        Deno.inspect(redacted, { colors: false, depth: Infinity }),
+      );
+      this.#render.write(out, `${paint(text)}\n`);
+    }
+  }
+
+  /**
+   * Log a message or object to stdout. No-op if verbosity is "quiet".
    *
    * @param msg - The message string or object to log.
    */
   log(msg: string | Record<string, unknown>): void {
     if (this.#verbosity === "quiet") return;
-    if (this.#outputMode === "json") {
-      console.log(JSON.stringify(msg));
-    } else if (this.#outputMode === "yaml") {
-      console.log(stringifyYAML(msg));
-    } else {
-      console.log(green(String(msg)));
-    }
+    this.#emit(this.runtime.stdout, msg, green);
   }
 
   /**
-   * Log a warning message or object. No-op if verbosity is "quiet".
+   * Log a warning message or object to stderr. No-op if verbosity is "quiet".
    *
    * @param msg - The warning message string or object to log.
    */
   warn(msg: string | Record<string, unknown>): void {
     if (this.#verbosity === "quiet") return;
-    if (this.#outputMode === "json") {
-      console.log(JSON.stringify(msg));
-    } else if (this.#outputMode === "yaml") {
-      console.log(stringifyYAML(msg));
-    } else {
-      console.log(yellow(String(msg)));
-    }
+    this.#emit(this.runtime.stderr, msg, yellow);
   }
 
   /**
-   * Log a debug message or object. Only emits if verbosity is "verbose".
+   * Log a debug message or object to stderr. Only emits if verbosity is
+   * "verbose".
    *
    * @param msg - The debug message string or object to log.
    */
   debug(msg: string | Record<string, unknown>): void {
-    if (this.#verbosity === "quiet") return;
-    if (this.#verbosity === "verbose") {
-      if (this.#outputMode === "json") {
-        console.log(JSON.stringify(msg));
-      } else if (this.#outputMode === "yaml") {
-        console.log(stringifyYAML(msg));
-      } else {
-        console.log(blue(String(msg)));
-      }
-    }
+    if (this.#verbosity !== "verbose") return;
+    this.#emit(this.runtime.stderr, msg, blue);
   }
 
   /**
-   * Log an error message or object. Always shown, even in quiet mode.
+   * Log an error message or object to stderr. Always shown, even in quiet
+   * mode.
    *
    * @param msg - The error message string or object to log.
    */
   error(msg: string | Record<string, unknown>): void {
-    if (this.#outputMode === "json") {
-      console.log(JSON.stringify(msg));
-    } else if (this.#outputMode === "yaml") {
-      console.log(stringifyYAML(msg));
-    } else {
-      console.log(red(String(msg)));
-    }
+    this.#emit(this.runtime.stderr, msg, red);
   }
 
   // -------------------- Exit helpers --------------------
 
   /**
-   * Immediately exit with a given code, printing the message in red.
+   * Abort the command with a message and exit code. Throws a CLIError, which
+   * `CLI.run` reports and turns into the run's exit code.
    *
-   * @param msg - The message to display before exiting.
+   * @param msg - The message to display.
    * @param code - Exit code (default: 1).
-   * @returns Never returns (exits the process).
+   * @returns Never returns (always throws).
    */
   fatal(msg: string, code = 1): never {
-    this.error(msg);
-    Deno.exit(code);
+    throw new CLIError(msg, code);
   }
 
   // -------------------- Structured errors --------------------
 
   /**
-   * If `err` is a CLIError, exits with its exitCode and prints its message.
-   * Otherwise, prints the stringified error and exits with code 1.
+   * Report an error on stderr and map it to an exit code: a CLIError's
+   * exitCode, or 1 for anything else. In json/yaml mode the error is written
+   * as an envelope: `{ error: { message, code, exitCode, command } }`.
    *
    * @param err - The error to handle.
+   * @returns The exit code the error maps to.
    */
-  handleError(err: unknown): void {
-    if (err instanceof CLIError) {
-      this.error(err.message);
-      Deno.exit(err.exitCode);
-    } else {
-      this.error(String(err));
-      Deno.exit(1);
-    }
+  handleError(err: unknown): number {
+    return writeError(
+      err,
+      this.runtime.stderr,
+      this.#format.mode,
+      this.command,
+      this.#redactor,
+    );
+  }
+
+  // -------------------- Secrets --------------------
+
+  /**
+   * Register a secret (e.g. a token fetched at runtime) so it is redacted
+   * from logs, error envelopes and spans. Secret flags and config keys are
+   * registered by the CLI before the command runs.
+   *
+   * @param value - The secret; arrays and objects register their values.
+   */
+  addSecret(value: unknown): void {
+    this.#redactor.add(value);
+  }
+
+  /**
+   * Mask the registered secrets in `value`, e.g. before writing it
+   * somewhere the CLI doesn't redact on its own, such as `output()`.
+   *
+   * @typeParam T - The value type.
+   * @param value - A string, or an array or plain object containing strings.
+   * @returns A copy with every secret replaced by "[REDACTED]".
+   */
+  redact<T>(value: T): T {
+    return this.#redactor.value(value);
+  }
+}
+
+/**
+ * A span that masks registered secrets in everything a handler sets on it
+ * (attributes, events, status, name, exceptions) before it reaches the
+ * tracer.
+ */
+class RedactingSpan implements Span {
+  constructor(
+    readonly inner: Span,
+    private readonly redact: <T>(value: T) => T,
+  ) {}
+
+  spanContext(): SpanContext {
+    return this.inner.spanContext();
+  }
+  setAttribute(key: string, value: AttributeValue): this {
+    this.inner.setAttribute(key, this.redact(value));
+    return this;
+  }
+  setAttributes(attributes: Attributes): this {
+    this.inner.setAttributes(this.redact(attributes));
+    return this;
+  }
+  addEvent(
+    name: string,
+    attributesOrStartTime?: Attributes | TimeInput,
+    startTime?: TimeInput,
+  ): this {
+    const isTime = typeof attributesOrStartTime === "number" ||
+      attributesOrStartTime instanceof Date ||
+      Array.isArray(attributesOrStartTime);
+    this.inner.addEvent(
+      this.redact(name),
+      isTime ? attributesOrStartTime : this.redact(attributesOrStartTime),
+      startTime,
+    );
+    return this;
+  }
+  addLink(link: Link): this {
+    this.inner.addLink(link);
+    return this;
+  }
+  addLinks(links: Link[]): this {
+    this.inner.addLinks(links);
+    return this;
+  }
+  setStatus(status: SpanStatus): this {
+    this.inner.setStatus(this.redact(status));
+    return this;
+  }
+  updateName(name: string): this {
+    this.inner.updateName(this.redact(name));
+    return this;
+  }
+  end(endTime?: TimeInput): void {
+    this.inner.end(endTime);
+  }
+  isRecording(): boolean {
+    return this.inner.isRecording();
+  }
+  recordException(exception: Exception, time?: TimeInput): void {
+    this.inner.recordException(
+      this.redact(
+        exception instanceof Error
+          ? {
+            name: exception.name,
+            message: exception.message,
+            stack: exception.stack,
+          }
+          : exception,
+      ),
+      time,
+    );
   }
 }
@@ -0,0 +1,132 @@
+/**
+ * src/context_test.ts
+ *
+ * Cancellation of a run by SIGINT/SIGTERM: the context's abort signal,
+ * `onAbort` cleanup and its timeout, exit codes, the cancelled span, and the
+ * second signal that forces exit.
+ */
+
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { CLI } from "./cli/mod.ts";
+import { runCLI, TestSignals } from "./testing.ts";
+import { EXIT_SIGINT, EXIT_SIGTERM } from "./types.ts";
+
+/**
+ * A CLI whose `wait` command sends itself `signal` and waits to be
+ * cancelled, recording its cleanup.
+ *
+ * @param signals - The signals the run listens to.
+ * @param signal - The signal to send.
+ * @param cleaned - Set by the `onAbort` handler.
+ * @returns The CLI.
+ */
+function waitCLI(
+  signals: TestSignals,
+  signal: "SIGINT" | "SIGTERM",
+  cleaned: { done: boolean },
+): CLI {
+  const cli = new CLI({ name: "app", cleanupTimeoutMs: 1_000 });
+  cli.registerCommand(["wait"], async (_args, _flags, ctx) => {
+    ctx.onAbort(() => {
+      cleaned.done = true;
+    });
+    setTimeout(() => signals.send(signal), 0);
+    await new Promise((resolve) => {
+      const timer = setTimeout(resolve, 5_000);
+      ctx.signal.addEventListener("abort", () => {
+        clearTimeout(timer);
+        resolve(undefined);
+      });
+    });
+  });
+  return cli;
+}
+
+Deno.test("signals: SIGINT exits 130 after cleanup", async () => {
+  const signals = new TestSignals();
+  const cleaned = { done: false };
+  const result = await runCLI(
+    waitCLI(signals, "SIGINT", cleaned),
+    ["wait"],
+    { signals },
+  );
+  assertEquals(result.exitCode, EXIT_SIGINT);
+  assertEquals(cleaned.done, true);
+});
+
+Deno.test("signals: SIGTERM exits 143", async () => {
+  const signals = new TestSignals();
+  const cleaned = { done: false };
+  const result = await runCLI(
+    waitCLI(signals, "SIGTERM", cleaned),
+    ["wait", "--output", "json"],
+    { signals },
+  );
+  assertEquals(result.exitCode, EXIT_SIGTERM);
+  assertEquals(JSON.parse(result.stderr).error.code, "CANCELLED");
+});
+
+Deno.test("signals: the command span is marked cancelled", async () => {
+  const signals = new TestSignals();
+  const result = await runCLI(
+    waitCLI(signals, "SIGTERM", { done: false }),
+    ["wait"],
+    { signals },
+  );
+  const span = result.spans.find((s) => s.name === "wait");
+  assert(span?.ended);
+  assertEquals(span.attributes["cli.cancelled"], true);
+  assertEquals(span.attributes["cli.signal"], "SIGTERM");
+  assertEquals(span.attributes["cli.exit_code"], EXIT_SIGTERM);
+});
+
+Deno.test("signals: handlers see the abort reason on ctx.signal", async () => {
+  const signals = new TestSignals();
+  const cli = new CLI({ name: "app" });
+  cli.registerCommand(["wait"], async (_args, _flags, ctx) => {
+    ctx.onAbort(() => {
+      const reason = ctx.signal.reason as { code?: string };
+      ctx.warn(`aborted: ${ctx.signal.aborted} ${reason.code}`);
+    });
+    signals.send("SIGINT");
+    await new Promise(() => {});
+  });
+  const result = await runCLI(cli, ["wait"], { signals });
+  assertEquals(result.exitCode, EXIT_SIGINT);
+  assertStringIncludes(result.stderr, "aborted: true CANCELLED");
+});
+
+Deno.test("signals: slow cleanup is cut off after the timeout", async () => {
+  const signals = new TestSignals();
+  const cli = new CLI({ name: "app", cleanupTimeoutMs: 20 });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  cli.registerCommand(["wait"], async (_args, _flags, ctx) => {
+    ctx.onAbort(() =>
+      new Promise((resolve) => {
+        timer = setTimeout(resolve, 5_000);
+      })
+    );
+    signals.send("SIGINT");
+    await new Promise(() => {});
+  });
+  try {
+    const result = await runCLI(cli, ["wait"], { signals });
+    assertEquals(result.exitCode, EXIT_SIGINT);
+    assertStringIncludes(result.stderr, "Cleanup did not finish within 20ms");
+  } finally {
+    clearTimeout(timer);
+  }
+});
+
+Deno.test("signals: a second signal forces exit", async () => {
+  const signals = new TestSignals();
+  const cli = new CLI({ name: "app", cleanupTimeoutMs: 20 });
+  cli.registerCommand(["wait"], async (_args, _flags, ctx) => {
+    ctx.onAbort(() => signals.send("SIGINT"));
+    signals.send("SIGINT");
+    await new Promise(() => {});
+  });
+  const result = await runCLI(cli, ["wait"], { signals });
+  assertEquals(result.forcedExit, EXIT_SIGINT);
+  assertEquals(result.exitCode, EXIT_SIGINT);
+});
@@ -0,0 +1,173 @@
+/**
+ * src/runtime.ts
+ *
+ * The process-level I/O a CLI run reads from and writes to: stdout, stderr,
+ * stdin, environment variables, the working directory, signals, the tracer
+ * and the meter. `CLI.run` defaults
+ * to the real Deno process, while the testing harness substitutes in-memory
+ * versions.
+ */
+
+import { type Meter, metrics, trace, type Tracer } from "@opentelemetry/api";
+
+/** A text sink such as stdout or stderr. */
+export interface OutputStream {
+  /** Write `text` as-is (no newline is appended). */
+  write(text: string): void;
+  /** Whether the stream is attached to a terminal. */
+  isTerminal(): boolean;
+  /** Width of the terminal in columns, if attached to one. */
+  columns?(): number | undefined;
+}
+
+/** A byte source such as stdin. */
+export interface InputStream {
+  /** The underlying byte stream. */
+  readonly readable: ReadableStream<Uint8Array>;
+  /** Whether the stream is attached to a terminal. */
+  isTerminal(): boolean;
+  /**
+   * Switch a terminal into (or out of) raw mode, where keys are delivered
+   * one at a time without echo. Used by interactive prompts.
+   */
+  setRaw?(raw: boolean): void;
+}
+
+/** Read-only view of environment variables. */
+export interface EnvSource {
+  /** Return the value of `key`, or `undefined` if unset or not permitted. */
+  get(key: string): string | undefined;
+  /** Return all visible variables as a plain object. */
+  toObject(): Record<string, string>;
+}
+
+/** Signals that cancel a run. */
+export type ExitSignal = "SIGINT" | "SIGTERM";
+
+/** Delivers process signals. */
+export interface SignalSource {
+  /**
+   * Call `handler` each time the process receives `signal`. While a handler
+   * is registered the signal no longer terminates the process.
+   *
+   * @returns A function that removes the handler.
+   */
+  listen(signal: ExitSignal, handler: () => void): () => void;
+}
+
+/** Everything a CLI run needs from its host process. */
+export interface CLIRuntime {
+  stdout: OutputStream;
+  stderr: OutputStream;
+  stdin: InputStream;
+  env: EnvSource;
+  signals: SignalSource;
+  /** The working directory (where the project config search starts). */
+  cwd(): string;
+  /** End the process immediately (used when a second Ctrl-C forces exit). */
+  exit(code: number): void;
+  tracer: Tracer;
+  meter: Meter;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Wrap a Deno writer as an `OutputStream`, writing synchronously so output
+ * from different sources keeps its order.
+ *
+ * @param file - `Deno.stdout` or `Deno.stderr`.
+ * @returns An `OutputStream` backed by the file.
+ */
+function denoOutput(file: typeof Deno.stdout): OutputStream {
+  return {
+    write(text: string): void {
+      const bytes = encoder.encode(text);
+      let written = 0;
+      while (written < bytes.length) {
+        written += file.writeSync(bytes.subarray(written));
+      }
+    },
+    isTerminal: () => file.isTerminal(),
+    columns(): number | undefined {
+      try {
+        return file.isTerminal() ? Deno.consoleSize().columns : undefined;
+      } catch {
+        return undefined;
+      }
+    },
+  };
+}
+
+/**
+ * Environment access that respects Deno's permission model: variables the
+ * process may not read appear unset.
+ */
+const denoEnv: EnvSource = {
+  get(key: string): string | undefined {
+    return Deno.permissions.querySync({ name: "env", variable: key })
+        .state === "granted"
+      ? Deno.env.get(key)
+      : undefined;
+  },
+  toObject(): Record<string, string> {
+    return Deno.permissions.querySync({ name: "env" }).state === "granted"
+      ? Deno.env.toObject()
+      : {};
+  },
+};
+
+/**
+ * Signal delivery through `Deno.addSignalListener`. Signals the platform
+ * cannot listen for (SIGTERM on Windows) are ignored.
+ */
+const denoSignals: SignalSource = {
+  listen(signal: ExitSignal, handler: () => void): () => void {
+    try {
+      Deno.addSignalListener(signal, handler);
+    } catch {
+      return () => {};
+    }
+    return () => Deno.removeSignalListener(signal, handler);
+  },
+};
+
+/**
+ * Build a runtime backed by the real Deno process.
+ *
+ * @returns A `CLIRuntime` for `Deno.stdout`, `Deno.stderr`, `Deno.stdin`,
+ *          `Deno.env`, process signals and the globally registered tracer
+ *          and meter.
+ */
+export function denoRuntime(): CLIRuntime {
+  return {
+    stdout: denoOutput(Deno.stdout),
+    stderr: denoOutput(Deno.stderr),
+    stdin: {
+      get readable() {
+        return Deno.stdin.readable;
+      },
+      isTerminal: () => Deno.stdin.isTerminal(),
+      setRaw: (raw) => Deno.stdin.setRaw(raw),
+    },
+    env: denoEnv,
+    signals: denoSignals,
+    cwd: () => Deno.cwd(),
+    exit: (code) => Deno.exit(code),
+    tracer: trace.getTracer("generic-cli"),
+    meter: metrics.getMeter("generic-cli"),
+  };
+}
+
+/**
+ * Create an `EnvSource` over a fixed set of variables.
+ *
+ * @param vars - The variables to expose.
+ * @returns An `EnvSource` reading from `vars`.
+ */
+export function envFromObject(vars: Record<string, string>): EnvSource {
+  return {
+    get: (key) => vars[key],
+    toObject: () => ({ ...vars }),
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * src/telemetry/metrics.ts
+ *
+ * A minimal `Meter` that aggregates counters, up/down counters, gauges and
+ * histograms in memory (cumulatively, per attribute set) until they are
+ * exported alongside the run's spans.
+ */
+
+import {
+  type Attributes,
+  type BatchObservableCallback,
+  type Counter,
+  createNoopMeter,
+  type Gauge,
+  type Histogram,
+  type Meter,
+  type MetricOptions,
+  type Observable,
+  type ObservableCounter,
+  type ObservableGauge,
+  type ObservableUpDownCounter,
+  type UpDownCounter,
+} from "@opentelemetry/api";
+
+/** The kind of instrument a metric was recorded with. */
+export type MetricKind = "counter" | "upDownCounter" | "gauge" | "histogram";
+
+/** Aggregated value of one metric for one attribute set. */
+export interface MetricPoint {
+  attributes: Attributes;
+  /** Sum (counters, histograms) or last recorded value (gauges). */
+  value: number;
+  /** Number of recordings. */
+  count: number;
+  min: number;
+  max: number;
+  /** Per-bucket counts (histograms only); one more than `boundaries`. */
+  buckets?: number[];
+  /** Milliseconds since epoch of the last recording. */
+  time: number;
+}
+
+/** A metric and its aggregated points, as returned by `collect()`. */
+export interface CollectedMetric {
+  name: string;
+  kind: MetricKind;
+  description?: string;
+  unit?: string;
+  /** Histogram bucket upper bounds. */
+  boundaries?: number[];
+  /** Milliseconds since epoch when the instrument was created. */
+  startTime: number;
+  points: MetricPoint[];
+}
+
+/** Default histogram bucket bounds, as used by the OpenTelemetry SDKs. */
+export const DEFAULT_BOUNDARIES: readonly number[] = [
+  0,
+  5,
+  10,
+  25,
+  50,
+  75,
+  100,
+  250,
+  500,
+  750,
+  1000,
+  2500,
+  5000,
+  7500,
+  10000,
+];
+
+/**
+ * Stable key for an attribute set, independent of key order.
+ *
+ * @param attributes - The attributes.
+ * @returns A string identifying the set.
+ */
+function attributesKey(attributes: Attributes): string {
+  return JSON.stringify(
+    Object.keys(attributes).sort().map((key) => [key, attributes[key]]),
+  );
+}
+
+/** Aggregation state behind one named instrument. */
+class Instrument {
+  readonly #points = new Map<string, MetricPoint>();
+  readonly #startTime = Date.now();
+
+  constructor(
+    readonly name: string,
+    readonly kind: MetricKind,
+    readonly options: MetricOptions = {},
+  ) {}
+
+  /**
+   * Fold one measurement into the point for `attributes`.
+   *
+   * @param value - The measurement.
+   * @param attributes - Attributes identifying the point.
+   */
+  record(value: number, attributes: Attributes = {}): void {
+    if (!Number.isFinite(value)) return;
+    if (this.kind === "counter" && value < 0) return;
+    const key = attributesKey(attributes);
+    let point = this.#points.get(key);
+    if (!point) {
+      point = {
+        attributes: { ...attributes },
+        value: 0,
+        count: 0,
+        min: value,
+        max: value,
+        time: Date.now(),
+      };
+      if (this.kind === "histogram") {
+        point.buckets = new Array(this.boundaries.length + 1).fill(0);
+      }
+      this.#points.set(key, point);
+    }
+    point.value = this.kind === "gauge" ? value : point.value + value;
+    point.count++;
+    point.min = Math.min(point.min, value);
+    point.max = Math.max(point.max, value);
+    point.time = Date.now();
+    if (point.buckets) {
+      const idx = this.boundaries.findIndex((bound) => value <= bound);
+      point.buckets[idx === -1 ? this.boundaries.length : idx]++;
+    }
+  }
+
+  /** Histogram bucket upper bounds for this instrument. */
+  get boundaries(): readonly number[] {
+    return this.options.advice?.explicitBucketBoundaries ?? DEFAULT_BOUNDARIES;
+  }
+
+  /**
+   * Snapshot the instrument.
+   *
+   * @returns The collected metric (with copies of its points).
+   */
+  collect(): CollectedMetric {
+    return {
+      name: this.name,
+      kind: this.kind,
+      description: this.options.description,
+      unit: this.options.unit,
+      boundaries: this.kind === "histogram" ? [...this.boundaries] : undefined,
+      startTime: this.#startTime,
+      points: [...this.#points.values()].map((point) => ({
+        ...point,
+        buckets: point.buckets && [...point.buckets],
+      })),
+    };
+  }
+}
+
+/**
+ * A `Meter` that aggregates synchronous instruments in memory for a later
+ * export. Creating an instrument twice under the same name returns the same
+ * aggregation. Observable instruments are accepted but never collected.
+ */
+export class BufferingMeter implements Meter {
+  #instruments = new Map<string, Instrument>();
+  #noop = createNoopMeter();
+
+  /**
+   * Get or create the aggregation for `name`.
+   *
+   * @param name - Metric name.
+   * @param kind - Instrument kind.
+   * @param options - Description, unit and bucket advice.
+   * @returns The instrument.
+   */
+  #instrument(
+    name: string,
+    kind: MetricKind,
+    options?: MetricOptions,
+  ): Instrument {
+    let instrument = this.#instruments.get(name);
+    if (!instrument) {
+      instrument = new Instrument(name, kind, options);
+      this.#instruments.set(name, instrument);
+    }
+    return instrument;
+  }
+
+  createCounter(name: string, options?: MetricOptions): Counter {
+    const instrument = this.#instrument(name, "counter", options);
+    return { add: (value, attributes) => instrument.record(value, attributes) };
+  }
+  createUpDownCounter(name: string, options?: MetricOptions): UpDownCounter {
+    const instrument = this.#instrument(name, "upDownCounter", options);
+    return { add: (value, attributes) => instrument.record(value, attributes) };
+  }
+  createGauge(name: string, options?: MetricOptions): Gauge {
+    const instrument = this.#instrument(name, "gauge", options);
+    return {
+      record: (value, attributes) => instrument.record(value, attributes),
+    };
+  }
+  createHistogram(name: string, options?: MetricOptions): Histogram {
+    const instrument = this.#instrument(name, "histogram", options);
+    return {
+      record: (value, attributes) => instrument.record(value, attributes),
+    };
+  }
+  createObservableGauge(
+    name: string,
+    options?: MetricOptions,
+  ): ObservableGauge {
+    return this.#noop.createObservableGauge(name, options);
+  }
+  createObservableCounter(
+    name: string,
+    options?: MetricOptions,
+  ): ObservableCounter {
+    return this.#noop.createObservableCounter(name, options);
+  }
+  createObservableUpDownCounter(
+    name: string,
+    options?: MetricOptions,
+  ): ObservableUpDownCounter {
+    return this.#noop.createObservableUpDownCounter(name, options);
+  }
+  addBatchObservableCallback(
+    _callback: BatchObservableCallback,
+    _observables: Observable[],
+  ): void {}
+  removeBatchObservableCallback(
+    _callback: BatchObservableCallback,
+    _observables: Observable[],
+  ): void {}
+
+  /**
+   * Snapshot every instrument that has recorded at least one value.
+   *
+   * @returns The collected metrics, in creation order.
+   */
+  collect(): CollectedMetric[] {
+    return [...this.#instruments.values()]
+      .map((instrument) => instrument.collect())
+      .filter((metric) => metric.points.length > 0);
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * src/telemetry/mod.ts
+ *
+ * Barrel file for tracing, metrics and OTLP export.
+ */
+
+export * from "./tracer.ts";
+export * from "./metrics.ts";
+export * from "./otlp.ts";
+export * from "./propagation.ts";
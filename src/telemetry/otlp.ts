@@ -0,0 +1,332 @@
+/**
+ * src/telemetry/otlp.ts
+ *
+ * Encode finished spans and collected metrics as OTLP/JSON and POST them to an
+ * OTLP/HTTP collector (`<endpoint>/v1/traces`, `<endpoint>/v1/metrics`),
+ * configured the way the OpenTelemetry SDKs are: `OTEL_EXPORTER_OTLP_ENDPOINT`,
+ * `OTEL_EXPORTER_OTLP_{TRACES,METRICS}_ENDPOINT`, `OTEL_EXPORTER_OTLP_HEADERS`,
+ * `OTEL_SERVICE_NAME` and `OTEL_RESOURCE_ATTRIBUTES`.
+ */
+
+import type { Attributes, AttributeValue } from "@opentelemetry/api";
+import type { EnvSource } from "../runtime.ts";
+import type { CollectedMetric, MetricPoint } from "./metrics.ts";
+import type { FinishedSpan } from "./tracer.ts";
+
+/** An OTLP signal exported by the CLI. */
+export type OTLPSignal = "traces" | "metrics";
+
+/** Where and how to export one signal. */
+export interface OTLPExporterOptions {
+  /** Full signal URL, e.g. `http://localhost:4318/v1/traces`. */
+  url: string;
+  /** Extra HTTP headers (e.g. authentication). */
+  headers?: Record<string, string>;
+  /** Resource attributes describing the CLI (`service.name`, …). */
+  resource?: Attributes;
+  /** Give up on the request after this many milliseconds (default: 5000). */
+  timeoutMs?: number;
+}
+
+/** OTLP/JSON `AnyValue`. */
+type AnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: AnyValue[] } };
+
+/**
+ * Resolve the OTLP URL for `signal`. Precedence: `--otel-endpoint`, then the
+ * `otel-endpoint` config key, then `OTEL_EXPORTER_OTLP_<SIGNAL>_ENDPOINT`
+ * (used verbatim), then `OTEL_EXPORTER_OTLP_ENDPOINT`. Base endpoints get
+ * `/v1/<signal>` appended.
+ *
+ * @param signal - The signal to export ("traces" or "metrics").
+ * @param flag - Value of `--otel-endpoint`, if given.
+ * @param config - Value of the `otel-endpoint` config key, if any.
+ * @param env - Environment to read the `OTEL_EXPORTER_OTLP_*` variables from.
+ * @returns The signal URL, or `undefined` when exporting is not configured.
+ */
+export function resolveOTLPUrl(
+  signal: OTLPSignal,
+  flag: unknown,
+  config: unknown,
+  env: EnvSource,
+): string | undefined {
+  const base = [flag, config].find((v) => typeof v === "string" && v !== "");
+  if (base === undefined) {
+    const url = env.get(`OTEL_EXPORTER_OTLP_${signal.toUpperCase()}_ENDPOINT`);
+    if (url) return url;
+  }
+  const endpoint = (base as string | undefined) ??
+    env.get("OTEL_EXPORTER_OTLP_ENDPOINT");
+  if (!endpoint) return undefined;
+  // Tolerate an endpoint given with a signal path already attached
+  const trimmed = endpoint.replace(/\/+$/, "").replace(
+    /\/v1\/(traces|metrics)$/,
+    "",
+  );
+  return `${trimmed}/v1/${signal}`;
+}
+
+/**
+ * Parse a `key=value,key2=value2` list, as used by `OTEL_EXPORTER_OTLP_HEADERS`
+ * and `OTEL_RESOURCE_ATTRIBUTES`. Keys and values are URL-decoded.
+ *
+ * @param raw - The raw list (may be undefined).
+ * @returns The parsed pairs.
+ */
+export function parseKeyValueList(raw?: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const pair of (raw ?? "").split(",")) {
+    const eq = pair.indexOf("=");
+    if (eq <= 0) continue;
+    const key = decodeURIComponent(pair.slice(0, eq).trim());
+    out[key] = decodeURIComponent(pair.slice(eq + 1).trim());
+  }
+  return out;
+}
+
+/**
+ * Build the resource attributes for a CLI. `OTEL_RESOURCE_ATTRIBUTES` is
+ * applied first, then `service.name` (`OTEL_SERVICE_NAME` or the CLI name)
+ * and `service.version`.
+ *
+ * @param name - The CLI name.
+ * @param version - The CLI version.
+ * @param env - Environment to read `OTEL_*` variables from.
+ * @returns The resource attributes.
+ */
+export function cliResource(
+  name: string,
+  version: string,
+  env: EnvSource,
+): Attributes {
+  const resource: Attributes = {
+    ...parseKeyValueList(env.get("OTEL_RESOURCE_ATTRIBUTES")),
+    "service.name": env.get("OTEL_SERVICE_NAME") || name || "generic-cli",
+  };
+  if (version) resource["service.version"] = version;
+  return resource;
+}
+
+/**
+ * Encode a single attribute value as an OTLP `AnyValue`.
+ *
+ * @param value - The attribute value.
+ * @returns The encoded value.
+ */
+function encodeValue(value: AttributeValue | null | undefined): AnyValue {
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map((v) => encodeValue(v)) } };
+  }
+  switch (typeof value) {
+    case "boolean":
+      return { boolValue: value };
+    case "number":
+      return Number.isInteger(value)
+        ? { intValue: String(value) }
+        : { doubleValue: value };
+    default:
+      return { stringValue: String(value ?? "") };
+  }
+}
+
+/**
+ * Encode attributes as an OTLP `KeyValue` list, skipping unset values.
+ *
+ * @param attributes - The attributes to encode.
+ * @returns The encoded list.
+ */
+function encodeAttributes(
+  attributes: Attributes = {},
+): { key: string; value: AnyValue }[] {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({ key, value: encodeValue(value) }));
+}
+
+/**
+ * Convert fractional epoch milliseconds to a nanosecond string.
+ *
+ * @param ms - Epoch milliseconds.
+ * @returns Epoch nanoseconds, as OTLP/JSON expects (a decimal string).
+ */
+function toNanos(ms: number): string {
+  const whole = Math.floor(ms);
+  const frac = Math.round((ms - whole) * 1e6);
+  return (BigInt(whole) * 1_000_000n + BigInt(frac)).toString();
+}
+
+/**
+ * Build an OTLP/JSON `ExportTraceServiceRequest` body.
+ *
+ * @param spans - The finished spans to export.
+ * @param resource - Resource attributes shared by all spans.
+ * @returns The request body (serialize with `JSON.stringify`).
+ */
+export function encodeTraces(
+  spans: FinishedSpan[],
+  resource: Attributes = {},
+): Record<string, unknown> {
+  return {
+    resourceSpans: [{
+      resource: { attributes: encodeAttributes(resource) },
+      scopeSpans: [{
+        scope: { name: "generic-cli" },
+        spans: spans.map((span) => ({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+          name: span.name,
+          // OTLP's SpanKind enum reserves 0 for "unspecified"
+          kind: span.kind + 1,
+          startTimeUnixNano: toNanos(span.startTime),
+          endTimeUnixNano: toNanos(span.endTime),
+          attributes: encodeAttributes(span.attributes),
+          events: span.events.map((event) => ({
+            name: event.name,
+            timeUnixNano: toNanos(event.time),
+            attributes: encodeAttributes(event.attributes),
+          })),
+          status: {
+            code: span.status.code,
+            ...(span.status.message ? { message: span.status.message } : {}),
+          },
+        })),
+      }],
+    }],
+  };
+}
+
+/**
+ * Encode one aggregated point as an OTLP number or histogram data point.
+ *
+ * @param metric - The metric the point belongs to.
+ * @param point - The point.
+ * @returns The encoded data point.
+ */
+function encodePoint(
+  metric: CollectedMetric,
+  point: MetricPoint,
+): Record<string, unknown> {
+  const common = {
+    attributes: encodeAttributes(point.attributes),
+    startTimeUnixNano: toNanos(metric.startTime),
+    timeUnixNano: toNanos(point.time),
+  };
+  if (metric.kind === "histogram") {
+    return {
+      ...common,
+      count: String(point.count),
+      sum: point.value,
+      min: point.min,
+      max: point.max,
+      bucketCounts: (point.buckets ?? []).map(String),
+      explicitBounds: metric.boundaries ?? [],
+    };
+  }
+  return Number.isInteger(point.value)
+    ? { ...common, asInt: String(point.value) }
+    : { ...common, asDouble: point.value };
+}
+
+/**
+ * Build an OTLP/JSON `ExportMetricsServiceRequest` body. Sums and histograms
+ * use cumulative temporality.
+ *
+ * @param metrics - The collected metrics to export.
+ * @param resource - Resource attributes shared by all metrics.
+ * @returns The request body (serialize with `JSON.stringify`).
+ */
+export function encodeMetrics(
+  metrics: CollectedMetric[],
+  resource: Attributes = {},
+): Record<string, unknown> {
+  const CUMULATIVE = 2;
+  return {
+    resourceMetrics: [{
+      resource: { attributes: encodeAttributes(resource) },
+      scopeMetrics: [{
+        scope: { name: "generic-cli" },
+        metrics: metrics.map((metric) => {
+          const dataPoints = metric.points.map((p) => encodePoint(metric, p));
+          const data = metric.kind === "gauge"
+            ? { gauge: { dataPoints } }
+            : metric.kind === "histogram"
+            ? { histogram: { dataPoints, aggregationTemporality: CUMULATIVE } }
+            : {
+              sum: {
+                dataPoints,
+                aggregationTemporality: CUMULATIVE,
+                isMonotonic: metric.kind === "counter",
+              },
+            };
+          return {
+            name: metric.name,
+            ...(metric.description ? { description: metric.description } : {}),
+            ...(metric.unit ? { unit: metric.unit } : {}),
+            ...data,
+          };
+        }),
+      }],
+    }],
+  };
+}
+
+/**
+ * POST an OTLP/JSON body to a collector. Resolves once the collector answers
+ * (or the timeout elapses).
+ *
+ * @param body - The encoded export request.
+ * @param options - Target URL, headers and timeout.
+ * @throws Error if the request fails or the collector rejects it.
+ */
+async function post(
+  body: Record<string, unknown>,
+  options: OTLPExporterOptions,
+): Promise<void> {
+  const res = await fetch(options.url, {
+    method: "POST",
+    headers: { ...options.headers, "content-type": "application/json" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(options.timeoutMs ?? 5000),
+  });
+  await res.body?.cancel();
+  if (!res.ok) {
+    throw new Error(
+      `OTLP export to ${options.url} failed: ${res.status} ${res.statusText}`,
+    );
+  }
+}
+
+/**
+ * POST spans to an OTLP/HTTP collector.
+ *
+ * @param spans - The finished spans to export (nothing is sent when empty).
+ * @param options - Target URL, headers, resource and timeout.
+ * @throws Error if the request fails or the collector rejects it.
+ */
+export async function exportSpans(
+  spans: FinishedSpan[],
+  options: OTLPExporterOptions,
+): Promise<void> {
+  if (spans.length === 0) return;
+  await post(encodeTraces(spans, options.resource), options);
+}
+
+/**
+ * POST metrics to an OTLP/HTTP collector.
+ *
+ * @param metrics - The collected metrics (nothing is sent when empty).
+ * @param options - Target URL, headers, resource and timeout.
+ * @throws Error if the request fails or the collector rejects it.
+ */
+export async function exportMetrics(
+  metrics: CollectedMetric[],
+  options: OTLPExporterOptions,
+): Promise<void> {
+  if (metrics.length === 0) return;
+  await post(encodeMetrics(metrics, options.resource), options);
+}
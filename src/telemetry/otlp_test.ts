@@ -0,0 +1,214 @@
+/**
+ * src/telemetry/otlp_test.ts
+ *
+ * OTLP/HTTP export end to end: a CLI run against an in-process collector,
+ * checking the OTLP/JSON payloads, `TRACEPARENT` continuation, the flush
+ * before `run()` resolves, and that a failing collector never changes the
+ * exit code.
+ */
+
+import { assert, assertEquals } from "@std/assert";
+import { CLI } from "../cli/mod.ts";
+import { runCLI } from "../testing.ts";
+import { CLIError } from "../types.ts";
+
+/** An OTLP/JSON `KeyValue`. */
+interface KeyValue {
+  key: string;
+  value: Record<string, unknown>;
+}
+
+/** The parts of an OTLP/JSON span the tests look at. */
+interface EncodedSpan {
+  name: string;
+  traceId: string;
+  parentSpanId?: string;
+  attributes: KeyValue[];
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+}
+
+/** The parts of an OTLP/JSON metric the tests look at. */
+interface EncodedMetric {
+  name: string;
+  sum?: { isMonotonic: boolean; dataPoints: { asInt?: string }[] };
+}
+
+/** An OTLP/JSON export request body, traces or metrics. */
+interface Payload {
+  resourceSpans?: {
+    resource: { attributes: KeyValue[] };
+    scopeSpans: { scope: { name: string }; spans: EncodedSpan[] }[];
+  }[];
+  resourceMetrics?: {
+    resource: { attributes: KeyValue[] };
+    scopeMetrics: { metrics: EncodedMetric[] }[];
+  }[];
+}
+
+/** A request received by the test collector. */
+interface Received {
+  path: string;
+  contentType: string | null;
+  body: Payload;
+}
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const PARENT_SPAN_ID = "00f067aa0ba902b7";
+
+/**
+ * Run `fn` against a collector on a free port that answers every request
+ * with `status`.
+ *
+ * @param status - The HTTP status the collector answers with.
+ * @param fn - Receives the collector's base endpoint and its requests.
+ */
+async function withCollector(
+  status: number,
+  fn: (endpoint: string, received: Received[]) => Promise<void>,
+): Promise<void> {
+  const received: Received[] = [];
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen() {} },
+    async (req) => {
+      received.push({
+        path: new URL(req.url).pathname,
+        contentType: req.headers.get("content-type"),
+        body: await req.json(),
+      });
+      return new Response(null, { status });
+    },
+  );
+  try {
+    await fn(`http://127.0.0.1:${server.addr.port}`, received);
+  } finally {
+    await server.shutdown();
+  }
+}
+
+/**
+ * A CLI whose `deploy` command counts a deployment, and fails with exit
+ * code 3 when given `--fail`.
+ *
+ * @returns The CLI.
+ */
+function deployCLI(): CLI {
+  const cli = new CLI({ name: "app", version: "1.2.3" });
+  cli.registerCommand(["deploy"], (_args, flags, ctx) => {
+    ctx.counter("deploys").add(1, { env: "prod" });
+    if (flags.fail) throw new CLIError("deploy failed", 3);
+  }, { flags: [{ name: "fail", type: "boolean" }] });
+  return cli;
+}
+
+/**
+ * Look up an attribute's value in an OTLP/JSON attribute list.
+ *
+ * @param attributes - The encoded attributes.
+ * @param key - The attribute key.
+ * @returns The encoded value, if present.
+ */
+function attribute(
+  attributes: KeyValue[],
+  key: string,
+): Record<string, unknown> | undefined {
+  return attributes.find((kv) => kv.key === key)?.value;
+}
+
+Deno.test("otlp: spans and metrics are posted before run() resolves", async () => {
+  await withCollector(200, async (endpoint, received) => {
+    const result = await runCLI(deployCLI(), ["deploy"], {
+      env: {
+        OTEL_EXPORTER_OTLP_ENDPOINT: endpoint,
+        TRACEPARENT: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`,
+      },
+    });
+    assertEquals(result.exitCode, 0);
+    // Nothing awaited since run() resolved: the export already happened
+    assertEquals(received.map((r) => r.path).sort(), [
+      "/v1/metrics",
+      "/v1/traces",
+    ]);
+    for (const request of received) {
+      assertEquals(request.contentType, "application/json");
+    }
+
+    const traces = received.find((r) => r.path === "/v1/traces")!.body;
+    const [resourceSpans] = traces.resourceSpans!;
+    assertEquals(
+      attribute(resourceSpans.resource.attributes, "service.name"),
+      { stringValue: "app" },
+    );
+    const [scope] = resourceSpans.scopeSpans;
+    assertEquals(scope.scope, { name: "generic-cli" });
+    const span = scope.spans.find((s) => s.name === "deploy");
+    assert(span, "the command span is exported");
+    assertEquals(span.traceId, TRACE_ID);
+    assertEquals(span.parentSpanId, PARENT_SPAN_ID);
+    assertEquals(attribute(span.attributes, "cli.exit_code"), {
+      intValue: "0",
+    });
+    assert(/^\d+$/.test(span.startTimeUnixNano));
+    assert(/^\d+$/.test(span.endTimeUnixNano));
+
+    const metrics = received.find((r) => r.path === "/v1/metrics")!.body;
+    const [resourceMetrics] = metrics.resourceMetrics!;
+    const encoded = resourceMetrics.scopeMetrics[0].metrics;
+    assert(encoded.some((m) => m.name === "cli.command.duration"));
+    const deploys = encoded.find((m) => m.name === "deploys");
+    assertEquals(deploys?.sum?.isMonotonic, true);
+    assertEquals(deploys?.sum?.dataPoints[0].asInt, "1");
+  });
+});
+
+Deno.test("otlp: a collector answering 5xx does not change the exit code", async () => {
+  await withCollector(503, async (endpoint, received) => {
+    const env = { OTEL_EXPORTER_OTLP_ENDPOINT: endpoint };
+    const ok = await runCLI(deployCLI(), ["deploy"], { env });
+    assertEquals(ok.exitCode, 0);
+    assertEquals(ok.stderr, "");
+    const failed = await runCLI(deployCLI(), ["deploy", "--fail"], { env });
+    assertEquals(failed.exitCode, 3);
+    assert(!failed.stderr.includes("OTLP"));
+    assertEquals(received.length, 4);
+  });
+});
+
+Deno.test("otlp: a collector that is down does not change the exit code", async () => {
+  let endpoint = "";
+  await withCollector(200, (url) => {
+    endpoint = url;
+    return Promise.resolve();
+  });
+  const env = { OTEL_EXPORTER_OTLP_ENDPOINT: endpoint };
+  const ok = await runCLI(deployCLI(), ["deploy"], { env });
+  assertEquals(ok.exitCode, 0);
+  assertEquals(ok.stderr, "");
+  const failed = await runCLI(deployCLI(), ["deploy", "--fail"], { env });
+  assertEquals(failed.exitCode, 3);
+});
+
+Deno.test("otlp: a traces-only endpoint exports spans alone", async () => {
+  await withCollector(200, async (endpoint, received) => {
+    const result = await runCLI(deployCLI(), ["deploy"], {
+      env: { OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: `${endpoint}/v1/traces` },
+    });
+    assertEquals(result.exitCode, 0);
+    assertEquals(received.map((r) => r.path), ["/v1/traces"]);
+    const [resourceSpans] = received[0].body.resourceSpans!;
+    assert(resourceSpans.scopeSpans[0].spans.some((s) => s.name === "deploy"));
+    // Metrics stay with the runtime's meter
+    assert(result.metrics.some((m) => m.name === "cli.command.duration"));
+  });
+});
+
+Deno.test("otlp: a metrics-only endpoint exports metrics alone", async () => {
+  await withCollector(200, async (endpoint, received) => {
+    const result = await runCLI(deployCLI(), ["deploy"], {
+      env: { OTEL_EXPORTER_OTLP_METRICS_ENDPOINT: `${endpoint}/v1/metrics` },
+    });
+    assertEquals(result.exitCode, 0);
+    assertEquals(received.map((r) => r.path), ["/v1/metrics"]);
+    assert(result.spans.some((span) => span.name === "deploy"));
+  });
+});
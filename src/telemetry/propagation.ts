@@ -0,0 +1,62 @@
+/**
+ * src/telemetry/propagation.ts
+ *
+ * W3C Trace Context support: continue a trace started by a parent process
+ * that passes its span in the `TRACEPARENT` environment variable.
+ */
+
+import {
+  type Context,
+  ROOT_CONTEXT,
+  type SpanContext,
+  trace,
+} from "@opentelemetry/api";
+
+const TRACEPARENT =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Parse a `traceparent` header value (`00-<trace-id>-<span-id>-<flags>`).
+ *
+ * @param value - The header value, e.g. from `TRACEPARENT`.
+ * @returns The remote span context, or `undefined` if absent or malformed.
+ */
+export function parseTraceparent(value?: string): SpanContext | undefined {
+  const match = TRACEPARENT.exec(value?.trim().toLowerCase() ?? "");
+  if (!match) return undefined;
+  const [, version, traceId, spanId, flags] = match;
+  if (
+    version === "ff" || /^0+$/.test(traceId) || /^0+$/.test(spanId)
+  ) {
+    return undefined;
+  }
+  return {
+    traceId,
+    spanId,
+    traceFlags: parseInt(flags, 16),
+    isRemote: true,
+  };
+}
+
+/**
+ * Format a span context as a `traceparent` value, for handing the current
+ * trace to child processes.
+ *
+ * @param span - The span context to format.
+ * @returns The `traceparent` value.
+ */
+export function formatTraceparent(span: SpanContext): string {
+  const flags = (span.traceFlags & 0xff).toString(16).padStart(2, "0");
+  return `00-${span.traceId}-${span.spanId}-${flags}`;
+}
+
+/**
+ * Build the parent context for a run from a `traceparent` value.
+ *
+ * @param value - The `TRACEPARENT` value, if any.
+ * @returns A context carrying the remote span, or `undefined` if none.
+ */
+export function parentContext(value?: string): Context | undefined {
+  const remote = parseTraceparent(value);
+  return remote ? trace.setSpanContext(ROOT_CONTEXT, remote) : undefined;
+}
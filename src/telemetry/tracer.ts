@@ -0,0 +1,233 @@
+/**
+ * src/telemetry/tracer.ts
+ *
+ * A minimal `Tracer` that records finished spans in memory until they are
+ * exported. Parent/child relationships come from the OTEL `Context` passed to
+ * `startSpan` (or the active context), so spans nest without a global SDK.
+ */
+
+import {
+  type Attributes,
+  type AttributeValue,
+  type Context,
+  context as otelContext,
+  type Exception,
+  type Link,
+  type Span,
+  type SpanContext,
+  SpanKind,
+  type SpanOptions,
+  type SpanStatus,
+  SpanStatusCode,
+  type TimeInput,
+  trace,
+  TraceFlags,
+  type Tracer,
+} from "@opentelemetry/api";
+
+/** A span that has ended and is waiting to be exported. */
+export interface FinishedSpan {
+  name: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  kind: SpanKind;
+  /** Milliseconds since epoch (fractional). */
+  startTime: number;
+  /** Milliseconds since epoch (fractional). */
+  endTime: number;
+  attributes: Attributes;
+  status: SpanStatus;
+  events: { name: string; time: number; attributes?: Attributes }[];
+}
+
+/**
+ * Current wall-clock time in fractional epoch milliseconds.
+ *
+ * @returns High-resolution epoch milliseconds.
+ */
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * Convert an OTEL `TimeInput` to fractional epoch milliseconds.
+ *
+ * @param time - A Date, epoch millis, or `[seconds, nanos]` tuple.
+ * @returns Epoch milliseconds (now, when `time` is undefined).
+ */
+function toMillis(time?: TimeInput): number {
+  if (time === undefined) return now();
+  if (time instanceof Date) return time.getTime();
+  if (Array.isArray(time)) return time[0] * 1e3 + time[1] / 1e6;
+  return time;
+}
+
+/**
+ * Random lowercase hex id of `bytes` bytes.
+ *
+ * @param bytes - Number of random bytes (16 for trace ids, 8 for span ids).
+ * @returns The hex-encoded id.
+ */
+function randomId(bytes: number): string {
+  const buf = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(buf, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** `Span` implementation that reports itself to `onEnd` once ended. */
+class BufferedSpan implements Span {
+  #data: FinishedSpan;
+  #ended = false;
+
+  constructor(
+    data: Omit<FinishedSpan, "endTime">,
+    private readonly onEnd: (span: FinishedSpan) => void,
+  ) {
+    this.#data = { ...data, endTime: data.startTime };
+  }
+
+  spanContext(): SpanContext {
+    return {
+      traceId: this.#data.traceId,
+      spanId: this.#data.spanId,
+      traceFlags: TraceFlags.SAMPLED,
+    };
+  }
+  setAttribute(key: string, value: AttributeValue): this {
+    if (!this.#ended) this.#data.attributes[key] = value;
+    return this;
+  }
+  setAttributes(attributes: Attributes): this {
+    if (!this.#ended) Object.assign(this.#data.attributes, attributes);
+    return this;
+  }
+  addEvent(
+    name: string,
+    attributesOrTime?: Attributes | TimeInput,
+    time?: TimeInput,
+  ): this {
+    if (this.#ended) return this;
+    const isTime = typeof attributesOrTime === "number" ||
+      attributesOrTime instanceof Date || Array.isArray(attributesOrTime);
+    this.#data.events.push({
+      name,
+      time: toMillis(isTime ? attributesOrTime as TimeInput : time),
+      attributes: isTime ? undefined : attributesOrTime as Attributes,
+    });
+    return this;
+  }
+  addLink(_link: Link): this {
+    return this;
+  }
+  addLinks(_links: Link[]): this {
+    return this;
+  }
+  setStatus(status: SpanStatus): this {
+    if (!this.#ended) this.#data.status = status;
+    return this;
+  }
+  updateName(name: string): this {
+    if (!this.#ended) this.#data.name = name;
+    return this;
+  }
+  end(endTime?: TimeInput): void {
+    if (this.#ended) return;
+    this.#ended = true;
+    this.#data.endTime = toMillis(endTime);
+    this.onEnd(this.#data);
+  }
+  isRecording(): boolean {
+    return !this.#ended;
+  }
+  recordException(exception: Exception, time?: TimeInput): void {
+    const attributes: Attributes = {};
+    if (typeof exception === "string") {
+      attributes["exception.message"] = exception;
+    } else {
+      if (exception.name) attributes["exception.type"] = exception.name;
+      if (exception.message) {
+        attributes["exception.message"] = exception.message;
+      }
+      if (exception.stack) attributes["exception.stacktrace"] = exception.stack;
+    }
+    this.addEvent("exception", attributes, time);
+  }
+}
+
+/**
+ * Mark `span` as failed: record `err` as an `exception` event and set an
+ * ERROR status carrying its message.
+ *
+ * @param span - The span to update.
+ * @param err - The error that occurred.
+ * @param redact - Applied to the message and stack trace (e.g. to mask
+ *                 secrets) before they are recorded.
+ */
+export function recordError(
+  span: Span,
+  err: unknown,
+  redact: (text: string) => string = (text) => text,
+): void {
+  const message = redact(err instanceof Error ? err.message : String(err));
+  span.recordException(
+    err instanceof Error
+      ? {
+        name: err.name,
+        message,
+        stack: err.stack === undefined ? undefined : redact(err.stack),
+      }
+      : message,
+  );
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+}
+
+/**
+ * A `Tracer` that buffers finished spans for a later export.
+ */
+export class BufferingTracer implements Tracer {
+  /** Spans that have ended and not yet been drained. */
+  #finished: FinishedSpan[] = [];
+
+  startSpan(name: string, options: SpanOptions = {}, ctx?: Context): Span {
+    const parent = options.root
+      ? undefined
+      : trace.getSpanContext(ctx ?? otelContext.active());
+    return new BufferedSpan(
+      {
+        name,
+        traceId: parent?.traceId ?? randomId(16),
+        spanId: randomId(8),
+        parentSpanId: parent?.spanId,
+        kind: options.kind ?? SpanKind.INTERNAL,
+        startTime: toMillis(options.startTime),
+        attributes: { ...options.attributes },
+        status: { code: SpanStatusCode.UNSET },
+        events: [],
+      },
+      (span) => this.#finished.push(span),
+    );
+  }
+
+  startActiveSpan<F extends (span: Span) => unknown>(
+    name: string,
+    ...rest: unknown[]
+  ): ReturnType<F> {
+    const fn = rest[rest.length - 1] as F;
+    const options = rest.length > 1 ? rest[0] as SpanOptions : undefined;
+    const parent = rest.length > 2 ? rest[1] as Context : undefined;
+    const span = this.startSpan(name, options, parent);
+    const ctx = trace.setSpan(parent ?? otelContext.active(), span);
+    return otelContext.with(ctx, () => fn(span)) as ReturnType<F>;
+  }
+
+  /**
+   * Take every finished span out of the buffer.
+   *
+   * @returns The finished spans, oldest first.
+   */
+  drain(): FinishedSpan[] {
+    const spans = this.#finished;
+    this.#finished = [];
+    return spans;
+  }
+}
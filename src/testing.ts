@@ -0,0 +1,462 @@
+/**
+ * src/testing.ts
+ *
+ * In-process test harness: run a `CLI` with given argv, env, config file
+ * contents and stdin, capturing stdout, stderr, the exit code, spans and
+ * metrics instead of touching the real process. Also benchmarks the cold
+ * and warm cost of commands.
+ */
+
+import type {
+  Attributes,
+  AttributeValue,
+  Context,
+  Exception,
+  Link,
+  Span,
+  SpanContext,
+  SpanOptions,
+  SpanStatus,
+  TimeInput,
+  Tracer,
+} from "@opentelemetry/api";
+import {
+  context as otelContext,
+  SpanStatusCode,
+  trace,
+} from "@opentelemetry/api";
+import { stripAnsiCode } from "@std/fmt/colors";
+import { stringify as stringifyYAML } from "@std/yaml";
+import type { CLI } from "./cli/mod.ts";
+import {
+  envFromObject,
+  type ExitSignal,
+  type OutputStream,
+  type SignalSource,
+} from "./runtime.ts";
+import { BufferingMeter, type CollectedMetric } from "./telemetry/mod.ts";
+import type { CLIConfig, RunResult } from "./types.ts";
+import { renderOutput } from "./utils/output.ts";
+import type { PhaseTiming } from "./utils/profile.ts";
+
+/** A span captured by `RecordingTracer`. */
+export interface RecordedSpan {
+  name: string;
+  /** Sequential id, unique within the tracer. */
+  spanId: string;
+  /** Id of the parent span, for spans started inside another span. */
+  parentSpanId?: string;
+  attributes: Attributes;
+  status: SpanStatus;
+  events: { name: string; attributes?: Attributes }[];
+  exceptions: Exception[];
+  ended: boolean;
+  /** Milliseconds since epoch. */
+  startTime: number;
+  /** Milliseconds since epoch, once ended. */
+  endTime?: number;
+}
+
+/** Convert an OTEL `TimeInput` to epoch milliseconds. */
+function toMillis(time?: TimeInput): number {
+  if (time === undefined) return Date.now();
+  if (time instanceof Date) return time.getTime();
+  if (Array.isArray(time)) return time[0] * 1e3 + time[1] / 1e6;
+  return time;
+}
+
+/** In-memory `Span` that writes into a `RecordedSpan`. */
+class RecordingSpan implements Span {
+  constructor(readonly record: RecordedSpan) {}
+
+  spanContext(): SpanContext {
+    return {
+      traceId: "0".repeat(32),
+      spanId: this.record.spanId,
+      traceFlags: 0,
+    };
+  }
+  setAttribute(key: string, value: AttributeValue): this {
+    this.record.attributes[key] = value;
+    return this;
+  }
+  setAttributes(attributes: Attributes): this {
+    Object.assign(this.record.attributes, attributes);
+    return this;
+  }
+  addEvent(name: string, attributes?: Attributes | TimeInput): this {
+    const attrs = typeof attributes === "object" &&
+        !(attributes instanceof Date) && !Array.isArray(attributes)
+      ? attributes
+      : undefined;
+    this.record.events.push({ name, attributes: attrs });
+    return this;
+  }
+  addLink(_link: Link): this {
+    return this;
+  }
+  addLinks(_links: Link[]): this {
+    return this;
+  }
+  setStatus(status: SpanStatus): this {
+    this.record.status = status;
+    return this;
+  }
+  updateName(name: string): this {
+    this.record.name = name;
+    return this;
+  }
+  end(endTime?: TimeInput): void {
+    if (this.record.ended) return;
+    this.record.ended = true;
+    this.record.endTime = toMillis(endTime);
+  }
+  isRecording(): boolean {
+    return !this.record.ended;
+  }
+  recordException(exception: Exception): void {
+    this.record.exceptions.push(exception);
+  }
+}
+
+/**
+ * A `Tracer` that keeps every span it creates in memory, for assertions.
+ */
+export class RecordingTracer implements Tracer {
+  /** Spans in creation order. */
+  readonly spans: RecordedSpan[] = [];
+
+  startSpan(name: string, options: SpanOptions = {}, ctx?: Context): Span {
+    const parent = options.root
+      ? undefined
+      : trace.getSpanContext(ctx ?? otelContext.active());
+    const record: RecordedSpan = {
+      name,
+      spanId: (this.spans.length + 1).toString(16).padStart(16, "0"),
+      parentSpanId: parent?.spanId,
+      attributes: { ...options.attributes },
+      status: { code: SpanStatusCode.UNSET },
+      events: [],
+      exceptions: [],
+      ended: false,
+      startTime: toMillis(options.startTime),
+    };
+    this.spans.push(record);
+    return new RecordingSpan(record);
+  }
+
+  startActiveSpan<F extends (span: Span) => unknown>(
+    name: string,
+    ...rest: unknown[]
+  ): ReturnType<F> {
+    const fn = rest[rest.length - 1] as F;
+    const options = rest.length > 1 ? rest[0] as SpanOptions : undefined;
+    const parent = rest.length > 2 ? rest[1] as Context : undefined;
+    const span = this.startSpan(name, options, parent);
+    const ctx = trace.setSpan(parent ?? otelContext.active(), span);
+    return otelContext.with(ctx, () => fn(span)) as ReturnType<F>;
+  }
+}
+
+/** In-memory `OutputStream` appending to a shared transcript. */
+class CaptureStream implements OutputStream {
+  text = "";
+
+  constructor(
+    private readonly transcript: { text: string },
+    private readonly terminal: boolean,
+    private readonly width?: number,
+  ) {}
+
+  write(text: string): void {
+    this.text += text;
+    this.transcript.text += text;
+  }
+  isTerminal(): boolean {
+    return this.terminal;
+  }
+  columns(): number | undefined {
+    return this.terminal ? this.width : undefined;
+  }
+}
+
+/**
+ * A `SignalSource` that tests trigger by hand, e.g. from inside a handler or
+ * a timer, to exercise cancellation.
+ */
+export class TestSignals implements SignalSource {
+  #handlers = new Map<ExitSignal, Set<() => void>>();
+
+  listen(signal: ExitSignal, handler: () => void): () => void {
+    const set = this.#handlers.get(signal) ?? new Set();
+    this.#handlers.set(signal, set);
+    set.add(handler);
+    return () => set.delete(handler);
+  }
+
+  /**
+   * Deliver `signal` to the run, as if the process received it.
+   *
+   * @param signal - The signal to send (default: "SIGINT").
+   */
+  send(signal: ExitSignal = "SIGINT"): void {
+    for (const handler of [...this.#handlers.get(signal) ?? []]) handler();
+  }
+}
+
+/**
+ * Keystrokes for driving interactive prompts from scripted stdin, e.g.
+ * `runCLI(cli, ["init"], { tty: true, stdin: `${KEYS.down}${KEYS.enter}` })`.
+ */
+export const KEYS = {
+  up: "\x1b[A",
+  down: "\x1b[B",
+  enter: "\r",
+  space: " ",
+  backspace: "\x7f",
+  ctrlC: "\x03",
+} as const;
+
+/** Options for `runCLI`. */
+export interface RunCLIOptions {
+  /**
+   * Environment variables visible to the run. `HOME` and `XDG_CONFIG_HOME`
+   * default to a temporary directory so the real user config never leaks in.
+   */
+  env?: Record<string, string>;
+  /**
+   * Config file contents, written to `$XDG_CONFIG_HOME/<name>/config.yaml`.
+   * Objects are serialized to YAML.
+   */
+  config?: string | Record<string, unknown>;
+  /**
+   * Working directory of the run, where the project config search starts
+   * (default: the temporary directory, so no real project config is read).
+   */
+  cwd?: string;
+  /**
+   * Data to provide on stdin. With `tty: true` it is read as keystrokes by
+   * interactive prompts (see `KEYS`).
+   */
+  stdin?: string | Uint8Array;
+  /** Signals the run listens to; call `send()` on it to interrupt the run. */
+  signals?: TestSignals;
+  /** Whether stdout/stderr/stdin pretend to be terminals (default: false). */
+  tty?: boolean;
+  /** Terminal width reported with `tty: true` (default: 80). */
+  columns?: number;
+  /** Keep ANSI color codes in captured output (default: false, stripped). */
+  keepColors?: boolean;
+}
+
+/** Everything captured from a `runCLI` invocation. */
+export interface CLITestResult extends RunResult {
+  /** Everything written to stdout. */
+  stdout: string;
+  /** Everything written to stderr. */
+  stderr: string;
+  /** stdout and stderr interleaved in write order. */
+  output: string;
+  /** Spans created during the run. */
+  spans: RecordedSpan[];
+  /** Metrics recorded during the run (including `cli.command.duration`). */
+  metrics: CollectedMetric[];
+  /** Exit code the run tried to force-exit with (after a second signal). */
+  forcedExit?: number;
+}
+
+/**
+ * Run `cli` in-process with `argv`, capturing everything it writes.
+ *
+ * Output from `CLIContext.log/warn/error/debug`, the spinner and `progress`,
+ * help and error reporting is captured per stream and as an interleaved
+ * transcript, along with the run's exit code, recorded spans and metrics.
+ * The run never receives real process signals; use `signals` to send them.
+ *
+ * @typeParam Config - The CLI's configuration type.
+ * @param cli - The CLI instance under test.
+ * @param argv - Raw arguments, as they would appear in `Deno.args`.
+ * @param options - Env, config file contents, stdin and terminal emulation.
+ * @returns The run result plus captured output and spans.
+ */
+export async function runCLI<Config extends CLIConfig>(
+  cli: CLI<Config>,
+  argv: string[],
+  options: RunCLIOptions = {},
+): Promise<CLITestResult> {
+  const tmp = await Deno.makeTempDir({ prefix: "generic-cli-test-" });
+  try {
+    const env: Record<string, string> = {
+      HOME: tmp,
+      XDG_CONFIG_HOME: tmp,
+      ...options.env,
+    };
+    if (options.config !== undefined) {
+      const dir = `${env.XDG_CONFIG_HOME}/${cli.name}`;
+      await Deno.mkdir(dir, { recursive: true });
+      const contents = typeof options.config === "string"
+        ? options.config
+        : stringifyYAML(options.config);
+      await Deno.writeTextFile(`${dir}/config.yaml`, contents);
+    }
+
+    const tty = options.tty ?? false;
+    const transcript = { text: "" };
+    const columns = options.columns ?? 80;
+    const stdout = new CaptureStream(transcript, tty, columns);
+    const stderr = new CaptureStream(transcript, tty, columns);
+    const input = typeof options.stdin === "string"
+      ? new TextEncoder().encode(options.stdin)
+      : options.stdin ?? new Uint8Array();
+    const tracer = new RecordingTracer();
+    const meter = new BufferingMeter();
+    let forcedExit: number | undefined;
+
+    const result = await cli.run(argv, {
+      stdout,
+      stderr,
+      stdin: {
+        readable: new ReadableStream<Uint8Array>({
+          start(controller) {
+            if (input.length) controller.enqueue(input);
+            controller.close();
+          },
+        }),
+        isTerminal: () => tty,
+      },
+      env: envFromObject(env),
+      signals: options.signals ?? new TestSignals(),
+      cwd: () => options.cwd ?? tmp,
+      exit: (code) => {
+        forcedExit ??= code;
+      },
+      tracer,
+      meter,
+    });
+
+    const clean = (s: string) => options.keepColors ? s : stripAnsiCode(s);
+    return {
+      ...result,
+      stdout: clean(stdout.text),
+      stderr: clean(stderr.text),
+      output: clean(transcript.text),
+      spans: tracer.spans,
+      metrics: meter.collect(),
+      forcedExit,
+    };
+  } finally {
+    await Deno.remove(tmp, { recursive: true });
+  }
+}
+
+/**
+ * Render help exactly as `--help` would, without colors, for snapshot
+ * assertions (e.g. with `assertSnapshot` from `@std/testing/snapshot`).
+ *
+ * @typeParam Config - The CLI's configuration type.
+ * @param cli - The CLI instance.
+ * @param path - Command path (empty for top-level help).
+ * @returns The help text, one line per help line.
+ */
+export function helpText<Config extends CLIConfig>(
+  cli: CLI<Config>,
+  path: string[] = [],
+): string {
+  return cli.helpLines(path).map(stripAnsiCode).join("\n");
+}
+
+/** Options for `benchmarkCLI`. */
+export interface BenchmarkOptions extends RunCLIOptions {
+  /** Warm invocations per command, after the cold one (default: 10). */
+  runs?: number;
+}
+
+/** Cold and warm cost of one command, as measured by `benchmarkCLI`. */
+export interface CommandBenchmark {
+  /** The argv that was run. */
+  argv: string[];
+  /** Exit code of the cold run. */
+  exitCode: number;
+  /** Duration of the first run on a fresh CLI, in milliseconds. */
+  coldMs: number;
+  /** Median duration of the warm runs, in milliseconds. */
+  warmMs: number;
+  /** Number of warm runs. */
+  runs: number;
+  /** Phase timings of the cold run (see `--profile`). */
+  phases: PhaseTiming[];
+}
+
+/**
+ * Measure what each command costs cold (the first run on a fresh CLI: plugin
+ * and manifest loading, the lazy import) and warm (the median of later runs
+ * on the same CLI). Modules stay imported for the rest of the process, so a
+ * command's cold run only includes its import if nothing imported the
+ * module before; benchmark in a fresh process for exact numbers.
+ *
+ * @typeParam Config - The CLI's configuration type.
+ * @param create - Returns a new CLI, with its commands registered.
+ * @param commands - The argv of each command to measure.
+ * @param options - Number of warm runs, plus the `runCLI` options.
+ * @returns One result per command, in order.
+ */
+export async function benchmarkCLI<Config extends CLIConfig>(
+  create: () => CLI<Config> | Promise<CLI<Config>>,
+  commands: string[][],
+  options: BenchmarkOptions = {},
+): Promise<CommandBenchmark[]> {
+  const { runs = 10, ...runOptions } = options;
+  const results: CommandBenchmark[] = [];
+  for (const argv of commands) {
+    const cli = await create();
+    const cold = await runCLI(cli, argv, runOptions);
+    const warm: number[] = [];
+    for (let i = 0; i < runs; i++) {
+      warm.push((await runCLI(cli, argv, runOptions)).durationMs);
+    }
+    warm.sort((a, b) => a - b);
+    const mid = Math.floor(warm.length / 2);
+    results.push({
+      argv,
+      exitCode: cold.exitCode,
+      coldMs: cold.durationMs,
+      warmMs: warm.length === 0
+        ? NaN
+        : warm.length % 2
+        ? warm[mid]
+        : (warm[mid - 1] + warm[mid]) / 2,
+      runs,
+      phases: cold.phases ?? [],
+    });
+  }
+  return results;
+}
+
+/**
+ * Format `benchmarkCLI` results as a table: one row per command with its
+ * cold and warm cost and the slowest phase of the cold run.
+ *
+ * @param results - The benchmark results.
+ * @returns The table text.
+ */
+export function formatBenchmark(results: CommandBenchmark[]): string {
+  const rows = results.map(({ argv, exitCode, coldMs, warmMs, phases }) => {
+    const slowest = phases.reduce<PhaseTiming | undefined>(
+      (max, timing) => (!max || timing.ms > max.ms ? timing : max),
+      undefined,
+    );
+    return {
+      command: argv.join(" "),
+      exit: exitCode,
+      cold: `${coldMs.toFixed(1)}ms`,
+      warm: `${warmMs.toFixed(1)}ms`,
+      slowest: slowest ? `${slowest.phase} (${slowest.ms.toFixed(1)}ms)` : "",
+    };
+  });
+  return renderOutput(rows, { mode: "table" }, {
+    columns: ["command", "exit", "cold", "warm", {
+      key: "slowest",
+      header: "SLOWEST COLD PHASE",
+    }],
+  });
+}
@@ -5,8 +5,9 @@
  * Refactored for improved type safety (no `any` types).
  */
 
-import type { ZodType } from "zod";
+import type { infer as ZodInfer, ZodType, ZodTypeAny } from "zod";
 import type { CLIContext } from "./context.ts";
+import type { PhaseTiming } from "./utils/profile.ts";
 
 /**
  * Raw flags/options before validation.
@@ -27,13 +28,63 @@ export type CLIConfig = Record<string, unknown>;
 /** Verbosity levels supported. */
 export type Verbosity = "quiet" | "normal" | "verbose";
 
-/** Output modes supported by `--output`. */
-export type OutputMode = "text" | "json" | "yaml";
+/**
+ * Output modes supported by `--output`. "template" is selected with
+ * `--output=template=<template>`.
+ */
+export type OutputMode =
+  | "text"
+  | "json"
+  | "yaml"
+  | "csv"
+  | "tsv"
+  | "ndjson"
+  | "table"
+  | "wide"
+  | "template";
+
+/**
+ * Declaration of a single positional argument.
+ */
+export interface ArgSpec {
+  /** Argument name, shown as `<name>` in usage lines. */
+  name: string;
+  /** Human-readable description (shown in `--help`). */
+  description?: string;
+  /** If true, the argument may be omitted (shown as `[name]`). */
+  optional?: boolean;
+  /** If true, collects all remaining positionals; only valid last. */
+  variadic?: boolean;
+  /**
+   * Zod schema each raw string value is validated (and transformed) with,
+   * e.g. `z.coerce.number().int()`.
+   */
+  schema?: ZodTypeAny;
+}
+
+/** Value type produced by a single `ArgSpec` (string unless it has a schema). */
+type ArgValue<A> = A extends { schema: ZodTypeAny } ? ZodInfer<A["schema"]>
+  : string;
+
+/**
+ * Tuple of validated positional values for a list of `ArgSpec`s.
+ * Optional args become optional elements; a variadic arg becomes a rest
+ * element. Without a literal spec list this falls back to `string[]`.
+ */
+export type ArgTuple<Specs extends readonly ArgSpec[]> = Specs extends
+  readonly [infer H, ...infer T extends readonly ArgSpec[]]
+  ? H extends { variadic: true } ? ArgValue<H>[]
+  : H extends { optional: true } ? [ArgValue<H>?, ...ArgTuple<T>]
+  : [ArgValue<H>, ...ArgTuple<T>]
+  : Specs extends readonly [] ? []
+  : string[];
 
 /**
  * A handler for an individual command, with typed flags.
  *
  * @typeParam Flags - The shape of the flags for this command.
+ * @typeParam Args - The validated positional arguments (see `ArgTuple`).
+ * @typeParam Config - The CLI's configuration (see `configSchema`).
  * @param args - Positional arguments passed to the command.
  * @param flags - Typed, validated flags object.
  * @param ctx - CLIContext instance for logging, tracing, etc.
@@ -41,27 +92,77 @@ export type OutputMode = "text" | "json" | "yaml";
  */
 export type CommandHandler<
   Flags extends Record<string, unknown> = Record<string, unknown>,
+  Args extends unknown[] = string[],
+  Config extends CLIConfig = CLIConfig,
 > = (
-  args: string[],
+  args: Args,
   flags: Flags,
-  ctx: CLIContext,
+  ctx: CLIContext<Config>,
 ) => void | Promise<void>;
 
+/** Primitive value kinds a flag can carry on the command line. */
+export type FlagType = "boolean" | "string" | "number";
+
+/**
+ * Description of a single command-line flag, as used by help, completion
+ * and argument parsing.
+ */
+export interface FlagSpec {
+  /** Long flag name without leading dashes (e.g. "dry-run"). */
+  name: string;
+  /** Value kind of the flag. */
+  type: FlagType;
+  /** If true, the flag may be repeated and collects into an array. */
+  array?: boolean;
+  /** Single-character short alias (e.g. "f" for `-f`). */
+  short?: string;
+  /** Human-readable description. */
+  description?: string;
+  /** Default value applied when the flag is omitted. */
+  default?: unknown;
+  /**
+   * Allowed values, if the flag is an enumeration. A choice ending in "="
+   * (e.g. "template=") accepts any value starting with it.
+   */
+  choices?: string[];
+  /** If true, the flag must be supplied. */
+  required?: boolean;
+  /**
+   * Environment variable read when the flag is not given on the command line
+   * (e.g. "GITHUB_TOKEN"). It takes precedence over config and `default`.
+   */
+  env?: string;
+  /**
+   * If true, the value is redacted from logs, error envelopes and spans, its
+   * default is not shown in help, and it can also be read from a file or
+   * stdin with `--<name>-file`.
+   */
+  secret?: boolean;
+}
+
 /** Lazy import metadata for deferred command loading. */
 export interface LazyImport {
   /** Path or URL to import the module from. */
   path: string;
   /** Exported symbol name in the module (defaults to "default"). */
   symbol?: string;
+  /**
+   * Exported `CommandOptions` whose `flagsSchema` and `args` replace the
+   * registered ones once the module is imported (for commands registered
+   * from a manifest, which can't hold schemas).
+   */
+  options?: string;
 }
 
 /**
  * Command registration options.
  *
  * @typeParam Flags - The shape of the expected flags for this command.
+ * @typeParam Args - The declared positional arguments.
  */
 export interface CommandOptions<
   Flags extends Record<string, unknown> = Record<string, unknown>,
+  Args extends readonly ArgSpec[] = readonly ArgSpec[],
 > {
   /** Human‐readable description (shown in `--help`). */
   description?: string;
@@ -71,6 +172,17 @@ export interface CommandOptions<
   aliases?: string[];
   /** If true, omit from normal help listing. */
   hidden?: boolean;
+  /**
+   * Heading the command is listed under in the CLI's help (e.g. "Cluster
+   * management"). Subcommands inherit it; uncategorized commands are listed
+   * under "Commands".
+   */
+  category?: string;
+  /**
+   * Position among its sibling commands in help listings: lowest first, and
+   * commands without one last. Ties are sorted by name.
+   */
+  order?: number;
   /**
    * Zod schema for flags parsing; transforms raw options into typed Flags.
    *
@@ -78,6 +190,17 @@ export interface CommandOptions<
    * and output an object matching `Flags`. No use of `any`.
    */
   flagsSchema?: ZodType<Flags, any, unknown>;
+  /**
+   * Explicit flag declarations. Merged over (and overriding, by name) the
+   * flags derived from `flagsSchema`; use this to add short aliases or to
+   * declare flags for commands without a schema.
+   */
+  flags?: FlagSpec[];
+  /**
+   * Positional argument declarations, validated before the handler runs.
+   * The handler then receives the validated values as a typed tuple.
+   */
+  args?: Args;
 }
 
 /**
@@ -108,10 +231,62 @@ export interface CommandNode<
    * Each child node may have its own Flags type.
    */
   children: Map<string, CommandNode>;
+
+  /**
+   * If this node was registered as an alias, the full path of the command
+   * it points to.
+   */
+  aliasOf?: string[];
+}
+
+/** Structured outcome of a single `CLI.run` invocation. */
+export interface RunResult {
+  /** Exit code for the process (0 on success). */
+  exitCode: number;
+  /** The error that ended the run, if any. */
+  error?: unknown;
+  /** Resolved command path (empty if no command was resolved). */
+  command: string[];
+  /** Wall-clock duration of the run, in milliseconds. */
+  durationMs: number;
+  /** Where the run spent its time, phase by phase (see `--profile`). */
+  phases?: PhaseTiming[];
 }
 
 /** A hook that runs before or after each command invocation. */
-export type Middleware = (ctx: CLIContext) => Promise<void> | void;
+export type Middleware<Config extends CLIConfig = CLIConfig> = (
+  ctx: CLIContext<Config>,
+) => Promise<void> | void;
+
+/**
+ * Middleware added with `cli.use`. It wraps the command handler (and the
+ * middleware added after it): `next()` runs the rest of the chain and
+ * resolves once the handler has finished, or rejects with its error.
+ */
+export type CommandMiddleware<Config extends CLIConfig = CLIConfig> = (
+  ctx: CLIContext<Config>,
+  next: () => Promise<void>,
+) => Promise<void> | void;
+
+/** Exit code used for command-line usage errors (bad flags or arguments). */
+export const EXIT_USAGE = 2;
+
+/** Exit code for a run interrupted by SIGINT (Ctrl-C): 128 + 2. */
+export const EXIT_SIGINT = 130;
+
+/** Exit code for a run terminated by SIGTERM: 128 + 15. */
+export const EXIT_SIGTERM = 143;
+
+/** Extra, machine-readable information attached to a `CLIError`. */
+export interface CLIErrorOptions {
+  /**
+   * Stable error code for scripts, e.g. "UNKNOWN_COMMAND". Defaults to
+   * "USAGE_ERROR" for `EXIT_USAGE` and "CLI_ERROR" otherwise.
+   */
+  code?: string;
+  /** Extra fields merged into the json/yaml error envelope (e.g. `issues`). */
+  details?: Record<string, unknown>;
+}
 
 /**
  * Structured CLIError: handlers can throw this to indicate a controlled
@@ -120,16 +295,24 @@ export type Middleware = (ctx: CLIContext) => Promise<void> | void;
 export class CLIError extends Error {
   /** Exit code to return to the shell. */
   readonly exitCode: number;
+  /** Stable, machine-readable error code. */
+  readonly code: string;
+  /** Extra fields for the json/yaml error envelope. */
+  readonly details?: Record<string, unknown>;
 
   /**
    * Create a new CLIError.
    *
    * @param msg - Error message to display.
    * @param exitCode - Exit code (default: 1).
+   * @param options - Error code and envelope details.
    */
-  constructor(msg: string, exitCode = 1) {
+  constructor(msg: string, exitCode = 1, options: CLIErrorOptions = {}) {
     super(msg);
     this.name = "CLIError";
     this.exitCode = exitCode;
+    this.code = options.code ??
+      (exitCode === EXIT_USAGE ? "USAGE_ERROR" : "CLI_ERROR");
+    this.details = options.details;
   }
 }
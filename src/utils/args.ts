@@ -0,0 +1,84 @@
+/**
+ * src/utils/args.ts
+ *
+ * Validate positional arguments against a command's `ArgSpec` declarations
+ * and render them as a usage fragment.
+ */
+
+import { type ArgSpec, CLIError, EXIT_USAGE } from "../types.ts";
+
+/**
+ * Render declared positionals as a usage fragment, e.g.
+ * `<src> [dest] <files...>`.
+ *
+ * @param specs - The declared positional arguments.
+ * @returns The usage fragment (empty string when nothing is declared).
+ */
+export function formatArgsUsage(specs: readonly ArgSpec[] = []): string {
+  return specs.map((spec) => {
+    const name = spec.variadic ? `${spec.name}...` : spec.name;
+    return spec.optional ? `[${name}]` : `<${name}>`;
+  }).join(" ");
+}
+
+/**
+ * Validate raw positionals against declared `ArgSpec`s.
+ *
+ * Checks arity (missing required arguments, unexpected extras), then runs each
+ * value through its Zod `schema`, if any. A variadic spec collects all
+ * remaining values; it requires at least one unless marked `optional`.
+ *
+ * @param args - Raw positional arguments after the command path.
+ * @param specs - The declared positional arguments.
+ * @param usage - Usage line appended to error messages.
+ * @returns The validated values, variadic values spread at the end.
+ * @throws CLIError (exit code `EXIT_USAGE`) on any validation failure.
+ */
+export function validateArgs(
+  args: string[],
+  specs: readonly ArgSpec[],
+  usage: string,
+): unknown[] {
+  const fail = (msg: string): never => {
+    throw new CLIError(`${msg}\nUsage: ${usage}`, EXIT_USAGE, {
+      code: "INVALID_ARGUMENTS",
+      details: { usage },
+    });
+  };
+
+  const out: unknown[] = [];
+  let idx = 0;
+  for (const [i, spec] of specs.entries()) {
+    if (spec.variadic && i !== specs.length - 1) {
+      throw new Error(
+        `Variadic argument <${spec.name}> must be the last argument`,
+      );
+    }
+    const values = spec.variadic
+      ? args.slice(idx)
+      : idx < args.length
+      ? [args[idx]]
+      : [];
+    idx += values.length;
+    if (values.length === 0) {
+      if (!spec.optional) fail(`Missing required argument <${spec.name}>`);
+      continue;
+    }
+    for (const raw of values) {
+      if (!spec.schema) {
+        out.push(raw);
+        continue;
+      }
+      const result = spec.schema.safeParse(raw);
+      if (!result.success) {
+        const issue = result.error.issues[0]?.message ?? "invalid value";
+        fail(`Invalid argument <${spec.name}> "${raw}": ${issue}`);
+      }
+      out.push(result.data);
+    }
+  }
+  if (idx < args.length) {
+    fail(`Unexpected argument: ${args[idx]}`);
+  }
+  return out;
+}
@@ -0,0 +1,104 @@
+/**
+ * src/utils/color.ts
+ *
+ * Resolve whether ANSI colors should be emitted, per output stream, from the
+ * `--color` flag, `NO_COLOR` / `FORCE_COLOR`, the `color` config key and TTY
+ * detection — and enforce that decision on the streams themselves.
+ */
+
+import type { EnvSource, OutputStream } from "../runtime.ts";
+
+/** Values accepted by `--color` (and the `color` config key). */
+export type ColorMode = "auto" | "always" | "never";
+
+/** Whether colors are enabled on each output stream. */
+export interface ColorPolicy {
+  stdout: boolean;
+  stderr: boolean;
+}
+
+const COLOR_MODES: readonly ColorMode[] = ["auto", "always", "never"];
+
+/** Matches SGR (color/style) escape sequences only; cursor control is kept. */
+// deno-lint-ignore no-control-regex
+const SGR = /\x1b\[[0-9;]*m/g;
+
+/**
+ * Remove color/style escape sequences from `text`.
+ *
+ * @param text - Text possibly containing ANSI SGR sequences.
+ * @returns The text without them.
+ */
+export function stripColors(text: string): string {
+  return text.replace(SGR, "");
+}
+
+/**
+ * Decide the color mode. Precedence: `--color` flag, then `NO_COLOR`
+ * (any non-empty value → never), then `FORCE_COLOR` ("0"/"false" → never,
+ * anything else → always), then the `color` config key, then "auto".
+ *
+ * @param flag - Value of `--color`, if given.
+ * @param config - Value of the `color` config key, if any.
+ * @param env - Environment to read `NO_COLOR` / `FORCE_COLOR` from.
+ * @returns The resolved color mode.
+ */
+export function resolveColorMode(
+  flag: unknown,
+  config: unknown,
+  env: EnvSource,
+): ColorMode {
+  if (COLOR_MODES.includes(flag as ColorMode)) return flag as ColorMode;
+  if (env.get("NO_COLOR")) return "never";
+  const force = env.get("FORCE_COLOR");
+  if (force !== undefined && force !== "") {
+    return /^(0|false)$/i.test(force) ? "never" : "always";
+  }
+  if (COLOR_MODES.includes(config as ColorMode)) return config as ColorMode;
+  return "auto";
+}
+
+/**
+ * Turn a color mode into a per-stream policy. In "auto" mode a stream gets
+ * colors only if it is a terminal (and `TERM` isn't "dumb").
+ *
+ * @param mode - The resolved color mode.
+ * @param streams - The stdout and stderr streams.
+ * @param env - Environment to read `TERM` from.
+ * @returns Whether each stream should carry colors.
+ */
+export function resolveColorPolicy(
+  mode: ColorMode,
+  streams: { stdout: OutputStream; stderr: OutputStream },
+  env: EnvSource,
+): ColorPolicy {
+  if (mode !== "auto") {
+    const on = mode === "always";
+    return { stdout: on, stderr: on };
+  }
+  const dumb = env.get("TERM") === "dumb";
+  return {
+    stdout: !dumb && streams.stdout.isTerminal(),
+    stderr: !dumb && streams.stderr.isTerminal(),
+  };
+}
+
+/**
+ * Wrap a stream so color sequences are stripped whenever `enabled()` is
+ * false. Everything that writes through the wrapped stream (loggers, help,
+ * spinners, error reporting) therefore honors the policy.
+ *
+ * @param stream - The stream to wrap.
+ * @param enabled - Returns whether colors are currently allowed.
+ * @returns The wrapped stream.
+ */
+export function colorStream(
+  stream: OutputStream,
+  enabled: () => boolean,
+): OutputStream {
+  return {
+    write: (text) => stream.write(enabled() ? text : stripColors(text)),
+    isTerminal: () => stream.isTerminal(),
+    columns: () => stream.columns?.(),
+  };
+}
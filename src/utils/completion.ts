@@ -0,0 +1,328 @@
+/**
+ * src/utils/completion.ts
+ *
+ * Generate bash, zsh and fish completion scripts by walking the command tree.
+ * Scripts are static: the tree (subcommands, flags, enum choices) is embedded
+ * at generation time, so completing never has to start the CLI.
+ */
+
+import type { CommandNode, FlagSpec } from "../types.ts";
+import { commandFlags, flagSpelling, GLOBAL_FLAGS } from "./flags.ts";
+
+/** Shells that `generateCompletion` can target. */
+export const COMPLETION_SHELLS = ["bash", "zsh", "fish"] as const;
+
+/** One of the supported completion shells. */
+export type CompletionShell = typeof COMPLETION_SHELLS[number];
+
+/** A completable position in the command tree. */
+interface Entry {
+  /** Space-joined command path ("" for the root). */
+  path: string;
+  /** Visible subcommands (and aliases) reachable from this path. */
+  subs: { name: string; desc: string }[];
+  /** Flags accepted at this path (globals plus the command's own). */
+  flags: FlagSpec[];
+}
+
+/**
+ * Collect every completable path in the tree. Hidden commands are skipped,
+ * but aliases (which the registry stores as hidden nodes) are kept as long as
+ * the command they point to is visible.
+ *
+ * @param root - The root CommandNode of the command tree.
+ * @param globals - The global flags, offered at every path.
+ * @returns An array of entries, root first.
+ */
+function collectEntries(root: CommandNode, globals: FlagSpec[]): Entry[] {
+  const entries: Entry[] = [];
+
+  function isVisible(node: CommandNode): boolean {
+    if (!node.options.hidden) return true;
+    if (!node.aliasOf) return false;
+    let target: CommandNode | undefined = root;
+    for (const seg of node.aliasOf) target = target?.children.get(seg);
+    return !!target && !target.options.hidden;
+  }
+
+  function dfs(node: CommandNode, prefix: string[]): void {
+    const children = [...node.children.entries()]
+      .filter(([, child]) => isVisible(child))
+      .sort(([a], [b]) => a.localeCompare(b));
+    entries.push({
+      path: prefix.join(" "),
+      subs: children.map(([name, child]) => ({
+        name,
+        desc: child.options.description ?? "",
+      })),
+      flags: [...globals, ...commandFlags(node.options)],
+    });
+    for (const [seg, child] of children) dfs(child, [...prefix, seg]);
+  }
+  dfs(root, []);
+  return entries;
+}
+
+/**
+ * Quote a string for POSIX shells (bash/zsh) using single quotes.
+ *
+ * @param s - The raw string.
+ * @returns The single-quoted string.
+ */
+function shQuote(s: string): string {
+  return `'${s.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Quote a string for fish, where backslashes inside single quotes are escapes.
+ *
+ * @param s - The raw string.
+ * @returns The single-quoted string.
+ */
+function fishQuote(s: string): string {
+  return `'${s.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Turn a CLI name into something usable as a shell function name.
+ *
+ * @param cliName - The CLI name.
+ * @returns A function-name-safe identifier.
+ */
+function fnName(cliName: string): string {
+  return `_${cliName.replace(/[^A-Za-z0-9_]/g, "_")}`;
+}
+
+/**
+ * Every spelling a flag can be typed as (`--name`, `-n`).
+ *
+ * @param flag - The flag description.
+ * @returns The list of spellings.
+ */
+function flagWords(flag: FlagSpec): string[] {
+  const words = [`--${flagSpelling(flag.name)}`];
+  if (flag.short) words.push(`-${flag.short}`);
+  return words;
+}
+
+function bashScript(cliName: string, entries: Entry[]): string {
+  const fn = `${fnName(cliName)}_completions`;
+  const known = entries.filter((e) => e.path).map((e) => shQuote(e.path));
+  const lines: string[] = [
+    `# bash completion for ${cliName}`,
+    `# Generated by \`${cliName} completion bash\`.`,
+    `${fn}() {`,
+    `  local cur="\${COMP_WORDS[COMP_CWORD]}"`,
+    `  local prev="\${COMP_WORDS[COMP_CWORD-1]}"`,
+    `  if [[ "$prev" == "=" ]]; then`,
+    `    prev="\${COMP_WORDS[COMP_CWORD-2]}"`,
+    `  fi`,
+    `  local p="" cand word i`,
+    `  for ((i = 1; i < COMP_CWORD; i++)); do`,
+    `    word="\${COMP_WORDS[i]}"`,
+    `    [[ "$word" == -* || "$word" == "=" ]] && continue`,
+    `    cand="\${p:+$p }$word"`,
+  ];
+  if (known.length) {
+    lines.push(
+      `    case "$cand" in`,
+      `      ${known.join("|")}) p="$cand" ;;`,
+      `    esac`,
+    );
+  }
+  lines.push(
+    `  done`,
+    `  local subs="" flags="" choices=""`,
+    `  case "$p" in`,
+  );
+  for (const entry of entries) {
+    lines.push(`    ${shQuote(entry.path)})`);
+    lines.push(
+      `      subs=${shQuote(entry.subs.map((s) => s.name).join(" "))}`,
+    );
+    lines.push(
+      `      flags=${shQuote(entry.flags.flatMap(flagWords).join(" "))}`,
+    );
+    const withChoices = entry.flags.filter((f) => f.choices?.length);
+    if (withChoices.length) {
+      lines.push(`      case "$prev" in`);
+      for (const flag of withChoices) {
+        lines.push(
+          `        ${flagWords(flag).map(shQuote).join("|")}) choices=${
+            shQuote(flag.choices!.join(" "))
+          } ;;`,
+        );
+      }
+      lines.push(`      esac`);
+    }
+    lines.push(`      ;;`);
+  }
+  lines.push(
+    `  esac`,
+    `  if [[ -n "$choices" ]]; then`,
+    `    COMPREPLY=($(compgen -W "$choices" -- "$cur"))`,
+    `  elif [[ "$cur" == -* ]]; then`,
+    `    COMPREPLY=($(compgen -W "$flags" -- "$cur"))`,
+    `  else`,
+    `    COMPREPLY=($(compgen -W "$subs" -- "$cur"))`,
+    `  fi`,
+    `}`,
+    `complete -F ${fn} ${cliName}`,
+  );
+  return lines.join("\n");
+}
+
+function zshScript(cliName: string, entries: Entry[]): string {
+  const fn = fnName(cliName);
+  const esc = (s: string) => s.replace(/:/g, "\\:");
+  const known = entries.filter((e) => e.path).map((e) => shQuote(e.path));
+  const lines: string[] = [
+    `#compdef ${cliName}`,
+    `# zsh completion for ${cliName}`,
+    `# Generated by \`${cliName} completion zsh\`.`,
+    `${fn}() {`,
+    `  local p="" cand w i`,
+    `  local -a subs flags choices`,
+    `  for ((i = 2; i < CURRENT; i++)); do`,
+    `    w="\${words[i]}"`,
+    `    [[ "$w" == -* ]] && continue`,
+    `    cand="\${p:+$p }$w"`,
+  ];
+  if (known.length) {
+    lines.push(
+      `    case "$cand" in`,
+      `      (${known.join("|")}) p="$cand" ;;`,
+      `    esac`,
+    );
+  }
+  lines.push(
+    `  done`,
+    `  local prev="\${words[CURRENT-1]}"`,
+    `  if [[ "\${words[CURRENT]}" == --*=* ]]; then`,
+    `    prev="\${words[CURRENT]%%=*}"`,
+    `    compset -P '*='`,
+    `  fi`,
+    `  case "$p" in`,
+  );
+  for (const entry of entries) {
+    lines.push(`    (${shQuote(entry.path)})`);
+    lines.push(
+      `      subs=(${
+        entry.subs.map((s) =>
+          shQuote(s.desc ? `${esc(s.name)}:${s.desc}` : esc(s.name))
+        ).join(" ")
+      })`,
+    );
+    lines.push(
+      `      flags=(${
+        entry.flags.flatMap((f) =>
+          flagWords(f).map((w) =>
+            shQuote(f.description ? `${esc(w)}:${f.description}` : esc(w))
+          )
+        ).join(" ")
+      })`,
+    );
+    const withChoices = entry.flags.filter((f) => f.choices?.length);
+    if (withChoices.length) {
+      lines.push(`      case "$prev" in`);
+      for (const flag of withChoices) {
+        lines.push(
+          `        (${flagWords(flag).map(shQuote).join("|")}) choices=(${
+            flag.choices!.map(shQuote).join(" ")
+          }) ;;`,
+        );
+      }
+      lines.push(`      esac`);
+    }
+    lines.push(`      ;;`);
+  }
+  lines.push(
+    `  esac`,
+    `  if (( \${#choices} )); then`,
+    `    compadd -a choices`,
+    `  elif [[ "\${words[CURRENT]}" == -* ]]; then`,
+    `    _describe -t flags 'flag' flags`,
+    `  else`,
+    `    _describe -t commands 'command' subs`,
+    `  fi`,
+    `}`,
+    `compdef ${fn} ${cliName}`,
+  );
+  return lines.join("\n");
+}
+
+function fishScript(cliName: string, entries: Entry[]): string {
+  const fn = `_${fnName(cliName)}`;
+  const known = entries.filter((e) => e.path).map((e) => fishQuote(e.path));
+  const lines: string[] = [
+    `# fish completion for ${cliName}`,
+    `# Generated by \`${cliName} completion fish\`.`,
+    `function ${fn}_path`,
+    `    set -l p ""`,
+    `    for w in (commandline -opc)[2..-1]`,
+    `        string match -q -- '-*' $w; and continue`,
+    `        set -l cand $w`,
+    `        test -n "$p"; and set cand "$p $w"`,
+    `        if contains -- $cand ${known.join(" ")}`,
+    `            set p $cand`,
+    `        end`,
+    `    end`,
+    `    echo $p`,
+    `end`,
+    ``,
+    `function ${fn}_at`,
+    `    set -l p (${fn}_path)`,
+    `    test "$p" = "$argv[1]"`,
+    `end`,
+    ``,
+    `complete -c ${cliName} -f`,
+  ];
+  for (const entry of entries) {
+    const cond = fishQuote(`${fn}_at ${fishQuote(entry.path)}`);
+    for (const sub of entry.subs) {
+      let line = `complete -c ${cliName} -n ${cond} -a ${fishQuote(sub.name)}`;
+      if (sub.desc) line += ` -d ${fishQuote(sub.desc)}`;
+      lines.push(line);
+    }
+    for (const flag of entry.flags) {
+      let line = `complete -c ${cliName} -n ${cond} -l ${
+        fishQuote(flagSpelling(flag.name))
+      }`;
+      if (flag.short) line += ` -s ${fishQuote(flag.short)}`;
+      if (flag.choices?.length) {
+        line += ` -x -a ${fishQuote(flag.choices.join(" "))}`;
+      } else if (flag.type !== "boolean") {
+        line += " -r -F";
+      }
+      if (flag.description) line += ` -d ${fishQuote(flag.description)}`;
+      lines.push(line);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Generate a shell completion script for the given command tree.
+ *
+ * @param shell - Target shell ("bash", "zsh" or "fish").
+ * @param cliName - The name of the CLI binary to complete.
+ * @param root - The root CommandNode of the command tree.
+ * @param globals - The global flags (including those added by plugins).
+ * @returns The completion script, ready to be sourced.
+ */
+export function generateCompletion(
+  shell: CompletionShell,
+  cliName: string,
+  root: CommandNode,
+  globals: FlagSpec[] = GLOBAL_FLAGS,
+): string {
+  const entries = collectEntries(root, globals);
+  switch (shell) {
+    case "bash":
+      return bashScript(cliName, entries);
+    case "zsh":
+      return zshScript(cliName, entries);
+    case "fish":
+      return fishScript(cliName, entries);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * src/utils/completion_test.ts
+ *
+ * The `completion` command: the bash, zsh and fish scripts it generates
+ * from the command tree, and its usage errors.
+ */
+
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { CLI } from "../cli/mod.ts";
+import { runCLI } from "../testing.ts";
+import { EXIT_USAGE } from "../types.ts";
+
+/**
+ * A CLI with a command group, a command with flags and a hidden command.
+ *
+ * @returns The CLI.
+ */
+function completionCLI(): CLI {
+  const cli = new CLI({ name: "app" });
+  cli.registerCommand(["cluster", "create"], () => {}, {
+    description: "Create a cluster",
+    flags: [
+      { name: "size", type: "number", short: "s" },
+      { name: "tier", type: "string", choices: ["free", "pro"] },
+    ],
+  });
+  cli.registerCommand(["internal"], () => {}, { hidden: true });
+  return cli;
+}
+
+/**
+ * Generate the completion script for `shell`.
+ *
+ * @param shell - The shell argument.
+ * @returns The script.
+ */
+async function script(shell: string): Promise<string> {
+  const result = await runCLI(completionCLI(), ["completion", shell]);
+  assertEquals(result.exitCode, 0);
+  assertEquals(result.stderr, "");
+  return result.stdout;
+}
+
+/**
+ * Check a script's syntax with the shell's `-n` mode, if the shell is
+ * installed.
+ *
+ * @param shell - The shell binary.
+ * @param text - The script.
+ */
+async function assertSyntax(shell: string, text: string): Promise<void> {
+  let child: Deno.ChildProcess;
+  try {
+    child = new Deno.Command(shell, {
+      args: ["-n"],
+      stdin: "piped",
+      stdout: "null",
+      stderr: "piped",
+    }).spawn();
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return;
+    throw err;
+  }
+  const writer = child.stdin.getWriter();
+  await writer.write(new TextEncoder().encode(text));
+  await writer.close();
+  const { code, stderr } = await child.output();
+  assertEquals(code, 0, new TextDecoder().decode(stderr));
+}
+
+Deno.test("completion: bash script", async () => {
+  const text = await script("bash");
+  assertStringIncludes(text, "complete -F _app_completions app");
+  assertStringIncludes(text, "subs='cluster completion config help'");
+  assertStringIncludes(text, "'cluster create')");
+  assertStringIncludes(text, "--size -s --tier'");
+  assertStringIncludes(text, "'--tier') choices='free pro' ;;");
+  assert(!text.includes("internal"), "hidden commands are not completed");
+  await assertSyntax("bash", text);
+});
+
+Deno.test("completion: zsh script", async () => {
+  const text = await script("zsh");
+  assert(text.startsWith("#compdef app\n"));
+  assertStringIncludes(text, "'create:Create a cluster'");
+  assertStringIncludes(text, "('--tier') choices=('free' 'pro') ;;");
+  assert(!text.includes("internal"));
+});
+
+Deno.test("completion: fish script", async () => {
+  const text = await script("fish");
+  assertStringIncludes(text, "complete -c app");
+  assertStringIncludes(text, "-a 'create'");
+  assertStringIncludes(text, "-l 'size'");
+  assert(!text.includes("internal"));
+});
+
+Deno.test("completion: a missing or unknown shell is a usage error", async () => {
+  for (const argv of [["completion"], ["completion", "tcsh"]]) {
+    const result = await runCLI(completionCLI(), argv);
+    assertEquals(result.exitCode, EXIT_USAGE);
+    assertStringIncludes(
+      result.stderr,
+      "Usage: app completion [bash|zsh|fish]",
+    );
+  }
+});
+
+Deno.test("completion: the unknown-command help names the CLI", async () => {
+  const result = await runCLI(completionCLI(), ["clustr"]);
+  assertEquals(result.exitCode, EXIT_USAGE);
+  assertStringIncludes(result.stderr, "Usage: app <command>");
+  assertStringIncludes(result.stderr, 'Run "app completion [bash|zsh|fish]"');
+});
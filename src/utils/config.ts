@@ -1,75 +1,644 @@
 /**
  * src/utils/config.ts
  *
- * Load YAML configuration following XDG conventions with fall-backs.
+ * Load configuration in layers — system, user (XDG), project, `--config`,
+ * environment and flags — deep-merged in that order of precedence, while
+ * remembering which layer each effective value came from — and validate the
+ * result against a Zod schema.
  */
 
 import { exists } from "@std/fs";
-import { parse as parseYAML } from "@std/yaml";
+import { parse as parseJsonc } from "@std/jsonc";
+import { resolve } from "@std/path";
+import { parse as parseTOML, stringify as stringifyTOML } from "@std/toml";
+import { parse as parseYAML, stringify as stringifyYAML } from "@std/yaml";
+import { z, type ZodType, type ZodTypeAny, type ZodTypeDef } from "zod";
+import { denoRuntime, type EnvSource } from "../runtime.ts";
+import { type CLIConfig, CLIError, EXIT_USAGE } from "../types.ts";
+import { unwrapSchema } from "./flags.ts";
+
+/** Config layers, from lowest to highest precedence. */
+export const CONFIG_LAYERS = [
+  "system",
+  "user",
+  "project",
+  "explicit",
+  "env",
+  "flags",
+] as const;
+
+/** Name of a config layer. */
+export type ConfigLayerName = typeof CONFIG_LAYERS[number];
+
+/** Layers backed by a file that `config set` / `config edit` can write. */
+export const WRITABLE_CONFIG_LAYERS = ["system", "user", "project"] as const;
+
+/** A file-backed layer `config set` / `config edit` can write. */
+export type WritableConfigLayer = typeof WRITABLE_CONFIG_LAYERS[number];
+
+/** One source of configuration values. */
+export interface ConfigLayer {
+  name: ConfigLayerName;
+  /**
+   * For file layers: the file that was loaded or, if none exists, the file
+   * `config set` would create.
+   */
+  path?: string;
+  /** Whether `path` exists and was loaded. */
+  loaded: boolean;
+  data: CLIConfig;
+  /**
+   * Set when the layer's file can't be used: it does not parse (code
+   * "CONFIG_PARSE_ERROR"), several candidates exist ("CONFIG_AMBIGUOUS"), or
+   * the `--config` file is missing or unreadable ("CONFIG_NOT_FOUND"). The
+   * layer is then empty.
+   */
+  error?: CLIError;
+}
+
+/** Where an effective config value came from. */
+export interface ConfigSource {
+  layer: ConfigLayerName;
+  /** The file, for file layers. */
+  path?: string;
+}
+
+/** One effective (leaf) config value, as listed by `config list`. */
+export interface ConfigEntry {
+  /** Dotted key path, e.g. "db.host". */
+  key: string;
+  value: unknown;
+  source: ConfigSource;
+}
+
+/** One schema violation found by `validateConfig`. */
+export interface ConfigIssue {
+  /** Dotted key path, e.g. "db.port" (empty for the config as a whole). */
+  key: string;
+  message: string;
+  /** The layer the offending value came from, if it is set. */
+  layer?: ConfigLayerName;
+  /** The file, for file layers. */
+  path?: string;
+}
+
+/** Where `loadConfigLayers` looks for files. */
+export interface ConfigSearchOptions {
+  /**
+   * File given with `--config` (loaded as the "explicit" layer); a relative
+   * path is resolved against `cwd`.
+   */
+  explicitPath?: string;
+  /** Environment to read `HOME` / `XDG_CONFIG_HOME` from. */
+  env?: EnvSource;
+  /** Directory the project search starts from (default: `Deno.cwd()`). */
+  cwd?: string;
+}
+
+/**
+ * Whether `value` is a plain object (and so merged key by key).
+ *
+ * @param value - Any value.
+ * @returns True for non-null, non-array objects.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge `override` into `base`: nested objects are merged key by key,
+ * while arrays and scalars in `override` replace those in `base`.
+ *
+ * @param base - Lower-precedence values.
+ * @param override - Higher-precedence values.
+ * @returns A new merged object (inputs are not modified).
+ */
+export function deepMerge(
+  base: Record<string, unknown>,
+  override: Record<string, unknown>,
+): Record<string, unknown> {
+  const out: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    out[key] = isRecord(value) && isRecord(out[key])
+      ? deepMerge(out[key] as Record<string, unknown>, value)
+      : value;
+  }
+  return out;
+}
+
+/**
+ * Read a value by dotted key path, e.g. `getPath(config, "db.host")`.
+ *
+ * @param data - The object to read.
+ * @param key - Dotted key path.
+ * @returns The value, or `undefined` if any segment is missing.
+ */
+export function getPath(data: Record<string, unknown>, key: string): unknown {
+  let value: unknown = data;
+  for (const segment of key.split(".")) {
+    if (!isRecord(value) || !(segment in value)) return undefined;
+    value = value[segment];
+  }
+  return value;
+}
+
+/**
+ * Set a value by dotted key path, creating intermediate objects.
+ *
+ * @param data - The object to modify.
+ * @param key - Dotted key path.
+ * @param value - The value to store.
+ */
+export function setPath(
+  data: Record<string, unknown>,
+  key: string,
+  value: unknown,
+): void {
+  const segments = key.split(".");
+  let node = data;
+  for (const segment of segments.slice(0, -1)) {
+    if (!isRecord(node[segment])) node[segment] = {};
+    node = node[segment] as Record<string, unknown>;
+  }
+  node[segments[segments.length - 1]] = value;
+}
+
+/**
+ * Flatten an object into dotted leaf keys. Arrays are leaves.
+ *
+ * @param data - The object to flatten.
+ * @param prefix - Key prefix (used for recursion).
+ * @returns `[key, value]` pairs, depth first.
+ */
+function leaves(
+  data: Record<string, unknown>,
+  prefix = "",
+): [string, unknown][] {
+  return Object.entries(data).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    return isRecord(value) && Object.keys(value).length
+      ? leaves(value, path)
+      : [[path, value] as [string, unknown]];
+  });
+}
+
+/**
+ * The effective configuration of a run: its layers merged in order, with
+ * the source of every value.
+ */
+export class LayeredConfig {
+  /** The merged configuration. */
+  readonly value: CLIConfig;
+
+  /**
+   * Merge `layers`, later layers taking precedence.
+   *
+   * @param layers - Layers from lowest to highest precedence.
+   */
+  constructor(readonly layers: ConfigLayer[]) {
+    this.value = layers.reduce<CLIConfig>(
+      (merged, layer) => deepMerge(merged, layer.data),
+      {},
+    );
+  }
+
+  /**
+   * Read an effective value.
+   *
+   * @param key - Dotted key path, e.g. "db.host".
+   * @returns The value, or `undefined` if unset.
+   */
+  get(key: string): unknown {
+    return getPath(this.value, key);
+  }
+
+  /**
+   * Find the layer an effective value came from: the highest layer that
+   * sets the key (or, for an object, the highest layer that sets any of
+   * its keys).
+   *
+   * @param key - Dotted key path.
+   * @returns The source, or `undefined` if unset.
+   */
+  source(key: string): ConfigSource | undefined {
+    for (const layer of [...this.layers].reverse()) {
+      if (getPath(layer.data, key) !== undefined) {
+        return { layer: layer.name, path: layer.path };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Every effective leaf value with its source, in key order.
+   *
+   * @returns The entries.
+   */
+  entries(): ConfigEntry[] {
+    return leaves(this.value)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, value]) => ({ key, value, source: this.source(key)! }));
+  }
+
+  /**
+   * Find a layer by name.
+   *
+   * @param name - The layer name.
+   * @returns The layer, if present.
+   */
+  layer(name: ConfigLayerName): ConfigLayer | undefined {
+    return this.layers.find((layer) => layer.name === name);
+  }
+}
+
+/** Reads and writes one config file format. */
+interface ConfigFormat {
+  parse(text: string): unknown;
+  stringify(data: CLIConfig): string;
+}
+
+/** Config file formats, by file extension (in search order). */
+const CONFIG_FORMATS: Record<string, ConfigFormat> = {
+  yaml: { parse: parseYAML, stringify: (data) => stringifyYAML(data) },
+  yml: { parse: parseYAML, stringify: (data) => stringifyYAML(data) },
+  // The JSONC parser (a superset) is used for JSON too: unlike `JSON.parse`
+  // it always reports where a syntax error is
+  json: {
+    parse: parseJsonc,
+    stringify: (data) => `${JSON.stringify(data, null, 2)}\n`,
+  },
+  jsonc: {
+    parse: parseJsonc,
+    stringify: (data) => `${JSON.stringify(data, null, 2)}\n`,
+  },
+  toml: { parse: parseTOML, stringify: stringifyTOML },
+};
+
+/**
+ * The format of a config file, from its extension. Files with any other
+ * extension (such as a `--config` path without one) are read as YAML.
+ *
+ * @param file - Path to the file.
+ * @returns The format.
+ */
+function formatOf(file: string): ConfigFormat {
+  const ext = file.match(/\.([^.\\/]+)$/)?.[1].toLowerCase() ?? "";
+  return CONFIG_FORMATS[ext] ?? CONFIG_FORMATS.yaml;
+}
+
+/**
+ * The files a config may live in, one per supported format.
+ *
+ * @param base - Path without extension, e.g. "~/.config/my-cli/config".
+ * @returns `base.yaml`, `base.yml`, `base.json`, `base.jsonc`, `base.toml`.
+ */
+function candidates(base: string): string[] {
+  return Object.keys(CONFIG_FORMATS).map((ext) => `${base}.${ext}`);
+}
+
+/**
+ * Find the position of a syntax error. Parsers report it in different ways:
+ * a js-yaml style `mark` (0-based), `line` / `column` properties, "line 3,
+ * column 5" or "(3:5)" in the message, or a character offset ("at position
+ * 42") that is resolved against `text`.
+ *
+ * @param err - The error thrown by the parser.
+ * @param text - The text that was parsed.
+ * @returns 1-based line and column, if known.
+ */
+function errorLocation(
+  err: unknown,
+  text: string,
+): { line: number; column: number } | undefined {
+  const { mark, line, column } = (err ?? {}) as {
+    mark?: { line?: unknown; column?: unknown };
+    line?: unknown;
+    column?: unknown;
+  };
+  if (typeof mark?.line === "number" && typeof mark.column === "number") {
+    return { line: mark.line + 1, column: mark.column + 1 };
+  }
+  if (typeof line === "number" && typeof column === "number") {
+    return { line, column };
+  }
+  const message = String((err as Error)?.message ?? err);
+  const match = message.match(/line (\d+),? column (\d+)|\((\d+):(\d+)\)/);
+  if (match) {
+    return {
+      line: Number(match[1] ?? match[3]),
+      column: Number(match[2] ?? match[4]),
+    };
+  }
+  const offset = message.match(/(?:position|offset) (\d+)/);
+  if (!offset) return undefined;
+  const before = text.slice(0, Number(offset[1])).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
 
 /**
- * Attempt to load a YAML config at:
+ * The first line of a parser error, without the position (which is
+ * reported separately).
+ *
+ * @param err - The error thrown by the parser.
+ * @returns What went wrong.
+ */
+function errorReason(err: unknown): string {
+  return String((err as Error)?.message ?? err).split("\n")[0]
+    .replace(/^(Parse error on )?line \d+,? column \d+:\s*/i, "")
+    .replace(
+      /\s*(\(?(at )?line \d+,? column \d+\)?:?|\(\d+:\d+\)|(in \w+ )?at (position|offset) \d+.*)\s*$/,
+      "",
+    );
+}
+
+/**
+ * Build the error for a config file that exists but can't be used.
+ *
+ * @param file - Path to the file.
+ * @param reason - What is wrong with it.
+ * @param location - Where in the file, if known.
+ * @returns A usage error with code "CONFIG_PARSE_ERROR".
+ */
+function parseError(
+  file: string,
+  reason: string,
+  location?: { line: number; column: number },
+): CLIError {
+  const at = location ? `${file}:${location.line}:${location.column}` : file;
+  return new CLIError(`Invalid config file ${at}: ${reason}`, EXIT_USAGE, {
+    code: "CONFIG_PARSE_ERROR",
+    details: { path: file, ...location },
+  });
+}
+
+/**
+ * Whether a file exists and may be read.
+ *
+ * @param file - Path to the file.
+ * @returns True if it can be read.
+ */
+async function readable(file: string): Promise<boolean> {
+  try {
+    return Deno.permissions.querySync({ name: "read", path: file }).state ===
+        "granted" && await exists(file);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read and parse a config file, in the format given by its extension.
+ *
+ * @param file - Path to the file.
+ * @returns The parsed object, or `undefined` if the file can't be read.
+ * @throws {CLIError} "CONFIG_PARSE_ERROR" if the file does not parse or is
+ *         not a mapping.
+ */
+async function readConfigFile(
+  file: string,
+): Promise<Record<string, unknown> | undefined> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(file);
+  } catch {
+    return undefined;
+  }
+  let parsed: unknown;
+  try {
+    parsed = formatOf(file).parse(text);
+  } catch (err) {
+    throw parseError(file, errorReason(err), errorLocation(err, text));
+  }
+  if (isRecord(parsed)) return parsed;
+  if (parsed === null || parsed === undefined) return {};
+  throw parseError(
+    file,
+    `expected a mapping of keys to values, got ${
+      Array.isArray(parsed) ? "a list" : typeof parsed
+    }`,
+  );
+}
+
+/**
+ * Load a layer from the first level of `levels` that has a config file. A
+ * level with several (e.g. `config.yaml` and `config.toml`) is an error, as
+ * is a file that fails to parse; either is recorded on the (empty) layer.
+ * If no level has a file, the layer is empty and points at the first
+ * candidate.
+ *
+ * @param name - Layer name.
+ * @param levels - Candidate files, grouped by directory, in search order.
+ * @returns The layer.
+ */
+async function fileLayer(
+  name: ConfigLayerName,
+  levels: string[][],
+): Promise<ConfigLayer> {
+  for (const level of levels) {
+    const found: string[] = [];
+    for (const path of level) {
+      if (await readable(path)) found.push(path);
+    }
+    if (found.length > 1) {
+      const error = new CLIError(
+        `Found several config files, remove all but one: ${found.join(", ")}`,
+        EXIT_USAGE,
+        { code: "CONFIG_AMBIGUOUS", details: { paths: found } },
+      );
+      return { name, path: found[0], loaded: false, data: {}, error };
+    }
+    if (found.length === 0) continue;
+    const [path] = found;
+    try {
+      const data = await readConfigFile(path);
+      if (data) return { name, path, loaded: true, data };
+    } catch (err) {
+      if (!(err instanceof CLIError)) throw err;
+      return { name, path, loaded: false, data: {}, error: err };
+    }
+  }
+  return { name, path: levels[0]?.[0], loaded: false, data: {} };
+}
+
+/**
+ * Directories from `start` up to the filesystem root.
+ *
+ * @param start - Absolute directory to start from.
+ * @returns `start`, its parent, and so on.
+ */
+function ancestors(start: string): string[] {
+  const dirs: string[] = [];
+  let dir = start.replace(/[\\/]+$/, "") || "/";
+  while (true) {
+    dirs.push(dir);
+    const parent = dir.replace(/[\\/][^\\/]*$/, "") || "/";
+    if (parent === dir) return dirs;
+    dir = parent;
+  }
+}
+
+/**
+ * Load the file layers of a CLI's configuration:
+ *
+ * - system: `/etc/<name>/config.yaml`
+ * - user: `$XDG_CONFIG_HOME/<name>/config.yaml` (default `~/.config`), or
+ *   the legacy `~/.<name>/config.yaml`
+ * - project: the nearest `.<name>.yaml` walking up from `cwd`
+ * - explicit: the file given with `--config`, if any
+ *
+ * Each location may instead hold a `.yml`, `.json`, `.jsonc` or `.toml`
+ * file, parsed according to its extension (a `--config` file with any other
+ * extension is read as YAML). Missing files yield empty layers; so do files
+ * that fail to parse and locations holding more than one file, with the
+ * error recorded on the layer. A missing or unreadable `--config` file is
+ * such an error too.
+ *
+ * @param name - The base name of the application (e.g., "my-cli").
+ * @param options - `--config` path, environment and start directory.
+ * @returns The layers, lowest precedence first.
+ */
+export async function loadConfigLayers(
+  name: string,
+  options: ConfigSearchOptions = {},
+): Promise<ConfigLayer[]> {
+  const env = options.env ?? denoRuntime().env;
+  const home = env.get("HOME") ?? "";
+  const xdg = env.get("XDG_CONFIG_HOME") ?? (home ? `${home}/.config` : "");
+
+  const layers = [
+    await fileLayer("system", [candidates(`/etc/${name}/config`)]),
+    await fileLayer("user", [
+      ...(xdg ? [candidates(`${xdg}/${name}/config`)] : []),
+      ...(home ? [candidates(`${home}/.${name}/config`)] : []),
+    ]),
+  ];
+
+  const cwd = options.cwd ?? Deno.cwd();
+  const project = await fileLayer(
+    "project",
+    ancestors(cwd).map((dir) =>
+      candidates(`${dir === "/" ? "" : dir}/.${name}`)
+    ),
+  );
+  layers.push(
+    project.loaded || project.error
+      ? project
+      : { ...project, path: `${cwd}/.${name}.yaml` },
+  );
+
+  if (options.explicitPath) {
+    const path = resolve(cwd, options.explicitPath);
+    const explicit = await fileLayer("explicit", [[path]]);
+    // A file named on the command line must exist
+    if (!explicit.loaded && !explicit.error) {
+      explicit.error = new CLIError(
+        `Config file not found or not readable: ${path}`,
+        EXIT_USAGE,
+        { code: "CONFIG_NOT_FOUND", details: { path } },
+      );
+    }
+    layers.push(explicit);
+  }
+  return layers;
+}
+
+/**
+ * Validate the merged configuration against `schema`.
+ *
+ * @param config - The layered configuration of the run.
+ * @param schema - Zod schema describing the configuration.
+ * @returns The parsed (typed) configuration.
+ * @throws {CLIError} The first layer's error ("CONFIG_PARSE_ERROR" etc.), if
+ *         a file could not be used; otherwise "INVALID_CONFIG" listing each violation
+ *         with its key and the layer the value came from.
+ */
+export function validateConfig<T>(
+  config: LayeredConfig,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+): T {
+  const broken = config.layers.find((layer) => layer.error);
+  if (broken) throw broken.error;
+  const result = schema.safeParse(config.value);
+  if (result.success) return result.data;
+  const issues: ConfigIssue[] = result.error.issues.map((issue) => {
+    const key = issue.path.join(".");
+    const source = key ? config.source(key) : undefined;
+    return { key, message: issue.message, ...source };
+  });
+  const lines = issues.map(({ key, message, layer, path }) => {
+    const origin = layer ? ` (${layer} layer${path ? `, ${path}` : ""})` : "";
+    return `  ${key ? `${key}: ` : ""}${message}${origin}`;
+  });
+  throw new CLIError(`Invalid config:\n${lines.join("\n")}`, EXIT_USAGE, {
+    code: "INVALID_CONFIG",
+    details: { issues },
+  });
+}
+
+/**
+ * Find the keys a config schema marks with `secret()`.
+ *
+ * @param schema - The CLI's `configSchema`.
+ * @param prefix - Key prefix (used for recursion).
+ * @returns Dotted key paths, e.g. ["github.token"].
+ */
+export function secretConfigKeys(schema: ZodTypeAny, prefix = ""): string[] {
+  const { inner, secret } = unwrapSchema(schema);
+  if (secret) return prefix ? [prefix] : [];
+  if (!(inner instanceof z.ZodObject)) return [];
+  return Object.entries(inner.shape as Record<string, ZodTypeAny>).flatMap((
+    [key, entry],
+  ) => secretConfigKeys(entry, prefix ? `${prefix}.${key}` : key));
+}
+
+/**
+ * Write `data` to a config file, in the format given by its extension, and
+ * create its directory. Comments and formatting in an existing file are not
+ * preserved.
+ *
+ * @param path - The file to write.
+ * @param data - The layer's full contents.
+ */
+export async function writeConfigFile(
+  path: string,
+  data: CLIConfig,
+): Promise<void> {
+  const dir = path.replace(/[\\/][^\\/]*$/, "");
+  if (dir) await Deno.mkdir(dir, { recursive: true });
+  await Deno.writeTextFile(path, formatOf(path).stringify(data));
+}
+
+/**
+ * Attempt to load a config at:
  *   $XDG_CONFIG_HOME/<name>/config.yaml
  *   ~/.<name>/config.yaml
- * (plus .yml variants)
+ * (plus .yml, .json, .jsonc and .toml variants)
  *
  * If `explicitPath` is provided it's tried first (and *only* if supplied).
- * Returns an empty object on any error.
+ * Returns an empty object on any error, including a file that fails to
+ * parse.
  *
+ * @deprecated Use `loadConfigLayers`, which also reads system and project
+ *             files, and merge the layers with `LayeredConfig`.
  * @param name - The base name of the application (e.g., "my-cli").
  * @param explicitPath - An explicit path to a YAML config file.
+ * @param env - Environment to read `HOME` / `XDG_CONFIG_HOME` from.
  * @returns A Record<string, unknown> representing parsed config, or {} on error.
  */
 export async function loadConfigFile(
   name: string,
   explicitPath?: string,
+  env: EnvSource = denoRuntime().env,
 ): Promise<Record<string, unknown>> {
-  const home =
-    (await Deno.permissions.query({ name: "env", variable: "HOME" })).state ===
-        "granted"
-      ? Deno.env.get("HOME")
-      : "";
-  const xdg =
-    (await Deno.permissions.query({ name: "env", variable: "XDG_CONFIG_HOME" }))
-        .state ===
-        "granted"
-      ? Deno.env.get("XDG_CONFIG_HOME")
-      : (home ? `${home}/.config` : "");
-
-  const candidates: string[] = [];
+  const home = env.get("HOME") ?? "";
+  const xdg = env.get("XDG_CONFIG_HOME") ?? (home ? `${home}/.config` : "");
+
+  const levels: string[][] = [];
   if (explicitPath) {
-    candidates.push(explicitPath);
+    levels.push([explicitPath]);
   } else {
-    if (xdg) {
-      candidates.push(
-        `${xdg}/${name}/config.yaml`,
-        `${xdg}/${name}/config.yml`,
-      );
-    }
-    if (home) {
-      candidates.push(
-        `${home}/.${name}/config.yaml`,
-        `${home}/.${name}/config.yml`,
-      );
-    }
-  }
-
-  for (const file of candidates) {
-    try {
-      if (
-        Deno.permissions.querySync({ name: "read", path: file })
-            .state ===
-          "granted" && await exists(file)
-      ) {
-        const raw = await Deno.readTextFile(file);
-        const parsed = parseYAML(raw);
-        if (typeof parsed === "object" && parsed !== null) {
-          return parsed as Record<string, unknown>;
-        }
-      }
-    } catch {
-      /* ignore parse / IO errors */
-    }
+    if (xdg) levels.push(candidates(`${xdg}/${name}/config`));
+    if (home) levels.push(candidates(`${home}/.${name}/config`));
   }
-  return {};
+  return (await fileLayer("user", levels)).data;
 }
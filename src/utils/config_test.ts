@@ -0,0 +1,332 @@
+/**
+ * src/utils/config_test.ts
+ *
+ * Layered configuration: precedence between the system, user, project,
+ * `--config`, env and flag layers, provenance in `config list`, how
+ * `--config` paths are found, and validation against `configSchema`.
+ */
+
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { z } from "zod";
+import { CLI } from "../cli/mod.ts";
+import { runCLI } from "../testing.ts";
+import { EXIT_USAGE } from "../types.ts";
+import { type ConfigLayer, loadConfigLayers } from "./config.ts";
+
+/**
+ * A CLI whose `where` command prints `ctx.config` and its `region` flag.
+ *
+ * @returns The CLI.
+ */
+function configCLI(): CLI<{ region: string; port: number }> {
+  const cli = new CLI({
+    name: "app",
+    configSchema: z.object({
+      region: z.string().default("us-east-1"),
+      port: z.number().default(80),
+    }),
+  });
+  cli.registerCommand(
+    ["where"],
+    (_args, flags, ctx) => {
+      ctx.log(JSON.stringify({ config: ctx.config, region: flags.region }));
+    },
+    { flags: [{ name: "region", type: "string" }] },
+  );
+  return cli;
+}
+
+Deno.test("config: defaults, file, env and flags in precedence order", async () => {
+  const run = async (argv: string[], env: Record<string, string> = {}) => {
+    const result = await runCLI(configCLI(), ["where", ...argv], {
+      config: { region: "eu-west-1", port: 8080 },
+      env,
+    });
+    assertEquals(result.exitCode, 0);
+    return JSON.parse(result.stdout);
+  };
+  const file = await run([]);
+  assertEquals(file.config, { region: "eu-west-1", port: 8080 });
+  assertEquals(file.region, "eu-west-1");
+
+  const env = await run([], { APP_REGION: "ap-south-1", APP_PORT: "9090" });
+  assertEquals(env.config, { region: "ap-south-1", port: 9090 });
+
+  const flag = await run(["--region", "sa-east-1"], {
+    APP_REGION: "ap-south-1",
+  });
+  assertEquals(flag.region, "sa-east-1");
+});
+
+Deno.test("config: a project file overrides the user file", async () => {
+  const cwd = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(`${cwd}/.app.yaml`, "port: 3000\n");
+    const result = await runCLI(configCLI(), ["where"], {
+      config: { region: "eu-west-1", port: 8080 },
+      cwd,
+    });
+    assertEquals(JSON.parse(result.stdout).config, {
+      region: "eu-west-1",
+      port: 3000,
+    });
+  } finally {
+    await Deno.remove(cwd, { recursive: true });
+  }
+});
+
+Deno.test("config: a missing --config file is an error", async () => {
+  const result = await runCLI(configCLI(), [
+    "where",
+    "--config",
+    "/does/not/exist.yaml",
+  ]);
+  assertEquals(result.exitCode, EXIT_USAGE);
+  assertStringIncludes(result.stderr, "/does/not/exist.yaml");
+});
+
+Deno.test("config: a relative --config resolves against the working directory", async () => {
+  const cwd = await Deno.makeTempDir();
+  try {
+    await Deno.mkdir(`${cwd}/conf`);
+    await Deno.writeTextFile(`${cwd}/conf/app.yaml`, "region: ca-central-1\n");
+    const result = await runCLI(configCLI(), [
+      "where",
+      "--config",
+      "conf/app.yaml",
+    ], { cwd });
+    assertEquals(result.exitCode, 0);
+    assertEquals(JSON.parse(result.stdout).config.region, "ca-central-1");
+
+    const layers = await loadConfigLayers("app", {
+      explicitPath: "conf/app.yaml",
+      cwd,
+      env: { get: () => undefined, toObject: () => ({}) },
+    });
+    const explicit = layers.find((layer) => layer.name === "explicit");
+    assertEquals(explicit?.path, `${cwd}/conf/app.yaml`);
+  } finally {
+    await Deno.remove(cwd, { recursive: true });
+  }
+});
+
+Deno.test("config: a missing relative --config names the resolved path", async () => {
+  const cwd = await Deno.makeTempDir();
+  try {
+    const result = await runCLI(configCLI(), [
+      "where",
+      "--config=missing.yaml",
+    ], { cwd });
+    assertEquals(result.exitCode, EXIT_USAGE);
+    assertStringIncludes(result.stderr, `${cwd}/missing.yaml`);
+  } finally {
+    await Deno.remove(cwd, { recursive: true });
+  }
+});
+
+Deno.test("config: config list reports the layer of each value", async () => {
+  const cwd = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(`${cwd}/.app.yaml`, "port: 3000\n");
+    const result = await runCLI(configCLI(), [
+      "config",
+      "list",
+      "--output=json",
+    ], {
+      config: { region: "eu-west-1", port: 8080 },
+      cwd,
+    });
+    assertEquals(result.exitCode, 0);
+    const layers = Object.fromEntries(
+      JSON.parse(result.stdout).map((row: { key: string; layer: string }) => [
+        row.key,
+        row.layer,
+      ]),
+    );
+    assertEquals(layers.region, "user");
+    assertEquals(layers.port, "project");
+  } finally {
+    await Deno.remove(cwd, { recursive: true });
+  }
+});
+
+Deno.test("config: root help lists the layers in precedence order", async () => {
+  const result = await runCLI(configCLI(), ["--help"]);
+  assertStringIncludes(
+    result.stdout,
+    "Config Precedence: flags > env > --config > project > user > system",
+  );
+});
+
+/* ------------------------------------------------------------------ *
+ *  Validation
+ * ------------------------------------------------------------------ */
+
+/**
+ * A CLI with a nested config schema whose `show` command prints
+ * `ctx.config`.
+ *
+ * @returns The CLI.
+ */
+function nestedCLI(): CLI<{ db: { port: number }; region: string }> {
+  const cli = new CLI({
+    name: "app",
+    configSchema: z.object({
+      db: z.object({ port: z.number().default(5432) }).default({}),
+      region: z.string().default("us-east-1"),
+    }),
+  });
+  cli.registerCommand(["show"], (_args, _flags, ctx) => {
+    ctx.log(JSON.stringify(ctx.config));
+  });
+  return cli;
+}
+
+Deno.test("config: schema violations are usage errors", async () => {
+  const result = await runCLI(configCLI(), ["where"], {
+    config: { port: "eighty" },
+  });
+  assertEquals(result.exitCode, EXIT_USAGE);
+  assertStringIncludes(result.stderr, "port");
+});
+
+Deno.test("config: help and --version work with a broken file", async () => {
+  const options = { config: "region: [unclosed\n" };
+  const help = await runCLI(configCLI(), ["--help"], options);
+  assertEquals(help.exitCode, 0);
+  assertStringIncludes(help.stdout, "Usage: app");
+  const version = await runCLI(configCLI(), ["--version"], options);
+  assertEquals(version.exitCode, 0);
+  const command = await runCLI(configCLI(), ["where"], options);
+  assertEquals(command.exitCode, EXIT_USAGE);
+});
+
+Deno.test("config: ctx.config is the parsed config, defaults included", async () => {
+  const result = await runCLI(nestedCLI(), ["show"], {
+    config: { db: {} },
+  });
+  assertEquals(result.exitCode, 0);
+  assertEquals(JSON.parse(result.stdout), {
+    db: { port: 5432 },
+    region: "us-east-1",
+  });
+});
+
+Deno.test("config: violations name the key path, layer and file", async () => {
+  const result = await runCLI(nestedCLI(), ["show", "--output=json"], {
+    config: "db:\n  port: nope\n",
+  });
+  assertEquals(result.exitCode, EXIT_USAGE);
+  const { error } = JSON.parse(result.stderr);
+  assertEquals(error.code, "INVALID_CONFIG");
+  assertEquals(error.issues.length, 1);
+  assertEquals(error.issues[0].key, "db.port");
+  assertEquals(error.issues[0].layer, "user");
+  assertStringIncludes(error.issues[0].path, "/app/config.yaml");
+
+  const env = await runCLI(nestedCLI(), ["show"], {
+    env: { APP_DB__PORT: "nope" },
+  });
+  assertEquals(env.exitCode, EXIT_USAGE);
+  assertStringIncludes(env.stderr, "db.port:");
+  assertStringIncludes(env.stderr, "(env layer)");
+});
+
+Deno.test("config: parse errors report the file, line and column", async () => {
+  const result = await runCLI(nestedCLI(), ["show", "--output=json"], {
+    config: "region: [unclosed\n",
+  });
+  assertEquals(result.exitCode, EXIT_USAGE);
+  const { error } = JSON.parse(result.stderr);
+  assertEquals(error.code, "CONFIG_PARSE_ERROR");
+  assertStringIncludes(error.path, "/app/config.yaml");
+  assertEquals([error.line, error.column], [2, 1]);
+  assertStringIncludes(error.message, `${error.path}:2:1:`);
+});
+
+Deno.test("config: a broken file fails commands without a schema too", async () => {
+  const cli = new CLI({ name: "app" });
+  cli.registerCommand(["show"], () => {});
+  const result = await runCLI(cli, ["show"], { config: "a: [\n" });
+  assertEquals(result.exitCode, EXIT_USAGE);
+  assertStringIncludes(result.stderr, "Invalid config file");
+});
+
+/* ------------------------------------------------------------------ *
+ *  Formats
+ * ------------------------------------------------------------------ */
+
+/** An environment without `HOME`, so only the project layer is searched. */
+const NO_HOME = { get: () => undefined, toObject: () => ({}) };
+
+/**
+ * Load the project layer from a temporary directory holding `files`.
+ *
+ * @param files - File names (relative to the directory) and contents.
+ * @param fn - Receives the directory and the project layer.
+ */
+async function withProject(
+  files: Record<string, string>,
+  fn: (dir: string, layer: ConfigLayer) => void | Promise<void>,
+): Promise<void> {
+  const dir = await Deno.makeTempDir();
+  try {
+    for (const [name, text] of Object.entries(files)) {
+      await Deno.writeTextFile(`${dir}/${name}`, text);
+    }
+    const layers = await loadConfigLayers("app", { cwd: dir, env: NO_HOME });
+    await fn(dir, layers.find((layer) => layer.name === "project")!);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+Deno.test("config: TOML files are parsed by extension", async () => {
+  await withProject({
+    ".app.toml": 'region = "eu-west-1"\n[db]\nport = 5433\n',
+  }, (dir, layer) => {
+    assertEquals(layer.path, `${dir}/.app.toml`);
+    assertEquals(layer.data, { region: "eu-west-1", db: { port: 5433 } });
+  });
+});
+
+Deno.test("config: JSONC files may have comments and trailing commas", async () => {
+  await withProject({
+    ".app.jsonc": '{\n  // where to deploy\n  "region": "eu-west-1",\n}\n',
+  }, (dir, layer) => {
+    assertEquals(layer.path, `${dir}/.app.jsonc`);
+    assertEquals(layer.data, { region: "eu-west-1" });
+  });
+});
+
+Deno.test("config: two formats in one place are CONFIG_AMBIGUOUS", async () => {
+  await withProject({
+    ".app.yaml": "region: eu-west-1\n",
+    ".app.toml": 'region = "us-east-1"\n',
+  }, async (dir) => {
+    const result = await runCLI(nestedCLI(), ["show", "--output=json"], {
+      cwd: dir,
+    });
+    assertEquals(result.exitCode, EXIT_USAGE);
+    const { error } = JSON.parse(result.stderr);
+    assertEquals(error.code, "CONFIG_AMBIGUOUS");
+    assertEquals(error.paths, [`${dir}/.app.yaml`, `${dir}/.app.toml`]);
+  });
+});
+
+Deno.test("config: TOML and JSONC parse errors name the file and line", async () => {
+  const files = {
+    ".app.toml": 'region = "eu-west-1"\nport = \n',
+    ".app.jsonc": '{\n  "region": }\n',
+  };
+  for (const [name, text] of Object.entries(files)) {
+    await withProject({ [name]: text }, (dir, layer) => {
+      const path = `${dir}/${name}`;
+      const error = layer.error!;
+      assertEquals(error.code, "CONFIG_PARSE_ERROR");
+      assertEquals(error.details?.path, path);
+      assertEquals(error.details?.line, 2);
+      assertStringIncludes(error.message, `Invalid config file ${path}:2:`);
+    });
+  }
+});
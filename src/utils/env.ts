@@ -1,42 +1,290 @@
 /**
  * src/utils/env.ts
  *
- * Convert environment variables prefixed with <NAME>_ into an overrides object.
+ * Convert environment variables prefixed with <NAME>_ into an overrides object:
+ * `__` separates nested keys, key names are matched against the config
+ * schema (or the config loaded so far), and values are coerced to the type
+ * that schema or config expects. Also reads flags bound to a variable with
+ * `env`.
  */
 
+import { z, type ZodTypeAny } from "zod";
+import { denoRuntime, type EnvSource } from "../runtime.ts";
+import {
+  type CLIConfig,
+  CLIError,
+  EXIT_USAGE,
+  type FlagSpec,
+} from "../types.ts";
+import { coerceFlagValue, unwrapSchema } from "./flags.ts";
+
+/** What `loadEnvOverrides` matches names and coerces values against. */
+export interface EnvOverrideOptions {
+  /** The CLI's `configSchema`: its keys name, and its types coerce, values. */
+  schema?: ZodTypeAny;
+  /** Config loaded so far (the file layers), used the same way. */
+  known?: CLIConfig;
+  /**
+   * The resolved command's flags: top-level names also match their names
+   * (so `<NAME>_DRY_RUN` sets `dryRun`), and take their flag types.
+   */
+  flags?: FlagSpec[];
+}
+
+/** The value type expected for a key, as far as it is known. */
+type ValueKind =
+  | { type: "string" | "number" | "boolean" | "object" | "unknown" }
+  | { type: "array"; element: ValueKind };
+
+/**
+ * Whether `value` is a plain object.
+ *
+ * @param value - Any value.
+ * @returns True for non-null, non-array objects.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The value type a Zod schema expects.
+ *
+ * @param schema - The schema for one key.
+ * @returns Its kind ("unknown" for anything without an obvious string form).
+ */
+function schemaKind(schema: ZodTypeAny): ValueKind {
+  const { inner } = unwrapSchema(schema);
+  if (inner instanceof z.ZodArray) {
+    return { type: "array", element: schemaKind(inner.element) };
+  }
+  if (inner instanceof z.ZodSet) {
+    return { type: "array", element: schemaKind(inner._def.valueType) };
+  }
+  if (inner instanceof z.ZodNumber || inner instanceof z.ZodBigInt) {
+    return { type: "number" };
+  }
+  if (inner instanceof z.ZodBoolean) return { type: "boolean" };
+  if (inner instanceof z.ZodObject || inner instanceof z.ZodRecord) {
+    return { type: "object" };
+  }
+  if (
+    inner instanceof z.ZodString || inner instanceof z.ZodEnum ||
+    inner instanceof z.ZodNativeEnum
+  ) return { type: "string" };
+  return { type: "unknown" };
+}
+
+/**
+ * The value type implied by a value already in the config.
+ *
+ * @param value - The current value.
+ * @returns Its kind.
+ */
+function valueKind(value: unknown): ValueKind {
+  if (Array.isArray(value)) {
+    return {
+      type: "array",
+      element: value.length ? valueKind(value[0]) : { type: "unknown" },
+    };
+  }
+  if (isRecord(value)) return { type: "object" };
+  if (typeof value === "number" || typeof value === "bigint") {
+    return { type: "number" };
+  }
+  if (typeof value === "boolean") return { type: "boolean" };
+  if (typeof value === "string") return { type: "string" };
+  return { type: "unknown" };
+}
+
+/**
+ * The value type a flag declares.
+ *
+ * @param spec - The flag description.
+ * @returns Its kind (a list of its type for array flags).
+ */
+function flagKind(spec: FlagSpec): ValueKind {
+  return spec.array
+    ? { type: "array", element: { type: spec.type } }
+    : { type: spec.type };
+}
+
 /**
- * Parse primitive env strings into booleans/numbers where obvious.
+ * Split a list value: a JSON array (`["a","b"]`) or comma-separated items
+ * (`a, b`). An empty string is an empty list.
  *
- * @param v - The raw environment variable string.
- * @returns Parsed value: boolean if "true"/"false", number if numeric, else original string.
+ * @param raw - The raw environment variable string.
+ * @returns The items (JSON items keep their types; others are strings).
  */
-function parseEnvValue(v: string): unknown {
-  if (/^(true|false)$/i.test(v)) return v.toLowerCase() === "true";
-  const num = Number(v);
-  if (!Number.isNaN(num)) return num;
-  return v;
+export function parseEnvList(raw: string): unknown[] {
+  if (raw.trim().startsWith("[")) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) return parsed;
+    } catch {
+      /* not JSON; split on commas */
+    }
+  }
+  return raw.trim() === "" ? [] : raw.split(",").map((item) => item.trim());
+}
+
+/**
+ * Convert an env string to the expected type. Values that don't fit are
+ * left as strings, so the schema reports them; without a known type only
+ * JSON arrays and objects are parsed, so "0123" or "1.10" stay strings.
+ *
+ * @param raw - The raw environment variable string.
+ * @param kind - The expected type.
+ * @returns The converted value.
+ */
+function coerceEnvValue(raw: string, kind: ValueKind): unknown {
+  switch (kind.type) {
+    case "number": {
+      const num = Number(raw);
+      return raw.trim() === "" || Number.isNaN(num) ? raw : num;
+    }
+    case "boolean":
+      if (/^(true|yes|1)$/i.test(raw)) return true;
+      if (/^(false|no|0)$/i.test(raw)) return false;
+      return raw;
+    case "array":
+      return parseEnvList(raw).map((item) =>
+        typeof item === "string" ? coerceEnvValue(item, kind.element) : item
+      );
+    case "string":
+      return raw;
+    default:
+      if (/^\s*[[{]/.test(raw)) {
+        try {
+          return JSON.parse(raw);
+        } catch {
+          /* not JSON; keep the string */
+        }
+      }
+      return raw;
+  }
+}
+
+/**
+ * Normalize a key for matching: lower case, without `_` and `-`, so
+ * `LOG_LEVEL` matches `logLevel`, `log-level` and `log_level`.
+ *
+ * @param key - An env name segment or config key.
+ * @returns The normalized key.
+ */
+function normalize(key: string): string {
+  return key.replace(/[_-]/g, "").toLowerCase();
 }
 
 /**
- * Load environment variables prefixed by `<prefix>_`, case-insensitive to '-',
- * and translate them into lower-case config keys.
+ * The keys an object schema declares.
  *
- *   GENERIC_CLI_FOO=bar  -> { foo: "bar" }
- *   generic-cli_BAR=1    -> { bar: 1 }
+ * @param schema - A schema, if any.
+ * @returns Its shape, if it is an object schema.
+ */
+function shapeOf(
+  schema: ZodTypeAny | undefined,
+): Record<string, ZodTypeAny> | undefined {
+  if (!schema) return undefined;
+  const { inner } = unwrapSchema(schema);
+  return inner instanceof z.ZodObject
+    ? inner.shape as Record<string, ZodTypeAny>
+    : undefined;
+}
+
+/**
+ * Load environment variables prefixed by `<prefix>_` (with `-` in the prefix
+ * read as `_`) into a nested overrides object. `__` separates nested keys,
+ * and each key is matched case- and separator-insensitively against the
+ * schema's keys, then the known config's, falling back to kebab-case:
+ *
+ *   MY_CLI_DB__HOST=db     -> { db: { host: "db" } }
+ *   MY_CLI_LOG_LEVEL=debug -> { logLevel: "debug" } (schema has `logLevel`)
+ *   MY_CLI_DRY_RUN=true    -> { dryRun: true } (command has a `dryRun` flag)
+ *   MY_CLI_OTHER_KEY=x     -> { "other-key": "x" } (no known key or type)
+ *
+ * `<prefix>_PROFILE` turns on `--profile` timings and is never read as a
+ * config key.
+ *
+ * Values are coerced to the type the schema (or the known value) has:
+ * numbers, booleans (`true/false/yes/no/1/0`), and lists written as JSON
+ * (`["a","b"]`) or comma-separated (`a,b`). Without a known type only JSON
+ * arrays and objects are parsed; everything else stays a string.
  *
  * @param prefix - The prefix to match (e.g., "generic-cli").
+ * @param env - Environment to scan (defaults to the Deno process).
+ * @param options - Config schema, known config and command flags to match
+ *                  keys against.
  * @returns A Record<string, unknown> mapping parsed environment overrides.
  */
-export function loadEnvOverrides(prefix: string): Record<string, unknown> {
+export function loadEnvOverrides(
+  prefix: string,
+  env: EnvSource = denoRuntime().env,
+  options: EnvOverrideOptions = {},
+): Record<string, unknown> {
   const out: Record<string, unknown> = {};
   const up = prefix.replace(/-/g, "_").toUpperCase();
-  if (Deno.permissions.querySync({ name: "env" }).state === "granted") {
-    for (const [k, v] of Object.entries(Deno.env.toObject())) {
-      if (k.startsWith(`${up}_`)) {
-        const key = k.slice(up.length + 1).toLowerCase();
-        out[key] = parseEnvValue(v);
+  for (const [k, v] of Object.entries(env.toObject())) {
+    if (!k.startsWith(`${up}_`) || k === `${up}_PROFILE`) continue;
+    const segments = k.slice(up.length + 1).split("__");
+    if (segments.some((segment) => segment === "")) continue;
+
+    let schema: ZodTypeAny | undefined = options.schema;
+    let known: unknown = options.known;
+    let node = out;
+    segments.forEach((segment, i) => {
+      const shape = shapeOf(schema);
+      const flags = i === 0 ? options.flags ?? [] : [];
+      const key = [
+        ...Object.keys(shape ?? {}),
+        ...Object.keys(isRecord(known) ? known : {}),
+        ...flags.map((spec) => spec.name),
+      ].find((name) => normalize(name) === normalize(segment)) ??
+        segment.toLowerCase().replace(/_/g, "-");
+      schema = shape?.[key];
+      known = isRecord(known) ? known[key] : undefined;
+      const flag = flags.find((spec) => spec.name === key);
+      if (i < segments.length - 1) {
+        if (!isRecord(node[key])) node[key] = {};
+        node = node[key] as Record<string, unknown>;
+        return;
       }
-    }
+      const kind = schema
+        ? schemaKind(schema)
+        : known !== undefined
+        ? valueKind(known)
+        : flag
+        ? flagKind(flag)
+        : { type: "unknown" as const };
+      node[key] = coerceEnvValue(v, kind);
+    });
   }
   return out;
 }
+
+/**
+ * Read a flag's value from the environment variable bound with `spec.env`.
+ * Array flags take a JSON array (`["a","b"]`) or comma-separated items.
+ *
+ * @param spec - The flag description.
+ * @param env - Environment to read from.
+ * @returns The converted value, or `undefined` if the flag has no binding or
+ *          the variable is unset.
+ * @throws CLIError (exit code `EXIT_USAGE`) naming the variable if its value
+ *         is not valid for the flag.
+ */
+export function envFlagValue(spec: FlagSpec, env: EnvSource): unknown {
+  const raw = spec.env ? env.get(spec.env) : undefined;
+  if (raw === undefined) return undefined;
+  try {
+    if (!spec.array) return coerceFlagValue(spec, raw);
+    return parseEnvList(raw).map((item) =>
+      typeof item === "string" ? coerceFlagValue(spec, item) : item
+    );
+  } catch (err) {
+    if (!(err instanceof CLIError)) throw err;
+    throw new CLIError(`${err.message} (from $${spec.env})`, EXIT_USAGE, {
+      code: err.code,
+      details: { flag: `--${spec.name}`, env: spec.env },
+    });
+  }
+}
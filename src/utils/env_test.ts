@@ -0,0 +1,159 @@
+/**
+ * src/utils/env_test.ts
+ *
+ * `<NAME>_*` environment overrides: nesting, key matching against the
+ * schema, known config and command flags, value coercion, and per-flag `env`
+ * bindings.
+ */
+
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { z } from "zod";
+import { CLI } from "../cli/mod.ts";
+import { envFromObject } from "../runtime.ts";
+import { runCLI } from "../testing.ts";
+import { CLIError, EXIT_USAGE, type FlagSpec } from "../types.ts";
+import { envFlagValue, loadEnvOverrides } from "./env.ts";
+
+/* ------------------------------------------------------------------ *
+ *  loadEnvOverrides
+ * ------------------------------------------------------------------ */
+
+Deno.test("env: __ nests keys and only JSON is parsed without a type", () => {
+  const env = envFromObject({
+    APP_DB__HOST: "db.internal",
+    APP_VERSION: "1.10",
+    APP_ZIP: "0123",
+    APP_PORTS: "[80, 443]",
+    OTHER_KEY: "ignored",
+  });
+  assertEquals(loadEnvOverrides("app", env), {
+    db: { host: "db.internal" },
+    version: "1.10",
+    zip: "0123",
+    ports: [80, 443],
+  });
+});
+
+Deno.test("env: keys and types come from the schema, then known config", () => {
+  const env = envFromObject({
+    MY_CLI_LOG_LEVEL: "debug",
+    MY_CLI_DB__PORT: "5433",
+    MY_CLI_TAGS: "a, b",
+    MY_CLI_RETRIES: "3",
+  });
+  const overrides = loadEnvOverrides("my-cli", env, {
+    schema: z.object({
+      logLevel: z.string(),
+      db: z.object({ port: z.number() }),
+      tags: z.array(z.string()),
+    }),
+    known: { retries: 1 },
+  });
+  assertEquals(overrides, {
+    logLevel: "debug",
+    db: { port: 5433 },
+    tags: ["a", "b"],
+    retries: 3,
+  });
+});
+
+Deno.test("env: top-level keys match the command's flags", () => {
+  const flags: FlagSpec[] = [
+    { name: "dryRun", type: "boolean" },
+    { name: "maxRetries", type: "number" },
+    { name: "label", type: "string", array: true },
+  ];
+  const env = envFromObject({
+    APP_DRY_RUN: "yes",
+    APP_MAX_RETRIES: "0123",
+    APP_LABEL: "a,b",
+    APP_DB__DRY_RUN: "true",
+  });
+  assertEquals(loadEnvOverrides("app", env, { flags }), {
+    dryRun: true,
+    maxRetries: 123,
+    label: ["a", "b"],
+    // Nested keys are config, never flags
+    db: { "dry-run": "true" },
+  });
+});
+
+Deno.test("env: <NAME>_PROFILE is not a config key", () => {
+  const env = envFromObject({ APP_PROFILE: "1", APP_PROFILE__NAME: "x" });
+  assertEquals(loadEnvOverrides("app", env), { profile: { name: "x" } });
+});
+
+/* ------------------------------------------------------------------ *
+ *  Through a run
+ * ------------------------------------------------------------------ */
+
+/**
+ * A CLI whose `deploy` command prints its flags, with a strict config schema
+ * when `strict` is set.
+ *
+ * @param strict - Whether to give the CLI a strict `configSchema`.
+ * @returns The CLI.
+ */
+function deployCLI(strict = false): CLI {
+  const cli = new CLI({
+    name: "app",
+    ...(strict
+      ? { configSchema: z.object({ region: z.string().optional() }).strict() }
+      : {}),
+  });
+  cli.registerCommand(["deploy"], (_args, flags, ctx) => {
+    ctx.log(JSON.stringify(flags));
+  }, {
+    flagsSchema: z.object({
+      dryRun: z.boolean().default(false),
+      token: z.string().optional(),
+    }),
+    flags: [{ name: "token", type: "string", env: "GITHUB_TOKEN" }],
+  });
+  return cli;
+}
+
+Deno.test("env: <NAME>_DRY_RUN reaches a camelCase flag", async () => {
+  const result = await runCLI(deployCLI(), ["deploy"], {
+    env: { APP_DRY_RUN: "true" },
+  });
+  assertEquals(result.exitCode, 0);
+  assertEquals(JSON.parse(result.stdout).dryRun, true);
+  const given = await runCLI(deployCLI(), ["deploy", "--no-dry-run"], {
+    env: { APP_DRY_RUN: "true" },
+  });
+  assertEquals(JSON.parse(given.stdout).dryRun, false);
+});
+
+Deno.test("env: <NAME>_PROFILE stays out of the merged config", async () => {
+  const list = await runCLI(deployCLI(), ["config", "list", "--output=json"], {
+    env: { APP_PROFILE: "1", APP_REGION: "eu-west-1" },
+  });
+  assertEquals(
+    JSON.parse(list.stdout).map((row: { key: string }) => row.key),
+    ["region"],
+  );
+  // A strict schema would reject an unknown `profile` key
+  const run = await runCLI(deployCLI(true), ["deploy"], {
+    env: { APP_PROFILE: "1" },
+  });
+  assertEquals(run.exitCode, 0);
+  assertStringIncludes(run.stderr, "Profile");
+});
+
+Deno.test("env: flags bound with `env` read their variable", async () => {
+  const result = await runCLI(deployCLI(), ["deploy"], {
+    env: { GITHUB_TOKEN: "t0ken" },
+  });
+  assertEquals(JSON.parse(result.stdout).token, "t0ken");
+
+  const spec: FlagSpec = { name: "port", type: "number", env: "PORT" };
+  try {
+    envFlagValue(spec, envFromObject({ PORT: "http" }));
+    throw new Error("no error for PORT=http");
+  } catch (err) {
+    if (!(err instanceof CLIError)) throw err;
+    assertEquals(err.exitCode, EXIT_USAGE);
+    assertStringIncludes(err.message, "(from $PORT)");
+  }
+});
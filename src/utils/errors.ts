@@ -0,0 +1,119 @@
+/**
+ * src/utils/errors.ts
+ *
+ * Report errors on stderr: a red message in text mode, or a structured
+ * envelope (`{ error: { message, code, exitCode, command } }`) in json,
+ * ndjson and yaml mode so scripts can parse failures without scraping text.
+ */
+
+import { red } from "@std/fmt/colors";
+import { stringify as stringifyYAML } from "@std/yaml";
+import {
+  CLIError,
+  EXIT_SIGINT,
+  EXIT_SIGTERM,
+  type OutputMode,
+} from "../types.ts";
+import type { ExitSignal, OutputStream } from "../runtime.ts";
+import type { Redactor } from "./secrets.ts";
+
+/** Machine-readable description of a failed run. */
+export interface ErrorEnvelope {
+  error: {
+    message: string;
+    /** Stable error code (see `CLIError.code`); "INTERNAL_ERROR" otherwise. */
+    code: string;
+    exitCode: number;
+    /** The resolved command path, or `null` if none was resolved. */
+    command: string | null;
+    /** Extra fields from `CLIError.details` (e.g. `issues`). */
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * Build the error envelope for `err`.
+ *
+ * @param err - The error that ended the run.
+ * @param command - The resolved command path (empty if none).
+ * @returns The envelope.
+ */
+export function errorEnvelope(err: unknown, command: string[]): ErrorEnvelope {
+  const cmd = command.length ? command.join(" ") : null;
+  if (err instanceof CLIError) {
+    return {
+      error: {
+        message: err.message,
+        code: err.code,
+        exitCode: err.exitCode,
+        command: cmd,
+        ...err.details,
+      },
+    };
+  }
+  return {
+    error: {
+      message: err instanceof Error ? err.message : String(err),
+      code: "INTERNAL_ERROR",
+      exitCode: 1,
+      command: cmd,
+    },
+  };
+}
+
+/**
+ * Build the error a run fails with when it is cancelled by a signal (or by
+ * Ctrl-C while a prompt holds the terminal in raw mode).
+ *
+ * @param signal - The signal received.
+ * @returns A CLIError with code "CANCELLED" and exit code 130 or 143.
+ */
+export function interruptError(signal: ExitSignal): CLIError {
+  return new CLIError(
+    `Interrupted by ${signal}`,
+    signal === "SIGINT" ? EXIT_SIGINT : EXIT_SIGTERM,
+    { code: "CANCELLED", details: { signal } },
+  );
+}
+
+/**
+ * Whether `err` is a cancellation (see `interruptError`).
+ *
+ * @param err - Any error.
+ * @returns True for a CLIError with code "CANCELLED".
+ */
+export function isCancellation(err: unknown): err is CLIError {
+  return err instanceof CLIError && err.code === "CANCELLED";
+}
+
+/**
+ * Write `err` to `stream` in the given output mode and map it to an exit
+ * code: a CLIError's exitCode, or 1 for anything else.
+ *
+ * @param err - The error to report.
+ * @param stream - Where to write (normally stderr).
+ * @param outputMode - "json"/"ndjson"/"yaml" write the envelope; other
+ *                     modes print the message.
+ * @param command - The resolved command path (empty if none).
+ * @param redactor - Masks the run's secrets in the message and envelope.
+ * @returns The exit code the error maps to.
+ */
+export function writeError(
+  err: unknown,
+  stream: OutputStream,
+  outputMode: OutputMode = "text",
+  command: string[] = [],
+  redactor?: Redactor,
+): number {
+  const raw = errorEnvelope(err, command);
+  const envelope = redactor ? redactor.value(raw) : raw;
+  if (outputMode === "json" || outputMode === "ndjson") {
+    stream.write(`${JSON.stringify(envelope)}\n`);
+  } else if (outputMode === "yaml") {
+    stream.write(stringifyYAML(envelope));
+  } else {
+    const message = err instanceof CLIError ? err.message : String(err);
+    stream.write(`${red(redactor ? redactor.string(message) : message)}\n`);
+  }
+  return envelope.error.exitCode;
+}
@@ -0,0 +1,445 @@
+/**
+ * src/utils/flags.ts
+ *
+ * Derive flag descriptions (`FlagSpec`) from a command's Zod `flagsSchema`,
+ * declare the global flags understood by every CLI, and parse argv tokens
+ * against a set of declared flags.
+ */
+
+import { z, type ZodTypeAny } from "zod";
+import { isSecretSchema } from "./secrets.ts";
+import {
+  CLIError,
+  type CommandOptions,
+  EXIT_USAGE,
+  type FlagSpec,
+} from "../types.ts";
+
+/** Flags accepted by every CLI, regardless of the command invoked. */
+export const GLOBAL_FLAGS: FlagSpec[] = [
+  { name: "help", short: "h", type: "boolean", description: "Show help" },
+  {
+    name: "version",
+    short: "V",
+    type: "boolean",
+    description: "Show version",
+  },
+  {
+    name: "quiet",
+    short: "q",
+    type: "boolean",
+    description: "Suppress all output except errors",
+  },
+  {
+    name: "verbose",
+    short: "v",
+    type: "boolean",
+    description: "Chatty output; includes debug logs",
+  },
+  {
+    name: "color",
+    type: "string",
+    description: "Color mode",
+    default: "auto",
+    choices: ["auto", "always", "never"],
+  },
+  {
+    name: "output",
+    type: "string",
+    description: "Output format",
+    default: "text",
+    choices: [
+      "text",
+      "json",
+      "yaml",
+      "csv",
+      "tsv",
+      "ndjson",
+      "table",
+      "wide",
+      "template=",
+    ],
+  },
+  {
+    name: "query",
+    type: "string",
+    description: "Filter output with a JSONPath expression",
+  },
+  {
+    name: "yes",
+    short: "y",
+    type: "boolean",
+    description: "Answer yes to confirmations; never prompt",
+  },
+  {
+    name: "no-input",
+    type: "boolean",
+    description: "Never prompt; use defaults or fail",
+  },
+  { name: "config", type: "string", description: "Path to config file" },
+  {
+    name: "otel-endpoint",
+    type: "string",
+    description: "OpenTelemetry collector endpoint",
+  },
+  {
+    name: "profile",
+    type: "boolean",
+    description: "Print where the run spent its time (on stderr)",
+  },
+];
+
+/**
+ * Strip wrappers (optional, nullable, default, effects, pipelines) from a Zod
+ * schema, collecting the metadata they carry along the way.
+ *
+ * @param schema - The Zod schema to unwrap.
+ * @returns The innermost schema plus description/default/optional/secret
+ *          metadata.
+ */
+export function unwrapSchema(schema: ZodTypeAny): {
+  inner: ZodTypeAny;
+  description?: string;
+  default?: unknown;
+  optional: boolean;
+  secret: boolean;
+} {
+  let inner = schema;
+  let description = schema.description;
+  let def: unknown = undefined;
+  let optional = false;
+  let secret = false;
+  while (true) {
+    description ??= inner.description;
+    secret ||= isSecretSchema(inner);
+    if (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable) {
+      optional = true;
+      inner = inner.unwrap();
+    } else if (inner instanceof z.ZodDefault) {
+      optional = true;
+      def = inner._def.defaultValue();
+      inner = inner._def.innerType;
+    } else if (inner instanceof z.ZodEffects) {
+      inner = inner.innerType();
+    } else if (inner instanceof z.ZodPipeline) {
+      inner = inner._def.in;
+    } else if (inner instanceof z.ZodCatch) {
+      optional = true;
+      inner = inner._def.innerType;
+    } else {
+      break;
+    }
+  }
+  return { inner, description, default: def, optional, secret };
+}
+
+/**
+ * Build a `FlagSpec` for a single schema entry.
+ *
+ * @param name - The flag name (the key in the object schema).
+ * @param schema - The Zod schema for that key.
+ * @returns The derived flag description.
+ */
+function flagSpecFromEntry(name: string, schema: ZodTypeAny): FlagSpec {
+  const meta = unwrapSchema(schema);
+  let inner = meta.inner;
+  let array = false;
+  if (inner instanceof z.ZodArray || inner instanceof z.ZodSet) {
+    array = true;
+    inner = unwrapSchema(
+      inner instanceof z.ZodArray ? inner.element : inner._def.valueType,
+    ).inner;
+  }
+
+  const spec: FlagSpec = { name, type: "string" };
+  if (inner instanceof z.ZodBoolean) {
+    spec.type = "boolean";
+  } else if (inner instanceof z.ZodNumber || inner instanceof z.ZodBigInt) {
+    spec.type = "number";
+  } else if (inner instanceof z.ZodEnum) {
+    spec.choices = [...inner.options] as string[];
+  } else if (inner instanceof z.ZodNativeEnum) {
+    spec.choices = Object.values(inner.enum as Record<string, unknown>)
+      .filter((v): v is string => typeof v === "string");
+  } else if (inner instanceof z.ZodLiteral) {
+    const value = inner.value;
+    if (typeof value === "boolean") spec.type = "boolean";
+    else if (typeof value === "number") spec.type = "number";
+    else spec.choices = [String(value)];
+  }
+
+  if (array) spec.array = true;
+  if (meta.description) spec.description = meta.description;
+  if (meta.secret) spec.secret = true;
+  if (meta.default !== undefined) spec.default = meta.default;
+  if (!meta.optional && spec.type !== "boolean") spec.required = true;
+  return spec;
+}
+
+/**
+ * Introspect a Zod object schema and describe each of its keys as a flag.
+ * Non-object schemas (or no schema) yield an empty list.
+ *
+ * @param schema - The command's `flagsSchema`, if any.
+ * @returns An array of `FlagSpec`, in schema declaration order.
+ */
+export function flagSpecsFromSchema(schema?: ZodTypeAny): FlagSpec[] {
+  if (!schema) return [];
+  const { inner } = unwrapSchema(schema);
+  if (!(inner instanceof z.ZodObject)) return [];
+  const shape = inner.shape as Record<string, ZodTypeAny>;
+  return Object.entries(shape).map(([name, entry]) =>
+    flagSpecFromEntry(name, entry)
+  );
+}
+
+/**
+ * Return the flags a command declares: those derived from its `flagsSchema`,
+ * merged with (and overridden by) any explicit `flags` specs. Each secret
+ * string or number flag also gets a `--<name>-file` flag to read it from a
+ * file or stdin (see `secretFileFlag`), unless one is declared.
+ *
+ * @param options - The command's registration options.
+ * @returns An array of `FlagSpec`, schema order first, then explicit-only
+ *          flags, then `--<name>-file` flags.
+ */
+export function commandFlags(options: CommandOptions): FlagSpec[] {
+  const specs = new Map<string, FlagSpec>();
+  const derived = flagSpecsFromSchema(
+    options.flagsSchema as ZodTypeAny | undefined,
+  );
+  for (const spec of derived) specs.set(spec.name, spec);
+  for (const spec of options.flags ?? []) {
+    specs.set(spec.name, { ...specs.get(spec.name), ...spec });
+  }
+  for (const spec of [...specs.values()]) {
+    const file = secretFileFlag(spec);
+    if (file && !specs.has(file)) {
+      specs.set(file, {
+        name: file,
+        type: "string",
+        description: `Read --${
+          flagSpelling(spec.name)
+        } from a file ("-" for stdin)`,
+      });
+    }
+  }
+  return [...specs.values()];
+}
+
+/**
+ * The name of the flag a secret flag can be read from a file with.
+ *
+ * @param spec - A flag description.
+ * @returns "<name>-file" for secret, non-array string and number flags.
+ */
+export function secretFileFlag(spec: FlagSpec): string | undefined {
+  return spec.secret && spec.type !== "boolean" && !spec.array
+    ? `${spec.name}-file`
+    : undefined;
+}
+
+/** Result of parsing argv tokens against declared flags. */
+export interface ParsedFlags {
+  /** Flag values keyed by flag name (only flags that were supplied). */
+  flags: Record<string, unknown>;
+  /** Positional (non-flag) tokens, in order. */
+  args: string[];
+  /** Tokens after a bare `--`, if one was present. */
+  "--"?: string[];
+}
+
+/**
+ * Convert a camelCase flag name to its kebab-case spelling, the one help and
+ * completions show.
+ *
+ * @param name - The flag name (e.g. "dryRun").
+ * @returns The kebab-case name (e.g. "dry-run").
+ */
+export function flagSpelling(name: string): string {
+  return name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+}
+
+/**
+ * Convert a raw token into the value type a flag declares.
+ *
+ * @param spec - The flag description.
+ * @param raw - The raw string value from the command line.
+ * @returns The converted value.
+ * @throws CLIError if the value is not a valid number or allowed choice (the
+ *         message quotes the value unless the flag is secret).
+ */
+export function coerceFlagValue(spec: FlagSpec, raw: string): unknown {
+  // Errors are reported before secrets are registered for redaction, so a
+  // secret flag's value is never echoed back
+  const invalid = (expected: string) =>
+    new CLIError(
+      `Invalid value for --${spec.name}: expected ${expected}${
+        spec.secret ? "" : `, got "${raw}"`
+      }`,
+      EXIT_USAGE,
+    );
+  if (spec.type === "number") {
+    const num = Number(raw);
+    if (raw.trim() === "" || Number.isNaN(num)) throw invalid("a number");
+    return num;
+  }
+  if (spec.type === "boolean") {
+    if (/^(true|yes|1)$/i.test(raw)) return true;
+    if (/^(false|no|0)$/i.test(raw)) return false;
+    throw invalid("a boolean");
+  }
+  if (
+    spec.choices?.length &&
+    !spec.choices.some((c) => c.endsWith("=") ? raw.startsWith(c) : c === raw)
+  ) {
+    throw invalid(`one of ${spec.choices.join(", ")}`);
+  }
+  return raw;
+}
+
+/**
+ * Parse argv tokens against a set of declared flags.
+ *
+ * Supports `--key value`, `--key=value`, `--no-key` for booleans, repeated
+ * array flags, grouped short booleans (`-abc`), `-k value` / `-kvalue`, and a
+ * bare `--` that ends flag parsing. camelCase flag names also accept their
+ * kebab-case spelling. Flags may appear anywhere among the positionals.
+ *
+ * Undeclared flags are passed through as strings (or `true` when no value
+ * follows), mirroring `parseArgs` so commands without a schema keep working.
+ * When `specs` contains the same name twice, the later spec wins.
+ *
+ * @param argv - Tokens to parse (e.g. everything after the command path).
+ * @param specs - Declared flags.
+ * @returns Parsed flags, positional args, and anything after `--`.
+ * @throws CLIError (exit code `EXIT_USAGE`) on malformed values.
+ */
+export function parseFlags(argv: string[], specs: FlagSpec[]): ParsedFlags {
+  const byLong = new Map<string, FlagSpec>();
+  const byShort = new Map<string, FlagSpec>();
+  for (const spec of specs) {
+    byLong.set(spec.name, spec);
+    byLong.set(flagSpelling(spec.name), spec);
+    if (spec.short) byShort.set(spec.short, spec);
+  }
+
+  const out: ParsedFlags = { flags: {}, args: [] };
+  const assign = (spec: FlagSpec, value: unknown) => {
+    if (spec.array) {
+      const prev = out.flags[spec.name];
+      out.flags[spec.name] = Array.isArray(prev) ? [...prev, value] : [value];
+    } else {
+      out.flags[spec.name] = value;
+    }
+  };
+  // A lone "-" (stdin, by convention) and negative numbers are values
+  const takesValue = (next: string | undefined) =>
+    next !== undefined &&
+    (next === "-" || !next.startsWith("-") || /^-\d/.test(next));
+
+  for (let i = 0; i < argv.length; i++) {
+    const token = argv[i];
+
+    if (token === "--") {
+      out["--"] = argv.slice(i + 1);
+      break;
+    }
+
+    if (token.startsWith("--")) {
+      const eq = token.indexOf("=");
+      const name = token.slice(2, eq === -1 ? undefined : eq);
+      const inline = eq === -1 ? undefined : token.slice(eq + 1);
+      const spec = byLong.get(name);
+
+      if (!spec && name.startsWith("no-") && inline === undefined) {
+        const negated = byLong.get(name.slice(3));
+        if (negated?.type === "boolean") {
+          assign(negated, false);
+          continue;
+        }
+        if (!negated) {
+          out.flags[name.slice(3)] = false;
+          continue;
+        }
+      }
+
+      if (!spec) {
+        if (inline !== undefined) out.flags[name] = inline;
+        else if (takesValue(argv[i + 1])) out.flags[name] = argv[++i];
+        else out.flags[name] = true;
+        continue;
+      }
+
+      if (spec.type === "boolean") {
+        assign(
+          spec,
+          inline === undefined ? true : coerceFlagValue(spec, inline),
+        );
+      } else if (inline !== undefined) {
+        assign(spec, coerceFlagValue(spec, inline));
+      } else if (takesValue(argv[i + 1])) {
+        assign(spec, coerceFlagValue(spec, argv[++i]));
+      } else {
+        throw new CLIError(`Flag --${spec.name} requires a value`, EXIT_USAGE);
+      }
+      continue;
+    }
+
+    if (token.startsWith("-") && token.length > 1 && !/^-\d/.test(token)) {
+      const group = token.slice(1);
+      for (let j = 0; j < group.length; j++) {
+        const letter = group[j];
+        const spec = byShort.get(letter);
+        const rest = group.slice(j + 1).replace(/^=/, "");
+        if (!spec) {
+          out.flags[letter] = true;
+          continue;
+        }
+        if (spec.type === "boolean") {
+          assign(spec, true);
+          continue;
+        }
+        if (rest) {
+          assign(spec, coerceFlagValue(spec, rest));
+        } else if (takesValue(argv[i + 1])) {
+          assign(spec, coerceFlagValue(spec, argv[++i]));
+        } else {
+          throw new CLIError(
+            `Flag -${letter} (--${spec.name}) requires a value`,
+            EXIT_USAGE,
+          );
+        }
+        break;
+      }
+      continue;
+    }
+
+    out.args.push(token);
+  }
+
+  return out;
+}
+
+/**
+ * Build `parseArgs` options for the first (global) parsing phase from a list
+ * of flag specs.
+ *
+ * @param specs - The flags to declare (normally `GLOBAL_FLAGS`).
+ * @returns The `boolean`, `string` and `alias` options for `parseArgs`.
+ */
+export function parseArgsOptions(specs: FlagSpec[]): {
+  boolean: string[];
+  string: string[];
+  alias: Record<string, string>;
+} {
+  const alias: Record<string, string> = {};
+  for (const spec of specs) {
+    if (spec.short) alias[spec.short] = spec.name;
+  }
+  return {
+    boolean: specs.filter((s) => s.type === "boolean").map((s) => s.name),
+    string: specs.filter((s) => s.type !== "boolean").map((s) => s.name),
+    alias,
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * src/utils/flags_test.ts
+ *
+ * Second-phase flag parsing: `parseFlags` on its own, and command flags as
+ * handlers receive them.
+ */
+
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { z } from "zod";
+import { CLI } from "../cli/mod.ts";
+import { runCLI } from "../testing.ts";
+import { CLIError, EXIT_USAGE, type FlagSpec } from "../types.ts";
+import { parseFlags } from "./flags.ts";
+
+/** Flags covering each value type. */
+const SPECS: FlagSpec[] = [
+  { name: "dryRun", type: "boolean" },
+  { name: "count", type: "number", short: "n" },
+  { name: "tag", type: "string", array: true },
+  { name: "verbose", type: "boolean", short: "v" },
+  { name: "quiet", type: "boolean", short: "q" },
+];
+
+/* ------------------------------------------------------------------ *
+ *  parseFlags
+ * ------------------------------------------------------------------ */
+
+Deno.test("parseFlags: long, inline and negated forms", () => {
+  const parsed = parseFlags(
+    ["--count=2", "--dry-run", "--tag", "a", "--tag=b", "--no-verbose"],
+    SPECS,
+  );
+  assertEquals(parsed.flags, {
+    count: 2,
+    dryRun: true,
+    tag: ["a", "b"],
+    verbose: false,
+  });
+  assertEquals(parsed.args, []);
+});
+
+Deno.test("parseFlags: grouped and attached short flags", () => {
+  assertEquals(parseFlags(["-vqn3"], SPECS).flags, {
+    verbose: true,
+    quiet: true,
+    count: 3,
+  });
+  assertEquals(parseFlags(["-n", "-1"], SPECS).flags, { count: -1 });
+});
+
+Deno.test("parseFlags: `--` ends flag parsing", () => {
+  const parsed = parseFlags(["a", "--", "--count", "b"], SPECS);
+  assertEquals(parsed.args, ["a"]);
+  assertEquals(parsed["--"], ["--count", "b"]);
+  assertEquals(parsed.flags, {});
+});
+
+Deno.test("parseFlags: undeclared flags pass through", () => {
+  assertEquals(parseFlags(["--other", "x", "--on"], SPECS).flags, {
+    other: "x",
+    on: true,
+  });
+});
+
+Deno.test("parseFlags: malformed values throw usage errors", () => {
+  for (const argv of [["--count", "many"], ["--count"], ["-n"]]) {
+    try {
+      parseFlags(argv, SPECS);
+      throw new Error(`no error for ${argv.join(" ")}`);
+    } catch (err) {
+      if (!(err instanceof CLIError)) throw err;
+      assertEquals(err.exitCode, EXIT_USAGE);
+      assertStringIncludes(err.message, "--count");
+    }
+  }
+});
+
+/* ------------------------------------------------------------------ *
+ *  Handler flags
+ * ------------------------------------------------------------------ */
+
+/**
+ * A CLI whose `show` command prints the flags it received as JSON.
+ *
+ * @returns The CLI.
+ */
+function flagsCLI(): CLI {
+  const cli = new CLI({ name: "app", version: "1.2.3" });
+  cli.registerCommand(
+    ["show"],
+    (args, flags, ctx) => ctx.log(JSON.stringify({ args, flags })),
+    {
+      flagsSchema: z.object({
+        dryRun: z.boolean().default(false),
+        count: z.number().default(1),
+      }),
+      flags: [{ name: "count", type: "number", short: "n" }],
+    },
+  );
+  return cli;
+}
+
+/* ------------------------------------------------------------------ *
+ *  Flag parsing
+ * ------------------------------------------------------------------ */
+
+Deno.test("flags: kebab-case, short aliases and positionals", async () => {
+  const result = await runCLI(flagsCLI(), [
+    "show",
+    "a",
+    "--dry-run",
+    "-n",
+    "3",
+    "b",
+  ]);
+  assertEquals(result.exitCode, 0);
+  const { args, flags } = JSON.parse(result.stdout);
+  assertEquals(args, ["a", "b"]);
+  assertEquals(flags.dryRun, true);
+  assertEquals(flags.count, 3);
+});
+
+Deno.test("flags: globals reach handlers under their canonical names", async () => {
+  const cli = new CLI({ name: "app" });
+  cli.registerCommand(["show"], (_args, flags, ctx) => {
+    ctx.log(JSON.stringify(flags));
+  });
+  const result = await runCLI(cli, ["show", "-v"]);
+  const flags = JSON.parse(result.stdout);
+  assertEquals(flags.verbose, true);
+  assertEquals("v" in flags, false);
+  assertEquals("h" in flags, false);
+});
+
+Deno.test("flags: invalid values are usage errors", async () => {
+  const result = await runCLI(flagsCLI(), [
+    "show",
+    "--count",
+    "many",
+    "--output",
+    "json",
+  ]);
+  assertEquals(result.exitCode, EXIT_USAGE);
+  assertEquals(result.stdout, "");
+  assertStringIncludes(result.stderr, "--count");
+});
@@ -1,96 +1,373 @@
 // src/utils/help.ts
 
 import { bold } from "@std/fmt/colors";
-import type { CommandNode } from "../types.ts";
+import type { CommandNode, FlagSpec } from "../types.ts";
+import { commandFlags, flagSpelling, GLOBAL_FLAGS } from "./flags.ts";
+import { formatArgsUsage } from "./args.ts";
+import { CONFIG_LAYERS } from "./config.ts";
 
 /* ------------------------------------------------------------------ *
- *  Help formatter (with grouping by first segment)
+ *  Layout helpers
+ * ------------------------------------------------------------------ */
+
+/** How help pages are laid out. */
+export interface HelpOptions {
+  /**
+   * List only the top-level commands in the CLI's help, each group with a
+   * pointer to its own help page: `true` always, or a number to collapse
+   * once the full listing would show more commands than that.
+   */
+  collapse?: boolean | number;
+  /** Terminal width to wrap descriptions at (no wrapping if unset). */
+  columns?: number;
+}
+
+/** Descriptions are never wrapped into a column narrower than this. */
+const MIN_WRAP_WIDTH = 20;
+
+/**
+ * Break text into lines of at most `width` characters, at whitespace. A
+ * word longer than `width` gets a line of its own.
+ *
+ * @param text - The text to wrap.
+ * @param width - The maximum line length.
+ * @returns The lines.
+ */
+function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  return line ? [...lines, line] : lines;
+}
+
+/**
+ * Render one row of a two-column listing, wrapping the description to the
+ * terminal width and indenting its continuation lines under the first.
+ *
+ * @param label - The left-hand column (command or flag).
+ * @param width - Width of the left-hand column, including the gap.
+ * @param desc - The right-hand column.
+ * @param columns - Terminal width, if known.
+ * @param marker - Printed before the description (e.g. "– ").
+ * @returns The formatted lines.
+ */
+function formatRow(
+  label: string,
+  width: number,
+  desc: string,
+  columns?: number,
+  marker = "",
+): string[] {
+  if (!desc) return [`  ${label}`];
+  const indent = 2 + width + marker.length;
+  const [first, ...rest] = columns && columns - indent >= MIN_WRAP_WIDTH
+    ? wrapText(desc, columns - indent)
+    : [desc];
+  return [
+    `  ${label.padEnd(width)}${marker}${first}`,
+    ...rest.map((line) => `${" ".repeat(indent)}${line}`),
+  ];
+}
+
+/**
+ * The visible subcommands of a node, in help order: by `order` (lowest
+ * first), then commands without one, each alphabetically.
+ *
+ * @param node - The parent node.
+ * @returns Segment and node of each visible child.
+ */
+function visibleChildren(node: CommandNode): [string, CommandNode][] {
+  const rank = (child: CommandNode) => child.options.order ?? Infinity;
+  return [...node.children.entries()]
+    .filter(([, child]) => !child.options.hidden)
+    .sort(([a, x], [b, y]) =>
+      rank(x) === rank(y) ? a.localeCompare(b) : rank(x) - rank(y)
+    );
+}
+
+/* ------------------------------------------------------------------ *
+ *  Help formatter (with categories and grouping by first segment)
  * ------------------------------------------------------------------ */
 
 interface Row {
   path: string;
   desc: string;
   group: string; // first segment
+  category?: string; // own or inherited
+  subcommands: boolean; // has visible children
 }
 
 /**
  * Format multi-column help lines for a CLI.
  *
- * Groups commands by their first segment, and outputs usage, commands, and options.
+ * Commands are listed under their `category` (inherited from the nearest
+ * ancestor that has one; uncategorized commands under "Commands"), grouped
+ * by their first segment and sorted by `order`, then name. Categories
+ * appear in the order of their first command. The collapsed view lists only
+ * the top-level commands and points to the help pages of the groups.
  *
  * @param cliName - The name of the CLI, used in the usage line.
  * @param root - The root CommandNode of the command tree.
+ * @param globals - The global flags (including those added by plugins).
+ * @param options - Collapsed view and terminal width.
  * @returns An array of formatted help lines (strings).
  */
 export function formatHelpLines(
   cliName: string,
   root: CommandNode,
+  globals: FlagSpec[] = GLOBAL_FLAGS,
+  options: HelpOptions = {},
 ): string[] {
+  const { columns } = options;
   const lines: string[] = [];
   lines.push(`${bold("Usage:")} ${cliName} <command> [...args] [options]`);
   lines.push("");
 
   // Build rows
   const rows: Row[] = [];
-  function dfs(node: CommandNode, prefix: string[]): void {
-    const sorted = [...node.children.entries()].sort(([a], [b]) =>
-      a.localeCompare(b)
-    );
-    for (const [seg, child] of sorted) {
-      if (child.options.hidden) continue;
-      const path = [...prefix, seg].join(" ");
-      const desc = child.options.description ??
-        (prefix.length ? node.options.description ?? "" : "");
-      const group = prefix.length === 0 ? seg : prefix[0];
-      rows.push({ path, desc, group });
-      dfs(child, [...prefix, seg]);
+  function dfs(node: CommandNode, prefix: string[], category?: string): void {
+    for (const [seg, child] of visibleChildren(node)) {
+      const path = [...prefix, seg];
+      const inherited = child.options.category ?? category;
+      rows.push({
+        path: path.join(" "),
+        desc: child.options.description ?? "",
+        group: path[0],
+        category: inherited,
+        subcommands: visibleChildren(child).length > 0,
+      });
+      dfs(child, path, inherited);
     }
   }
   dfs(root, []);
 
-  // Group rows by first segment
-  const groups: Record<string, Row[]> = {};
-  for (const row of rows) {
-    const first = row.group;
-    if (!groups[first]) groups[first] = [];
-    groups[first].push(row);
+  const collapse = options.collapse === true ||
+    (typeof options.collapse === "number" && rows.length > options.collapse);
+  const listed = collapse
+    ? rows.filter((row) => row.path === row.group).map((row) =>
+      row.subcommands
+        ? {
+          ...row,
+          desc: [row.desc, `(run "${cliName} ${row.path} --help")`]
+            .filter(Boolean).join(" "),
+        }
+        : row
+    )
+    : rows;
+
+  // Sections by category, in order of their first command
+  const sections = new Map<string | undefined, Row[]>();
+  for (const row of listed) {
+    if (!sections.has(row.category)) sections.set(row.category, []);
+    sections.get(row.category)!.push(row);
   }
 
-  lines.push(`${bold("Commands:")}`);
-  lines.push("");
-  // For each group, print header and entries
-  const groupNames = Object.keys(groups).sort((a, b) => a.localeCompare(b));
-  for (const group of groupNames) {
-    const groupRows = groups[group];
-    // Find padding width only for this group
-    const pad = groupRows.reduce((m, r) => Math.max(m, r.path.length), 0) + 2;
-    for (const { path, desc } of groupRows) {
-      const spacing = " ".repeat(pad - path.length);
-      lines.push(`  ${path}${spacing}${desc ? `– ${desc}` : ""}`);
+  for (const [category, sectionRows] of sections) {
+    lines.push(`${bold(`${category ?? "Commands"}:`)}`);
+    lines.push("");
+    // Group rows by first segment (one block when collapsed)
+    const groups = new Map<string, Row[]>();
+    for (const row of sectionRows) {
+      const key = collapse ? "" : row.group;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(row);
+    }
+    for (const groupRows of groups.values()) {
+      // Find padding width only for this group
+      const pad = groupRows.reduce((m, r) => Math.max(m, r.path.length), 0) +
+        2;
+      for (const { path, desc } of groupRows) {
+        lines.push(...formatRow(path, pad, desc, columns, "– "));
+      }
+      lines.push(""); // blank line after each group
     }
-    lines.push(""); // blank line after each group
   }
 
   lines.push(`${bold("Options:")}`);
-  lines.push("  -h, --help            Show help");
-  lines.push("  -V, --version         Show version");
-  lines.push("  -q, --quiet           Suppress all output except errors");
-  lines.push("  -v, --verbose         Chatty output; includes debug logs");
-  lines.push(
-    "  --color=[auto|always|never]   Color mode (default: auto)",
-  );
+  lines.push(...formatFlagRows(globals, columns));
+  lines.push("");
   lines.push(
-    "  --output=[text|json|yaml]     Output mode (default: text)",
+    `Run "${cliName} <command> --help" for more information on a command`,
   );
-  lines.push("  --config=<path>       Path to config file");
-  lines.push("  --otel-endpoint=<url> OpenTelemetry collector endpoint");
-  lines.push("");
+  if (collapse && root.children.has("help")) {
+    lines.push(`Run "${cliName} help --all" to list every command`);
+  }
   lines.push(
     `Run "${cliName} completion [bash|zsh|fish]" to generate shell completions`,
   );
   lines.push("");
-  lines.push(
-    `${bold("Global Options Precedence:")} CLI flags > ENV > config file`,
+  const precedence = [...CONFIG_LAYERS].reverse()
+    .map((layer) => layer === "explicit" ? "--config" : layer);
+  lines.push(`${bold("Config Precedence:")} ${precedence.join(" > ")}`);
+  return lines;
+}
+
+/* ------------------------------------------------------------------ *
+ *  Per-command help pages
+ * ------------------------------------------------------------------ */
+
+/** Longer choice lists are listed in the description, not the label. */
+const MAX_INLINE_CHOICES = 4;
+
+/**
+ * Render the left-hand column for a flag, e.g. `-f, --force` or
+ * `    --mode <a|b>`.
+ *
+ * @param flag - The flag description.
+ * @returns The formatted flag spelling.
+ */
+function flagLabel(flag: FlagSpec): string {
+  const short = flag.short ? `-${flag.short}, ` : "    ";
+  let label = `${short}--${flagSpelling(flag.name)}`;
+  if (flag.type !== "boolean") {
+    const inline = flag.choices?.length &&
+      flag.choices.length <= MAX_INLINE_CHOICES;
+    const value = inline ? flag.choices!.join("|") : flag.type;
+    label += ` <${value}>`;
+  }
+  if (flag.array) label += "...";
+  return label;
+}
+
+/**
+ * Render the right-hand column for a flag: description plus
+ * required/env/default annotations (no default for secret flags).
+ *
+ * @param flag - The flag description.
+ * @returns The formatted description.
+ */
+function flagDescription(flag: FlagSpec): string {
+  const parts: string[] = [];
+  if (flag.description) parts.push(flag.description);
+  if (flag.choices && flag.choices.length > MAX_INLINE_CHOICES) {
+    const choices = flag.choices.map((c) => c.endsWith("=") ? `${c}…` : c);
+    parts.push(`(one of: ${choices.join(", ")})`);
+  }
+  if (flag.required) parts.push("(required)");
+  if (flag.env) parts.push(`(env: ${flag.env})`);
+  if (flag.default !== undefined && !flag.secret) {
+    const def = typeof flag.default === "object"
+      ? JSON.stringify(flag.default)
+      : String(flag.default);
+    parts.push(`(default: ${def})`);
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Format a two-column flags table.
+ *
+ * @param flags - The flags to render.
+ * @param columns - Terminal width to wrap descriptions at, if known.
+ * @returns An array of formatted lines, one per flag (more when wrapped).
+ */
+export function formatFlagRows(flags: FlagSpec[], columns?: number): string[] {
+  const labels = flags.map(flagLabel);
+  const pad = labels.reduce((m, l) => Math.max(m, l.length), 0) + 2;
+  return flags.flatMap((flag, i) =>
+    formatRow(labels[i], pad, flagDescription(flag), columns)
   );
+}
+
+/**
+ * Format the help page for a single command (or command group).
+ *
+ * Includes the usage line, description, aliases, examples, subcommands,
+ * declared positional arguments and a flags table introspected from the command's `flagsSchema`. Only the
+ * registration options are used, so lazy commands are never imported.
+ *
+ * @param cliName - The name of the CLI, used in the usage line.
+ * @param path - The command path as typed (e.g. ["cluster", "node", "add"]).
+ * @param node - The CommandNode the path resolves to.
+ * @param globals - The global flags (including those added by plugins).
+ * @param help - Layout options (only `columns` applies).
+ * @returns An array of formatted help lines (strings).
+ */
+export function formatCommandHelpLines(
+  cliName: string,
+  path: string[],
+  node: CommandNode,
+  globals: FlagSpec[] = GLOBAL_FLAGS,
+  help: HelpOptions = {},
+): string[] {
+  const { options } = node;
+  const { columns } = help;
+  const lines: string[] = [];
+  const subcommands = visibleChildren(node);
+  const runnable = !!(node.handler || node.lazyImport);
+
+  let usage = [cliName, ...path].join(" ");
+  if (subcommands.length) usage += runnable ? " [command]" : " <command>";
+  const argsUsage = formatArgsUsage(options.args);
+  if (argsUsage) usage += ` ${argsUsage}`;
+  usage += " [options]";
+  lines.push(`${bold("Usage:")} ${usage}`);
+  lines.push("");
+
+  if (options.description) {
+    lines.push(
+      ...(columns && columns >= MIN_WRAP_WIDTH
+        ? wrapText(options.description, columns)
+        : [options.description]),
+    );
+    lines.push("");
+  }
+
+  if (options.aliases?.length) {
+    lines.push(`${bold("Aliases:")} ${options.aliases.join(", ")}`);
+    lines.push("");
+  }
+
+  if (options.examples?.length) {
+    lines.push(`${bold("Examples:")}`);
+    for (const example of options.examples) lines.push(`  ${example}`);
+    lines.push("");
+  }
+
+  if (subcommands.length) {
+    lines.push(`${bold("Commands:")}`);
+    const pad = subcommands.reduce((m, [seg]) => Math.max(m, seg.length), 0) +
+      2;
+    for (const [seg, child] of subcommands) {
+      const desc = child.options.description ?? "";
+      lines.push(...formatRow(seg, pad, desc, columns, "– "));
+    }
+    lines.push("");
+  }
+
+  if (options.args?.length) {
+    lines.push(`${bold("Arguments:")}`);
+    const labels = options.args.map((a) => formatArgsUsage([a]));
+    const pad = labels.reduce((m, l) => Math.max(m, l.length), 0) + 2;
+    options.args.forEach((arg, i) => {
+      lines.push(...formatRow(labels[i], pad, arg.description ?? "", columns));
+    });
+    lines.push("");
+  }
+
+  const flags = commandFlags(options);
+  if (flags.length) {
+    lines.push(`${bold("Flags:")}`);
+    lines.push(...formatFlagRows(flags, columns));
+    lines.push("");
+  }
+
+  lines.push(`${bold("Global Options:")}`);
+  lines.push(...formatFlagRows(globals, columns));
+  if (subcommands.length) {
+    lines.push("");
+    lines.push(
+      `Run "${
+        [cliName, ...path].join(" ")
+      } <command> --help" for more information on a command`,
+    );
+  }
   return lines;
 }
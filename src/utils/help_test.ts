@@ -0,0 +1,264 @@
+/**
+ * src/utils/help_test.ts
+ *
+ * Help output as `--help` prints it: the flag spellings it shares with the
+ * completion scripts, categories and order, the collapsed view, and
+ * wrapping at the terminal width.
+ */
+
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { z } from "zod";
+import { CLI } from "../cli/mod.ts";
+import { helpText, runCLI } from "../testing.ts";
+
+/**
+ * A CLI whose `deploy` command takes camelCase flags, one from its schema
+ * and one declared explicitly.
+ *
+ * @returns The CLI.
+ */
+function kebabCLI(): CLI {
+  const cli = new CLI({ name: "app" });
+  cli.registerCommand(["deploy"], () => {}, {
+    description: "Deploy the app",
+    flagsSchema: z.object({ dryRun: z.boolean().default(false) }),
+    flags: [{ name: "maxRetries", type: "number", short: "r" }],
+  });
+  return cli;
+}
+
+/* ------------------------------------------------------------------ *
+ *  Flag spelling
+ * ------------------------------------------------------------------ */
+
+Deno.test("help: camelCase flags show their kebab-case spelling", async () => {
+  const result = await runCLI(kebabCLI(), ["deploy", "--help"]);
+  assertEquals(result.exitCode, 0);
+  assertStringIncludes(result.stdout, "--dry-run");
+  assertStringIncludes(result.stdout, "-r, --max-retries <number>");
+  assert(!result.stdout.includes("--dryRun"));
+  assert(!result.stdout.includes("--maxRetries"));
+});
+
+Deno.test("help: completions offer the kebab-case spelling", async () => {
+  for (const shell of ["bash", "zsh", "fish"]) {
+    const result = await runCLI(kebabCLI(), ["completion", shell]);
+    assertEquals(result.exitCode, 0);
+    const text = result.stdout;
+    if (shell === "fish") {
+      assertStringIncludes(text, "-l 'dry-run'");
+      assertStringIncludes(text, "-l 'max-retries'");
+    } else {
+      assertStringIncludes(text, "--dry-run");
+      assertStringIncludes(text, "--max-retries");
+    }
+    assert(!text.includes("dryRun"), shell);
+    assert(!text.includes("maxRetries"), shell);
+  }
+});
+
+Deno.test("help: the kebab-case spelling is the one that parses", async () => {
+  const cli = kebabCLI();
+  cli.registerCommand(["show"], (_args, flags, ctx) => {
+    ctx.log(JSON.stringify(flags));
+  }, { flagsSchema: z.object({ dryRun: z.boolean().default(false) }) });
+  const result = await runCLI(cli, ["show", "--dry-run"]);
+  assertEquals(result.exitCode, 0);
+  assertEquals(JSON.parse(result.stdout).dryRun, true);
+});
+
+/* ------------------------------------------------------------------ *
+ *  Categories and order
+ * ------------------------------------------------------------------ */
+
+/**
+ * A CLI with an ordered `cluster` group in the "Infrastructure" category, a
+ * categorized command in an uncategorized group, uncategorized commands and
+ * a long-winded `deploy` command in the "Delivery" category.
+ *
+ * @param collapseHelp - The CLI's `collapseHelp` option.
+ * @returns The CLI.
+ */
+function categoryCLI(collapseHelp?: boolean | number): CLI {
+  const cli = new CLI({ name: "app", collapseHelp });
+  cli.describeGroup(["cluster"], "Manage clusters", {
+    category: "Infrastructure",
+    order: 1,
+  });
+  cli.registerCommand(["cluster", "delete"], () => {}, {
+    description: "Delete a cluster",
+  });
+  cli.registerCommand(["cluster", "create"], () => {}, {
+    description: "Create a cluster",
+    order: 0,
+  });
+  cli.registerCommand(["db", "backup"], () => {}, {
+    description: "Back up a database",
+    category: "Infrastructure",
+  });
+  cli.registerCommand(["deploy"], () => {}, {
+    description:
+      "Deploy the app to every region it is configured for, one region at a time",
+    category: "Delivery",
+  });
+  cli.registerCommand(["status"], () => {}, { description: "Show status" });
+  return cli;
+}
+
+/**
+ * The section headings of a help text, in order.
+ *
+ * @param text - The help text.
+ * @returns The lines ending in ":" that aren't indented.
+ */
+function headings(text: string): string[] {
+  return text.split("\n").filter((line) => /^[A-Z][\w ]*:$/.test(line));
+}
+
+/**
+ * The listed rows of a help text, without their descriptions.
+ *
+ * @param text - The help text.
+ * @returns The command column of each `  <command>  – …` row.
+ */
+function listed(text: string): string[] {
+  return text.split("\n")
+    .map((line) => line.match(/^ {2}(\S+(?: \S+)*?) +– /)?.[1])
+    .filter((path): path is string => path !== undefined);
+}
+
+Deno.test("help: commands are listed under their category, in first-use order", () => {
+  const text = helpText(categoryCLI());
+  assertEquals(
+    headings(text),
+    ["Infrastructure:", "Commands:", "Delivery:", "Options:"],
+  );
+  const infrastructure = text.slice(
+    text.indexOf("Infrastructure:"),
+    text.indexOf("Commands:"),
+  );
+  // The group's category is inherited by its subcommands
+  assertEquals(listed(infrastructure), [
+    "cluster",
+    "cluster create",
+    "cluster delete",
+    "db backup",
+  ]);
+  const delivery = text.slice(
+    text.indexOf("Delivery:"),
+    text.indexOf("Options:"),
+  );
+  assertEquals(listed(delivery), ["deploy"]);
+});
+
+Deno.test("help: order sorts siblings before their names do", () => {
+  const cli = new CLI({ name: "app" });
+  const category = "Tools";
+  cli.registerCommand(["b"], () => {}, { description: "B", category });
+  cli.registerCommand(["z"], () => {}, {
+    description: "Z",
+    category,
+    order: 1,
+  });
+  cli.registerCommand(["a"], () => {}, { description: "A", category });
+  const text = helpText(cli);
+  const tools = text.slice(text.indexOf("Tools:"), text.indexOf("Commands:"));
+  assertEquals(listed(tools), ["z", "a", "b"]);
+});
+
+Deno.test("help: each first segment is a block of its own", () => {
+  const text = helpText(categoryCLI());
+  assertStringIncludes(
+    text,
+    [
+      "  cluster         – Manage clusters",
+      "  cluster create  – Create a cluster",
+      "  cluster delete  – Delete a cluster",
+      "",
+      "  db backup  – Back up a database",
+    ].join("\n"),
+  );
+});
+
+/* ------------------------------------------------------------------ *
+ *  Collapsed view
+ * ------------------------------------------------------------------ */
+
+Deno.test("help: collapsed, only top-level commands are listed", () => {
+  const text = helpText(categoryCLI(true));
+  assertStringIncludes(
+    text,
+    '  cluster  – Manage clusters (run "app cluster --help")',
+  );
+  assertStringIncludes(text, '  db          – (run "app db --help")');
+  assertStringIncludes(text, "  status      – Show status");
+  assert(!text.includes("cluster create"));
+  assert(!text.includes("config list"));
+  assertStringIncludes(text, 'Run "app help --all" to list every command');
+});
+
+Deno.test("help: a number collapses only past that many commands", () => {
+  assertEquals(helpText(categoryCLI(100)), helpText(categoryCLI()));
+  assertEquals(helpText(categoryCLI(5)), helpText(categoryCLI(true)));
+});
+
+Deno.test("help: help --all and group help pages list every command", async () => {
+  const cli = categoryCLI(true);
+  const all = await runCLI(cli, ["help", "--all"]);
+  assertEquals(all.exitCode, 0);
+  assertStringIncludes(all.stdout, "cluster create");
+  assert(!all.stdout.includes("help --all"));
+  const group = await runCLI(cli, ["cluster", "--help"]);
+  assertStringIncludes(group.stdout, "create");
+  assertStringIncludes(group.stdout, "delete");
+});
+
+/* ------------------------------------------------------------------ *
+ *  Wrapping
+ * ------------------------------------------------------------------ */
+
+Deno.test("help: descriptions wrap at the terminal width", async () => {
+  const result = await runCLI(categoryCLI(), ["--help"], {
+    tty: true,
+    columns: 50,
+  });
+  const lines = result.stdout.split("\n");
+  const start = lines.indexOf(
+    "  deploy  – Deploy the app to every region it is",
+  );
+  assert(start >= 0, result.stdout);
+  // Continuation lines sit under the description column
+  assertEquals(
+    lines.slice(start + 1, start + 3),
+    [
+      "            configured for, one region at a time",
+      "",
+    ],
+  );
+});
+
+Deno.test("help: without a terminal, nothing wraps", async () => {
+  const result = await runCLI(categoryCLI(), ["--help"], { columns: 50 });
+  assertStringIncludes(
+    result.stdout,
+    "  deploy  – Deploy the app to every region it is configured for, one region at a time\n",
+  );
+});
+
+Deno.test("help: helpLines wraps at the given columns, command pages too", () => {
+  const cli = categoryCLI();
+  const lines = cli.helpLines([], { columns: 40 });
+  const deploy = lines.findIndex((line) => line.startsWith("  deploy"));
+  assertEquals(lines.slice(deploy, deploy + 4), [
+    "  deploy  – Deploy the app to every",
+    "            region it is configured for,",
+    "            one region at a time",
+    "",
+  ]);
+  // Too narrow to leave a readable description column: not wrapped
+  const narrow = cli.helpLines([], { columns: 24 });
+  assert(narrow.some((line) => line.endsWith("one region at a time")));
+
+  const page = cli.helpLines(["deploy"], { columns: 30 });
+  assert(page.some((line) => line === "Deploy the app to every region"));
+});
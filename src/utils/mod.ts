@@ -9,3 +9,14 @@ export * from "./suggest.ts";
 export * from "./help.ts";
 export * from "./config.ts";
 export * from "./env.ts";
+export * from "./flags.ts";
+export * from "./completion.ts";
+export * from "./args.ts";
+export * from "./color.ts";
+export * from "./errors.ts";
+export * from "./query.ts";
+export * from "./output.ts";
+export * from "./prompt.ts";
+export * from "./progress.ts";
+export * from "./secrets.ts";
+export * from "./profile.ts";
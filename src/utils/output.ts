@@ -0,0 +1,419 @@
+/**
+ * src/utils/output.ts
+ *
+ * Render command results for `ctx.output()` in every `--output` format:
+ * aligned tables (text, table, wide), CSV/TSV, JSON, NDJSON, YAML and a
+ * small Go-template-like language (`--output=template={{.name}}`).
+ */
+
+import { stringify as stringifyYAML } from "@std/yaml";
+import { CLIError, EXIT_USAGE, type OutputMode } from "../types.ts";
+import { applyQuery } from "./query.ts";
+
+/** A column of tabular output. */
+export interface OutputColumn {
+  /** Field to show; dots address nested fields (e.g. "status.phase"). */
+  key: string;
+  /** Column header in tables (default: the key, upper-cased). */
+  header?: string;
+  /** Only show this column with `--output=wide` (and in CSV/TSV). */
+  wide?: boolean;
+  /** Custom cell formatting. */
+  format?: (value: unknown, row: Record<string, unknown>) => string;
+}
+
+/** Options for `ctx.output()`. */
+export interface OutputOptions {
+  /**
+   * Columns for tables and CSV/TSV, as keys or `OutputColumn`s. Defaults to
+   * every top-level key of the records, in first-seen order.
+   */
+  columns?: (string | OutputColumn)[];
+}
+
+/** A fully resolved output format. */
+export interface OutputFormat {
+  mode: OutputMode;
+  /** Template for `--output=template=...`. */
+  template?: string;
+  /** JSONPath-style filter from `--query`, applied before rendering. */
+  query?: string;
+}
+
+/** Every plain `--output` value (`template=...` is accepted in addition). */
+export const OUTPUT_MODES: readonly OutputMode[] = [
+  "text",
+  "json",
+  "yaml",
+  "csv",
+  "tsv",
+  "ndjson",
+  "table",
+  "wide",
+];
+
+const TEMPLATE_PREFIX = "template=";
+
+/**
+ * Parse an `--output` value.
+ *
+ * @param value - The raw flag value (undefined → "text").
+ * @returns The output mode, plus the template for `template=...`.
+ * @throws CLIError (exit code `EXIT_USAGE`) for an unknown format.
+ */
+export function parseOutputFlag(value: unknown): OutputFormat {
+  if (value === undefined || value === null || value === "") {
+    return { mode: "text" };
+  }
+  const raw = String(value);
+  if (raw.startsWith(TEMPLATE_PREFIX)) {
+    return { mode: "template", template: raw.slice(TEMPLATE_PREFIX.length) };
+  }
+  if (OUTPUT_MODES.includes(raw as OutputMode)) {
+    return { mode: raw as OutputMode };
+  }
+  throw new CLIError(
+    `Invalid value for --output: expected one of ${
+      OUTPUT_MODES.join(", ")
+    } or template=<template>, got "${raw}"`,
+    EXIT_USAGE,
+  );
+}
+
+/**
+ * Whether `value` is a plain record (not null, not an array).
+ *
+ * @param value - Any value.
+ * @returns True for objects usable as table rows.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value) &&
+    !(value instanceof Date);
+}
+
+/**
+ * Read a dotted path from a record.
+ *
+ * @param row - The record.
+ * @param key - Dotted path, e.g. "status.phase".
+ * @returns The value, or undefined.
+ */
+function pick(row: Record<string, unknown>, key: string): unknown {
+  if (key in row) return row[key];
+  let value: unknown = row;
+  for (const part of key.split(".")) {
+    value = isRecord(value) ? value[part] : undefined;
+  }
+  return value;
+}
+
+/**
+ * Format a single value as cell text.
+ *
+ * @param value - Any value.
+ * @returns Empty for null/undefined, JSON for objects, otherwise `String()`.
+ */
+function cellText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Normalize the columns for a set of rows.
+ *
+ * @param rows - The records being rendered.
+ * @param columns - Declared columns, if any.
+ * @returns Column definitions.
+ */
+function resolveColumns(
+  rows: Record<string, unknown>[],
+  columns?: (string | OutputColumn)[],
+): OutputColumn[] {
+  if (columns?.length) {
+    return columns.map((c) => typeof c === "string" ? { key: c } : c);
+  }
+  const keys = new Set<string>();
+  for (const row of rows) for (const key of Object.keys(row)) keys.add(key);
+  return [...keys].map((key) => ({ key }));
+}
+
+/**
+ * Default table header for a key: "createdAt" → "CREATED AT".
+ *
+ * @param key - The column key.
+ * @returns The header.
+ */
+function headerFor(key: string): string {
+  return key.replace(/([a-z0-9])([A-Z])/g, "$1 $2").replace(/[._-]+/g, " ")
+    .toUpperCase();
+}
+
+/**
+ * Cell text for `column` in `row`.
+ *
+ * @param row - The record.
+ * @param column - The column.
+ * @returns The formatted cell.
+ */
+function cell(row: Record<string, unknown>, column: OutputColumn): string {
+  const value = pick(row, column.key);
+  return column.format ? column.format(value, row) : cellText(value);
+}
+
+/**
+ * Render records as an aligned, space-separated table.
+ *
+ * @param rows - The records.
+ * @param columns - Columns to show.
+ * @returns The table lines.
+ */
+function renderTable(
+  rows: Record<string, unknown>[],
+  columns: OutputColumn[],
+): string[] {
+  const table = [
+    columns.map((c) => c.header ?? headerFor(c.key)),
+    ...rows.map((row) =>
+      columns.map((c) => cell(row, c).replace(/\s*\n\s*/g, " "))
+    ),
+  ];
+  const widths = columns.map((_, i) =>
+    Math.max(...table.map((line) => line[i].length))
+  );
+  return table.map((line) =>
+    line.map((text, i) => text.padEnd(widths[i])).join("   ").trimEnd()
+  );
+}
+
+/**
+ * Render records as CSV (RFC 4180 quoting) or TSV (backslash escapes).
+ *
+ * @param rows - The records.
+ * @param columns - Columns to include (headed by their keys).
+ * @param sep - "," or "\t".
+ * @returns The lines, header first.
+ */
+function renderDelimited(
+  rows: Record<string, unknown>[],
+  columns: OutputColumn[],
+  sep: "," | "\t",
+): string[] {
+  const escape = sep === ","
+    ? (s: string) => /[",\r\n]/.test(s) ? `"${s.replaceAll('"', '""')}"` : s
+    : (s: string) =>
+      s.replace(
+        /[\\\t\n\r]/g,
+        (c) => ({ "\\": "\\\\", "\t": "\\t", "\n": "\\n", "\r": "\\r" })[c]!,
+      );
+  return [
+    columns.map((c) => escape(c.key)).join(sep),
+    ...rows.map((row) => columns.map((c) => escape(cell(row, c))).join(sep)),
+  ];
+}
+
+// -------------------- Templates --------------------
+
+/** A parsed template node. */
+type TemplateNode =
+  | { kind: "text"; text: string }
+  | { kind: "field"; path: string }
+  | { kind: "range"; path: string; body: TemplateNode[] }
+  | { kind: "if"; path: string; then: TemplateNode[]; else: TemplateNode[] };
+
+/**
+ * Parse a template: `{{.field}}`, `{{range .list}}…{{end}}` and
+ * `{{if .field}}…{{else}}…{{end}}`.
+ *
+ * @param template - The template source.
+ * @returns The parsed nodes.
+ * @throws CLIError (code `INVALID_TEMPLATE`) on a syntax error.
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const fail = (reason: string): never => {
+    throw new CLIError(`Invalid template: ${reason}`, EXIT_USAGE, {
+      code: "INVALID_TEMPLATE",
+    });
+  };
+  const root: TemplateNode[] = [];
+  // Open blocks; `target` is where parsed nodes are currently appended
+  const stack: { node: TemplateNode; target: TemplateNode[] }[] = [];
+  let target = root;
+  let last = 0;
+  for (const match of template.matchAll(/\{\{-?\s*(.*?)\s*-?\}\}/g)) {
+    if (match.index! > last) {
+      target.push({ kind: "text", text: template.slice(last, match.index) });
+    }
+    last = match.index! + match[0].length;
+    const action = match[1];
+    const block = /^(range|if)\s+(\S+)$/.exec(action);
+    if (block) {
+      const node: TemplateNode = block[1] === "range"
+        ? { kind: "range", path: block[2], body: [] }
+        : { kind: "if", path: block[2], then: [], else: [] };
+      target.push(node);
+      stack.push({ node, target });
+      if (node.kind === "range") target = node.body;
+      else if (node.kind === "if") target = node.then;
+    } else if (action === "else") {
+      const open = stack.at(-1)?.node;
+      if (open?.kind !== "if") return fail("{{else}} outside {{if}}");
+      target = open.else;
+    } else if (action === "end") {
+      const open = stack.pop();
+      if (!open) return fail("unexpected {{end}}");
+      target = open.target;
+    } else if (/^(\.|\$)\S*$/.test(action)) {
+      target.push({ kind: "field", path: action });
+    } else {
+      fail(`unsupported action {{${action}}}`);
+    }
+  }
+  if (stack.length) fail("missing {{end}}");
+  if (last < template.length) {
+    target.push({ kind: "text", text: template.slice(last) });
+  }
+  return root;
+}
+
+/**
+ * Resolve a template path (`.`, `.a.b`, `$.a`) against the current value.
+ *
+ * @param path - The path.
+ * @param dot - The current value (`.`).
+ * @param root - The top-level value (`$`).
+ * @returns The value at the path.
+ */
+function resolvePath(path: string, dot: unknown, root: unknown): unknown {
+  let value = path.startsWith("$") ? root : dot;
+  for (const part of path.replace(/^[$.]/, "").split(".")) {
+    if (part === "") continue;
+    value = value !== null && typeof value === "object"
+      ? (value as Record<string, unknown>)[part]
+      : undefined;
+  }
+  return value;
+}
+
+/**
+ * Whether a template value counts as true in `{{if}}` (Go semantics: empty
+ * strings, zero, false, nil and empty collections are false).
+ *
+ * @param value - The value.
+ * @returns Its truthiness.
+ */
+function truthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (isRecord(value)) return Object.keys(value).length > 0;
+  return Boolean(value);
+}
+
+/**
+ * Evaluate parsed template nodes.
+ *
+ * @param nodes - The nodes.
+ * @param dot - The current value.
+ * @param root - The top-level value.
+ * @returns The rendered text.
+ */
+function evaluate(nodes: TemplateNode[], dot: unknown, root: unknown): string {
+  let out = "";
+  for (const node of nodes) {
+    switch (node.kind) {
+      case "text":
+        out += node.text;
+        break;
+      case "field":
+        out += cellText(resolvePath(node.path, dot, root));
+        break;
+      case "range": {
+        const value = resolvePath(node.path, dot, root);
+        const items = Array.isArray(value)
+          ? value
+          : isRecord(value)
+          ? Object.values(value)
+          : [];
+        for (const item of items) out += evaluate(node.body, item, root);
+        break;
+      }
+      case "if":
+        out += evaluate(
+          truthy(resolvePath(node.path, dot, root)) ? node.then : node.else,
+          dot,
+          root,
+        );
+        break;
+    }
+  }
+  return out;
+}
+
+/**
+ * Render `data` with a Go-template-like template.
+ *
+ * @param template - The template, e.g. `{{.name}} {{.status.phase}}`.
+ * @param data - The value `.` refers to.
+ * @returns The rendered text.
+ * @throws CLIError (code `INVALID_TEMPLATE`) on a syntax error.
+ */
+export function renderTemplate(template: string, data: unknown): string {
+  return evaluate(parseTemplate(template), data, data);
+}
+
+// -------------------- Entry point --------------------
+
+/**
+ * Render a command result in the given format.
+ *
+ * In text/table/wide/csv/tsv modes, an array of records (or a single record)
+ * becomes rows; other values are printed one per line. The template is
+ * applied to each element of an array, one line per element.
+ *
+ * @param data - The result to render.
+ * @param format - Output mode, template and query.
+ * @param options - Column definitions.
+ * @returns The rendered text, ending in a newline (empty if nothing to show).
+ * @throws CLIError for an invalid query or template.
+ */
+export function renderOutput(
+  data: unknown,
+  format: OutputFormat,
+  options: OutputOptions = {},
+): string {
+  const value = format.query ? applyQuery(data, format.query) : data;
+  const lines = (items: string[]) =>
+    items.length ? `${items.join("\n")}\n` : "";
+
+  switch (format.mode) {
+    case "json":
+      return `${JSON.stringify(value ?? null, null, 2)}\n`;
+    case "ndjson":
+      return lines(
+        (Array.isArray(value) ? value : [value ?? null]).map((v) =>
+          JSON.stringify(v ?? null)
+        ),
+      );
+    case "yaml":
+      return stringifyYAML(value ?? null);
+    case "template": {
+      const items = Array.isArray(value) ? value : [value];
+      return lines(items.map((item) => renderTemplate(format.template!, item)));
+    }
+  }
+
+  const items = Array.isArray(value) ? value : [value];
+  if (value === undefined || !items.every(isRecord)) {
+    return lines(items.filter((v) => v !== undefined).map(cellText));
+  }
+  const rows = items as Record<string, unknown>[];
+  const columns = resolveColumns(rows, options.columns);
+  if (columns.length === 0) return "";
+  if (format.mode === "csv") return lines(renderDelimited(rows, columns, ","));
+  if (format.mode === "tsv") return lines(renderDelimited(rows, columns, "\t"));
+  if (rows.length === 0) return "";
+  const visible = format.mode === "wide"
+    ? columns
+    : columns.filter((c) => !c.wide);
+  return lines(renderTable(rows, visible));
+}
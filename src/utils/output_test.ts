@@ -0,0 +1,136 @@
+/**
+ * src/utils/output_test.ts
+ *
+ * `renderOutput` in each `--output` format, and `ctx.output()` as a command
+ * sees it with `--output` and `--query`.
+ */
+
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { CLI } from "../cli/mod.ts";
+import { runCLI } from "../testing.ts";
+import { EXIT_USAGE } from "../types.ts";
+import { type OutputColumn, parseOutputFlag, renderOutput } from "./output.ts";
+
+const ROWS = [
+  { name: "web", status: { phase: "Ready" }, replicas: 3, node: "n1" },
+  { name: "db", status: { phase: "Pending" }, replicas: 1, node: "n2" },
+];
+
+const COLUMNS: (string | OutputColumn)[] = [
+  "name",
+  { key: "status.phase", header: "PHASE" },
+  "replicas",
+  { key: "node", wide: true },
+];
+
+/* ------------------------------------------------------------------ *
+ *  Formats
+ * ------------------------------------------------------------------ */
+
+Deno.test("output: json is indented, and null when there is nothing", () => {
+  assertEquals(
+    renderOutput(ROWS, { mode: "json" }),
+    `${JSON.stringify(ROWS, null, 2)}\n`,
+  );
+  assertEquals(renderOutput(undefined, { mode: "json" }), "null\n");
+});
+
+Deno.test("output: ndjson writes one record per line", () => {
+  assertEquals(
+    renderOutput(ROWS, { mode: "ndjson" }),
+    ROWS.map((row) => `${JSON.stringify(row)}\n`).join(""),
+  );
+  assertEquals(renderOutput({ a: 1 }, { mode: "ndjson" }), '{"a":1}\n');
+});
+
+Deno.test("output: yaml", () => {
+  assertEquals(
+    renderOutput([ROWS[0]], { mode: "yaml" }),
+    "- name: web\n  status:\n    phase: Ready\n  replicas: 3\n  node: n1\n",
+  );
+});
+
+Deno.test("output: table aligns columns and hides wide ones", () => {
+  const table = renderOutput(ROWS, { mode: "table" }, { columns: COLUMNS });
+  assertEquals(
+    table,
+    [
+      "NAME   PHASE     REPLICAS",
+      "web    Ready     3",
+      "db     Pending   1",
+      "",
+    ].join("\n"),
+  );
+  assertEquals(
+    renderOutput(ROWS, { mode: "text" }, { columns: COLUMNS }),
+    table,
+  );
+  const wide = renderOutput(ROWS, { mode: "wide" }, { columns: COLUMNS });
+  assertEquals(wide.split("\n")[0], "NAME   PHASE     REPLICAS   NODE");
+});
+
+Deno.test("output: table of no rows or of scalars", () => {
+  assertEquals(renderOutput([], { mode: "table" }), "");
+  assertEquals(renderOutput(["a", "b"], { mode: "table" }), "a\nb\n");
+});
+
+Deno.test("output: parseOutputFlag rejects unknown formats", () => {
+  assertEquals(parseOutputFlag(undefined), { mode: "text" });
+  assertEquals(parseOutputFlag("template={{.name}}"), {
+    mode: "template",
+    template: "{{.name}}",
+  });
+  try {
+    parseOutputFlag("xml");
+    throw new Error("no error for xml");
+  } catch (err) {
+    assertStringIncludes((err as Error).message, 'got "xml"');
+  }
+});
+
+/* ------------------------------------------------------------------ *
+ *  ctx.output()
+ * ------------------------------------------------------------------ */
+
+/**
+ * A CLI whose `list` command outputs `ROWS` with `COLUMNS`.
+ *
+ * @returns The CLI.
+ */
+function listCLI(): CLI {
+  const cli = new CLI({ name: "app" });
+  cli.registerCommand(["list"], (_args, _flags, ctx) => {
+    ctx.output(ROWS, { columns: COLUMNS });
+  });
+  return cli;
+}
+
+Deno.test("output: --output and --query reach ctx.output()", async () => {
+  const result = await runCLI(listCLI(), [
+    "list",
+    "--output",
+    "ndjson",
+    "--query",
+    "[*].name",
+  ]);
+  assertEquals(result.exitCode, 0);
+  assertEquals(result.stdout, '"web"\n"db"\n');
+
+  const missing = await runCLI(listCLI(), [
+    "list",
+    "--output=json",
+    "--query=[0].missing",
+  ]);
+  assertEquals(missing.stdout, "null\n");
+});
+
+Deno.test("output: an invalid --query is a usage error", async () => {
+  const result = await runCLI(listCLI(), [
+    "list",
+    "--output=json",
+    "--query=[0",
+  ]);
+  assertEquals(result.exitCode, EXIT_USAGE);
+  assertEquals(result.stdout, "");
+  assertEquals(JSON.parse(result.stderr).error.code, "INVALID_QUERY");
+});
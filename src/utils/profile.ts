@@ -0,0 +1,74 @@
+/**
+ * src/utils/profile.ts
+ *
+ * Phase timings of a run, for `--profile`: how long parsing, config
+ * discovery, plugin and manifest loading, lazy imports, validation,
+ * middleware and the handler took.
+ */
+
+import { renderOutput } from "./output.ts";
+
+/** Time spent in one phase of a run. */
+export interface PhaseTiming {
+  /** Phase name, e.g. "config" or "import". */
+  phase: string;
+  /** Duration in milliseconds (summed if the phase ran more than once). */
+  ms: number;
+}
+
+/**
+ * Splits a run into consecutive phases: each `lap` attributes the time since
+ * the previous one to a phase.
+ */
+export class Profiler {
+  #last: number = performance.now();
+  #phases: PhaseTiming[] = [];
+
+  /**
+   * End the current phase.
+   *
+   * @param phase - The name of the phase that just ended.
+   */
+  lap(phase: string): void {
+    const now = performance.now();
+    const timing = this.#phases.find((t) => t.phase === phase);
+    if (timing) timing.ms += now - this.#last;
+    else this.#phases.push({ phase, ms: now - this.#last });
+    this.#last = now;
+  }
+
+  /** The phases so far, in the order they first ran. */
+  get phases(): PhaseTiming[] {
+    return this.#phases.map((timing) => ({ ...timing }));
+  }
+}
+
+/**
+ * Format phase timings as the table `--profile` prints: one row per phase,
+ * its share of the run, and the time no phase accounts for as "other".
+ *
+ * @param phases - The phase timings.
+ * @param totalMs - The duration of the whole run.
+ * @returns The table lines, headed by the total.
+ */
+export function formatProfile(
+  phases: PhaseTiming[],
+  totalMs: number,
+): string[] {
+  const measured = phases.reduce((sum, { ms }) => sum + ms, 0);
+  const rows = [
+    ...phases,
+    { phase: "other", ms: Math.max(0, totalMs - measured) },
+  ].map(({ phase, ms }) => ({
+    phase,
+    ms: ms.toFixed(1),
+    share: `${totalMs > 0 ? Math.round((ms / totalMs) * 100) : 0}%`,
+  }));
+  const table = renderOutput(rows, { mode: "table" }, {
+    columns: ["phase", { key: "ms", header: "MS" }, "share"],
+  });
+  return [
+    `Profile (${totalMs.toFixed(1)}ms total):`,
+    ...table.trimEnd().split("\n"),
+  ];
+}
@@ -0,0 +1,226 @@
+/**
+ * src/utils/profile_test.ts
+ *
+ * Phase timings: the `Profiler` behind every run's `phases`, the table
+ * `--profile` and `<NAME>_PROFILE` print, and `benchmarkCLI`'s cold and
+ * warm measurements.
+ */
+
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { toFileUrl } from "@std/path";
+import { CLI } from "../cli/mod.ts";
+import { benchmarkCLI, formatBenchmark, runCLI } from "../testing.ts";
+import { formatProfile, Profiler } from "./profile.ts";
+
+/** The phases of a command run, in the order they first run. */
+const COMMAND_PHASES = [
+  "parse",
+  "config",
+  "plugins",
+  "manifest",
+  "env",
+  "validate",
+  "setup",
+  "beforeEach",
+  "command",
+  "afterEach",
+];
+
+/**
+ * A CLI named `my-app` whose `ping` command logs "pong", and whose
+ * `show-config` command prints `ctx.config`.
+ *
+ * @returns The CLI.
+ */
+function profileCLI(): CLI {
+  const cli = new CLI({ name: "my-app" });
+  cli.registerCommand(["ping"], (_args, _flags, ctx) => ctx.log("pong"));
+  cli.registerCommand(["show-config"], (_args, _flags, ctx) => {
+    ctx.log(JSON.stringify(ctx.config));
+  });
+  return cli;
+}
+
+/* ------------------------------------------------------------------ *
+ *  Profiler and formatProfile
+ * ------------------------------------------------------------------ */
+
+Deno.test("profile: laps of the same phase add up, in first-run order", () => {
+  const profiler = new Profiler();
+  profiler.lap("parse");
+  profiler.lap("config");
+  profiler.lap("parse");
+  const phases = profiler.phases;
+  assertEquals(phases.map(({ phase }) => phase), ["parse", "config"]);
+  assert(phases.every(({ ms }) => ms >= 0));
+  // A copy: changing it leaves the profiler alone
+  phases[0].ms = -1;
+  assert(profiler.phases[0].ms >= 0);
+});
+
+Deno.test("profile: formatProfile shares the total and reports the rest as other", () => {
+  assertEquals(
+    formatProfile([{ phase: "parse", ms: 1 }, { phase: "import", ms: 6 }], 10),
+    [
+      "Profile (10.0ms total):",
+      "PHASE    MS    SHARE",
+      "parse    1.0   10%",
+      "import   6.0   60%",
+      "other    3.0   30%",
+    ],
+  );
+  assertEquals(formatProfile([], 0), [
+    "Profile (0.0ms total):",
+    "PHASE   MS    SHARE",
+    "other   0.0   0%",
+  ]);
+});
+
+/* ------------------------------------------------------------------ *
+ *  --profile and <NAME>_PROFILE
+ * ------------------------------------------------------------------ */
+
+Deno.test("profile: every run records its phases; only --profile prints them", async () => {
+  const quiet = await runCLI(profileCLI(), ["ping"]);
+  assertEquals(quiet.stderr, "");
+  assertEquals(quiet.phases?.map(({ phase }) => phase), COMMAND_PHASES);
+
+  const result = await runCLI(profileCLI(), ["ping", "--profile"]);
+  assertEquals(result.exitCode, 0);
+  assertEquals(result.stdout, "pong\n");
+  const lines = result.stderr.trimEnd().split("\n");
+  assertStringIncludes(lines[0], "Profile (");
+  assertEquals(lines[1].split(/\s+/), ["PHASE", "MS", "SHARE"]);
+  assertEquals(
+    lines.slice(2).map((line) => line.split(/\s+/)[0]),
+    [...COMMAND_PHASES, "other"],
+  );
+});
+
+Deno.test("profile: the phases are recorded on the command span", async () => {
+  const result = await runCLI(profileCLI(), ["ping", "--profile"]);
+  const span = result.spans.find((s) => s.name === "ping");
+  assert(span);
+  for (const phase of COMMAND_PHASES) {
+    assertEquals(typeof span.attributes[`cli.profile.${phase}_ms`], "number");
+  }
+  const plain = await runCLI(profileCLI(), ["ping"]);
+  const unprofiled = plain.spans.find((s) => s.name === "ping");
+  assert(
+    !Object.keys(unprofiled?.attributes ?? {}).some((key) =>
+      key.startsWith("cli.profile.")
+    ),
+  );
+});
+
+Deno.test("profile: <NAME>_PROFILE turns profiling on", async () => {
+  for (const value of ["1", "true", "YES"]) {
+    const result = await runCLI(profileCLI(), ["ping"], {
+      env: { MY_APP_PROFILE: value },
+    });
+    assert(result.stderr.startsWith("Profile ("), value);
+  }
+  for (const value of ["0", "false", ""]) {
+    const result = await runCLI(profileCLI(), ["ping"], {
+      env: { MY_APP_PROFILE: value },
+    });
+    assertEquals(result.stderr, "", value);
+  }
+});
+
+Deno.test("profile: <NAME>_PROFILE is not a config override", async () => {
+  const result = await runCLI(profileCLI(), ["show-config"], {
+    env: { MY_APP_PROFILE: "1" },
+  });
+  assertEquals(result.exitCode, 0);
+  assertEquals(JSON.parse(result.stdout), {});
+});
+
+Deno.test("profile: help and --version still print the profile", async () => {
+  for (const argv of [["--help", "--profile"], ["--version", "--profile"]]) {
+    const result = await runCLI(profileCLI(), argv);
+    assertEquals(result.exitCode, 0);
+    assert(result.stderr.includes("Profile ("), argv.join(" "));
+  }
+});
+
+Deno.test("profile: a lazy command's import is a phase of its own", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(
+      `${dir}/ping.ts`,
+      'export default (_args, _flags, ctx) => ctx.log("pong");\n',
+    );
+    const cli = new CLI({ name: "my-app" });
+    cli.registerLazyCommand(["ping"], toFileUrl(`${dir}/ping.ts`).href);
+    const result = await runCLI(cli, ["ping"]);
+    assertEquals(result.exitCode, 0, result.stderr);
+    const phases = result.phases?.map(({ phase }) => phase) ?? [];
+    assert(phases.indexOf("import") > phases.indexOf("beforeEach"));
+    assert(phases.indexOf("import") < phases.indexOf("command"));
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+/* ------------------------------------------------------------------ *
+ *  Benchmarks
+ * ------------------------------------------------------------------ */
+
+Deno.test("profile: benchmarkCLI runs each command cold once, then warm", async () => {
+  let created = 0;
+  const calls: string[] = [];
+  const create = () => {
+    created++;
+    const cli = new CLI({ name: "my-app" });
+    cli.registerCommand(["ping"], () => void calls.push("ping"));
+    cli.registerCommand(["fail"], () => {
+      calls.push("fail");
+      throw new Error("no");
+    });
+    return cli;
+  };
+  const results = await benchmarkCLI(create, [["ping"], ["fail"]], {
+    runs: 3,
+  });
+  assertEquals(created, 2, "a fresh CLI per command");
+  assertEquals(calls, [...Array(4).fill("ping"), ...Array(4).fill("fail")]);
+  assertEquals(
+    results.map(({ argv, exitCode, runs }) => [argv, exitCode, runs]),
+    [
+      [["ping"], 0, 3],
+      [["fail"], 1, 3],
+    ],
+  );
+  for (const result of results) {
+    assert(result.coldMs >= 0 && result.warmMs >= 0);
+    assertEquals(
+      result.phases.map(({ phase }) => phase).includes("command"),
+      true,
+    );
+  }
+});
+
+Deno.test("profile: benchmarkCLI without warm runs reports NaN", async () => {
+  const [result] = await benchmarkCLI(profileCLI, [["ping"]], { runs: 0 });
+  assertEquals(result.runs, 0);
+  assert(Number.isNaN(result.warmMs));
+});
+
+Deno.test("profile: formatBenchmark names each command's slowest cold phase", () => {
+  assertEquals(
+    formatBenchmark([{
+      argv: ["compute", "sum"],
+      exitCode: 0,
+      coldMs: 12.34,
+      warmMs: 1.5,
+      runs: 3,
+      phases: [{ phase: "parse", ms: 1 }, { phase: "import", ms: 9 }],
+    }]).split("\n"),
+    [
+      "COMMAND       EXIT   COLD     WARM    SLOWEST COLD PHASE",
+      "compute sum   0      12.3ms   1.5ms   import (9.0ms)",
+      "",
+    ],
+  );
+});
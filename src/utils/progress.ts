@@ -0,0 +1,462 @@
+/**
+ * src/utils/progress.ts
+ *
+ * A render manager that owns the terminal while a command runs: any number
+ * of concurrent tasks (spinners, and bars with rate, ETA and byte counts)
+ * are redrawn together below the log output, which is printed cleanly above
+ * them. Without a terminal, progress degrades to plain periodic lines; in
+ * json/ndjson mode it is reported as structured events.
+ */
+
+import { cyan, dim, green, red } from "@std/fmt/colors";
+import type { OutputStream } from "../runtime.ts";
+import { stripColors } from "./color.ts";
+
+/**
+ * How progress is shown:
+ * - "tty": animated frame redrawn in place
+ * - "plain": periodic lines, for logs and CI
+ * - "json": one JSON event per line
+ * - "silent": nothing (quiet mode)
+ */
+export type RenderMode = "tty" | "plain" | "json" | "silent";
+
+/** Options for a new task. */
+export interface TaskOptions {
+  /** Total units of work; omit for a spinner. */
+  total?: number;
+  /** "bytes" shows counts and rates as sizes (default: "items"). */
+  unit?: "items" | "bytes";
+}
+
+/** A progress event written in json mode. */
+export interface ProgressEvent {
+  type: "progress";
+  event: "start" | "update" | "done" | "fail";
+  /** Task id, unique within the run. */
+  task: number;
+  title: string;
+  current: number;
+  total?: number;
+  unit: "items" | "bytes";
+  elapsedMs: number;
+  /** Units per second since the task started. */
+  rate?: number;
+  /** Estimated milliseconds until `total` is reached. */
+  etaMs?: number;
+}
+
+/** Frames of the spinner animation. */
+const FRAMES = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
+/** Redraw interval of the terminal frame. */
+const FRAME_MS = 80;
+/** Minimum time between two plain lines / json updates for one task. */
+const REPORT_MS = 1_000;
+/** Width of a progress bar, in characters. */
+const BAR_WIDTH = 20;
+
+/**
+ * Format a number of bytes, e.g. `1.5 MB`.
+ *
+ * @param bytes - The byte count.
+ * @returns The human-readable size.
+ */
+export function formatBytes(bytes: number): string {
+  const units = ["B", "kB", "MB", "GB", "TB"];
+  let value = bytes;
+  let i = 0;
+  while (value >= 1000 && i < units.length - 1) {
+    value /= 1000;
+    i++;
+  }
+  return `${i === 0 ? value : value.toFixed(1)} ${units[i]}`;
+}
+
+/**
+ * Format a duration, e.g. `850ms`, `12s`, `3m05s`.
+ *
+ * @param ms - The duration in milliseconds.
+ * @returns The human-readable duration.
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1_000) return `${Math.round(ms)}ms`;
+  const seconds = Math.round(ms / 1_000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m${String(seconds % 60).padStart(2, "0")}s`;
+}
+
+/**
+ * Handle for one unit of work shown by a `RenderManager`. Create it with
+ * `ctx.task(title, options)`; a task without `total` is a spinner.
+ */
+export class ProgressTask {
+  #current = 0;
+  #total?: number;
+  #title: string;
+  #finished = false;
+  /** When the task started (`performance.now()`). */
+  readonly startedAt: number = performance.now();
+
+  /**
+   * Create a task; use `RenderManager.task` instead.
+   *
+   * @param id - Task id, unique within the run.
+   * @param title - Text shown next to the task.
+   * @param options - Total and unit.
+   * @param manager - The manager that renders it.
+   */
+  constructor(
+    readonly id: number,
+    title: string,
+    readonly options: TaskOptions,
+    private readonly manager: RenderManager,
+  ) {
+    this.#title = title;
+    this.#total = options.total;
+  }
+
+  /** Text shown next to the task. */
+  get title(): string {
+    return this.#title;
+  }
+
+  /** Units of work done so far. */
+  get current(): number {
+    return this.#current;
+  }
+
+  /** Total units of work, if known. */
+  get total(): number | undefined {
+    return this.#total;
+  }
+
+  /** Whether `succeed`, `fail` or `stop` was called. */
+  get finished(): boolean {
+    return this.#finished;
+  }
+
+  /**
+   * Record `n` more units of work.
+   *
+   * @param n - Units done (default: 1).
+   */
+  tick(n = 1): void {
+    this.update(this.#current + n);
+  }
+
+  /**
+   * Set the amount of work done, and optionally the title or total.
+   *
+   * @param current - Units done so far.
+   * @param changes - New title and/or total.
+   */
+  update(
+    current: number,
+    changes: { title?: string; total?: number } = {},
+  ): void {
+    if (this.#finished) return;
+    this.#current = current;
+    if (changes.title !== undefined) this.#title = changes.title;
+    if (changes.total !== undefined) this.#total = changes.total;
+    this.manager.updated(this);
+  }
+
+  /**
+   * Finish successfully; a `✔ title (elapsed)` line replaces the task.
+   *
+   * @param message - Text for the final line (default: the title).
+   */
+  succeed(message?: string): void {
+    this.#finish("done", message);
+  }
+
+  /**
+   * Finish unsuccessfully; a `✖ title` line replaces the task.
+   *
+   * @param message - Text for the final line (default: the title).
+   */
+  fail(message?: string): void {
+    this.#finish("fail", message);
+  }
+
+  /** Remove the task without leaving a final line. */
+  stop(): void {
+    this.#finish(null);
+  }
+
+  /**
+   * Mark the task finished and tell the manager.
+   *
+   * @param outcome - How it ended (`null`: silently).
+   * @param message - Text for the final line.
+   */
+  #finish(outcome: "done" | "fail" | null, message?: string): void {
+    if (this.#finished) return;
+    this.#finished = true;
+    if (message !== undefined) this.#title = message;
+    this.manager.finished(this, outcome);
+  }
+
+  /**
+   * Units per second since the task started.
+   *
+   * @returns The rate, or `undefined` before any progress.
+   */
+  rate(): number | undefined {
+    const seconds = (performance.now() - this.startedAt) / 1_000;
+    return this.#current > 0 && seconds > 0
+      ? this.#current / seconds
+      : undefined;
+  }
+
+  /**
+   * Estimated time until `total` is reached, at the current rate.
+   *
+   * @returns Milliseconds, or `undefined` without a total or rate.
+   */
+  etaMs(): number | undefined {
+    const rate = this.rate();
+    if (this.#total === undefined || !rate) return undefined;
+    return Math.max(0, (this.#total - this.#current) / rate * 1_000);
+  }
+}
+
+/**
+ * Owns stderr while tasks are active. All task output goes through a single
+ * timer, and writes to stdout/stderr made through `write` are printed above
+ * the frame instead of tearing it.
+ */
+export class RenderManager {
+  #tasks: ProgressTask[] = [];
+  #nextId = 1;
+  /** Number of lines of the frame currently on screen. */
+  #drawn = 0;
+  #frame = 0;
+  #timer: ReturnType<typeof setInterval> | null = null;
+  #suspended = 0;
+  /** Last time each task was reported in plain/json mode. */
+  #reported = new Map<ProgressTask, number>();
+
+  /**
+   * Create a render manager.
+   *
+   * @param out - Where progress is drawn (normally stderr).
+   * @param mode - How progress is shown.
+   */
+  constructor(
+    private readonly out: OutputStream,
+    readonly mode: RenderMode,
+  ) {}
+
+  /**
+   * Start a task.
+   *
+   * @param title - Text shown next to the task.
+   * @param options - Total (omit for a spinner) and unit.
+   * @returns The task handle.
+   */
+  task(title: string, options: TaskOptions = {}): ProgressTask {
+    const task = new ProgressTask(this.#nextId++, title, options, this);
+    this.#tasks.push(task);
+    if (this.mode === "tty") {
+      this.#render();
+      this.#timer ??= setInterval(() => {
+        this.#frame = (this.#frame + 1) % FRAMES.length;
+        this.#render();
+      }, FRAME_MS);
+    } else {
+      this.#report(task, "start");
+    }
+    return task;
+  }
+
+  /**
+   * Write `text` to `stream` above the active tasks.
+   *
+   * @param stream - stdout or stderr.
+   * @param text - The text to write (normally ending in a newline).
+   */
+  write(stream: OutputStream, text: string): void {
+    const covers = this.#drawn > 0 &&
+      (stream === this.out || stream.isTerminal());
+    if (covers) this.#erase();
+    stream.write(text);
+    if (covers) this.#render();
+  }
+
+  /**
+   * Hide the frame while `fn` runs (e.g. a prompt), then redraw it.
+   *
+   * @typeParam T - Return type of `fn`.
+   * @param fn - Work that needs the terminal to itself.
+   * @returns Whatever `fn` returns.
+   */
+  async suspend<T>(fn: () => Promise<T>): Promise<T> {
+    this.#suspended++;
+    this.#erase();
+    try {
+      return await fn();
+    } finally {
+      this.#suspended--;
+      this.#render();
+    }
+  }
+
+  /** Remove every active task without final lines, and stop the timer. */
+  stop(): void {
+    for (const task of [...this.#tasks]) task.stop();
+  }
+
+  /**
+   * Called by a task whose progress changed.
+   *
+   * @param task - The task.
+   */
+  updated(task: ProgressTask): void {
+    if (this.mode === "tty") return; // picked up by the next frame
+    const last = this.#reported.get(task) ?? 0;
+    if (performance.now() - last >= REPORT_MS) this.#report(task, "update");
+  }
+
+  /**
+   * Called by a task that finished.
+   *
+   * @param task - The task.
+   * @param outcome - How it ended (`null`: silently).
+   */
+  finished(task: ProgressTask, outcome: "done" | "fail" | null): void {
+    this.#tasks = this.#tasks.filter((t) => t !== task);
+    this.#reported.delete(task);
+    if (this.mode === "tty") {
+      this.#erase();
+      if (outcome) this.out.write(`${this.#finalLine(task, outcome)}\n`);
+      if (this.#tasks.length === 0 && this.#timer !== null) {
+        clearInterval(this.#timer);
+        this.#timer = null;
+      }
+      this.#render();
+    } else if (outcome) {
+      this.#report(task, outcome);
+    }
+  }
+
+  /** Redraw the frame in place (tty mode). */
+  #render(): void {
+    if (this.mode !== "tty" || this.#suspended) return;
+    const width = this.out.columns?.();
+    const lines = this.#tasks.map((task) => {
+      const line = this.#taskLine(task);
+      const plain = stripColors(line);
+      return width && plain.length >= width ? plain.slice(0, width - 1) : line;
+    });
+    this.#erase();
+    if (lines.length) this.out.write(`${lines.join("\n")}\n`);
+    this.#drawn = lines.length;
+  }
+
+  /** Erase the frame, leaving the cursor where it started. */
+  #erase(): void {
+    if (this.#drawn === 0) return;
+    this.out.write(`\x1b[${this.#drawn}A\r\x1b[J`);
+    this.#drawn = 0;
+  }
+
+  /**
+   * One frame line for a task: spinner and title, plus a bar, counts, rate
+   * and ETA when it has a total.
+   *
+   * @param task - The task.
+   * @returns The line.
+   */
+  #taskLine(task: ProgressTask): string {
+    const parts = [cyan(FRAMES[this.#frame]), task.title];
+    if (task.total !== undefined) {
+      const ratio = task.total > 0 ? Math.min(1, task.current / task.total) : 1;
+      const filled = Math.floor(ratio * BAR_WIDTH);
+      parts.push(
+        `[${"#".repeat(filled)}${"-".repeat(BAR_WIDTH - filled)}]`,
+        `${Math.floor(ratio * 100)}%`,
+      );
+    }
+    parts.push(dim(this.#stats(task)));
+    return parts.join(" ");
+  }
+
+  /**
+   * Counts, rate and ETA (or elapsed time for spinners).
+   *
+   * @param task - The task.
+   * @returns E.g. `5/10 · 2.0/s · ETA 3s`.
+   */
+  #stats(task: ProgressTask): string {
+    const bytes = task.options.unit === "bytes";
+    const count = (n: number) => bytes ? formatBytes(n) : String(n);
+    const stats: string[] = [];
+    if (task.total !== undefined) {
+      stats.push(`${count(task.current)}/${count(task.total)}`);
+    } else if (task.current > 0) {
+      stats.push(count(task.current));
+    }
+    const rate = task.rate();
+    if (rate !== undefined && (task.total !== undefined || bytes)) {
+      stats.push(bytes ? `${formatBytes(rate)}/s` : `${rate.toFixed(1)}/s`);
+    }
+    const eta = task.etaMs();
+    stats.push(
+      eta !== undefined
+        ? `ETA ${formatDuration(eta)}`
+        : formatDuration(performance.now() - task.startedAt),
+    );
+    return stats.join(" · ");
+  }
+
+  /**
+   * The line left behind by a finished task.
+   *
+   * @param task - The task.
+   * @param outcome - How it ended.
+   * @returns The line.
+   */
+  #finalLine(task: ProgressTask, outcome: "done" | "fail"): string {
+    const elapsed = formatDuration(performance.now() - task.startedAt);
+    return outcome === "done"
+      ? `${green("✔")} ${task.title} ${dim(`(${elapsed})`)}`
+      : `${red("✖")} ${task.title} ${dim(`(${elapsed})`)}`;
+  }
+
+  /**
+   * Report a task as a plain line or a json event.
+   *
+   * @param task - The task.
+   * @param event - What happened.
+   */
+  #report(task: ProgressTask, event: ProgressEvent["event"]): void {
+    this.#reported.set(task, performance.now());
+    if (this.mode === "json") {
+      const rate = task.rate();
+      const etaMs = task.etaMs();
+      const payload: ProgressEvent = {
+        type: "progress",
+        event,
+        task: task.id,
+        title: task.title,
+        current: task.current,
+        total: task.total,
+        unit: task.options.unit ?? "items",
+        elapsedMs: Math.round(performance.now() - task.startedAt),
+        rate: rate === undefined ? undefined : Number(rate.toFixed(3)),
+        etaMs: etaMs === undefined ? undefined : Math.round(etaMs),
+      };
+      this.out.write(`${JSON.stringify(payload)}\n`);
+    } else if (this.mode === "plain") {
+      if (event === "done" || event === "fail") {
+        this.out.write(`${this.#finalLine(task, event)}\n`);
+      } else if (event === "start") {
+        this.out.write(`${task.title}…\n`);
+      } else {
+        this.out.write(`${task.title}: ${this.#stats(task)}\n`);
+      }
+    }
+  }
+}
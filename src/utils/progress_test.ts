@@ -0,0 +1,175 @@
+/**
+ * src/utils/progress_test.ts
+ *
+ * The render manager in each mode: plain lines and json events without a
+ * terminal, and the tty frame's lifecycle (redraw timer, log lines above the
+ * frame, prompts that suspend it).
+ */
+
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import type { OutputStream } from "../runtime.ts";
+import { stripColors } from "./color.ts";
+import {
+  formatBytes,
+  formatDuration,
+  type ProgressEvent,
+  RenderManager,
+} from "./progress.ts";
+
+/** Erases a one-line frame. */
+const ERASE_ONE = "\x1b[1A\r\x1b[J";
+
+/** An output stream that records every write. */
+interface Recorder extends OutputStream {
+  writes: string[];
+}
+
+/**
+ * Create a recording output stream.
+ *
+ * @param tty - Whether it claims to be a terminal.
+ * @returns The stream.
+ */
+function recorder(tty: boolean): Recorder {
+  const writes: string[] = [];
+  return {
+    writes,
+    write: (text) => void writes.push(stripColors(text)),
+    isTerminal: () => tty,
+    columns: () => tty ? 80 : undefined,
+  };
+}
+
+/**
+ * Wait for a few redraw intervals.
+ *
+ * @returns Resolves after 250ms.
+ */
+function frames(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 250));
+}
+
+/* ------------------------------------------------------------------ *
+ *  Formatting
+ * ------------------------------------------------------------------ */
+
+Deno.test("progress: formatBytes and formatDuration", () => {
+  assertEquals(formatBytes(512), "512 B");
+  assertEquals(formatBytes(1_500_000), "1.5 MB");
+  assertEquals(formatDuration(850), "850ms");
+  assertEquals(formatDuration(12_000), "12s");
+  assertEquals(formatDuration(185_000), "3m05s");
+});
+
+/* ------------------------------------------------------------------ *
+ *  Without a terminal
+ * ------------------------------------------------------------------ */
+
+Deno.test("progress: plain mode prints start, throttled updates and the end", () => {
+  const out = recorder(false);
+  const manager = new RenderManager(out, "plain");
+  const task = manager.task("Upload", { total: 10 });
+  task.tick();
+  task.tick();
+  task.succeed("Uploaded");
+  manager.task("Verify").fail();
+  assertEquals(out.writes.length, 4);
+  assertEquals(out.writes[0], "Upload…\n");
+  assertStringIncludes(out.writes[1], "✔ Uploaded (");
+  assertEquals(out.writes[2], "Verify…\n");
+  assertStringIncludes(out.writes[3], "✖ Verify (");
+});
+
+Deno.test("progress: json mode writes one event per line", () => {
+  const out = recorder(false);
+  const manager = new RenderManager(out, "json");
+  const task = manager.task("Download", { total: 2048, unit: "bytes" });
+  task.update(2048);
+  task.succeed();
+  manager.task("Cleanup").stop();
+  const events = out.writes.map((line) => JSON.parse(line) as ProgressEvent);
+  // A stopped task ends without an event
+  assertEquals(events.map((e) => e.event), ["start", "done", "start"]);
+  assertEquals(events[0].type, "progress");
+  assertEquals(events[0].task, 1);
+  assertEquals(events[0].unit, "bytes");
+  assertEquals(events[0].total, 2048);
+  assertEquals(events[1].current, 2048);
+});
+
+Deno.test("progress: silent mode writes nothing", () => {
+  const out = recorder(false);
+  const manager = new RenderManager(out, "silent");
+  manager.task("Upload", { total: 1 }).succeed();
+  assertEquals(out.writes, []);
+});
+
+/* ------------------------------------------------------------------ *
+ *  Terminal frame
+ * ------------------------------------------------------------------ */
+
+Deno.test("progress: the tty frame redraws until the last task ends", async () => {
+  const out = recorder(true);
+  const manager = new RenderManager(out, "tty");
+  const upload = manager.task("Upload", { total: 10 });
+  const verify = manager.task("Verify");
+  upload.update(5);
+  await frames();
+  const frame = out.writes.at(-1)!;
+  assertStringIncludes(frame, "Upload [##########----------] 50%");
+  assertStringIncludes(frame, "\n");
+  assertStringIncludes(frame, "Verify");
+
+  upload.succeed();
+  assertStringIncludes(out.writes.join(""), "✔ Upload (");
+  const redraws = out.writes.length;
+  await frames();
+  assert(out.writes.length > redraws, "the timer runs while a task is left");
+
+  verify.succeed();
+  assertStringIncludes(out.writes.at(-1)!, "✔ Verify (");
+  const settled = out.writes.length;
+  await frames();
+  assertEquals(out.writes.length, settled, "the timer stops with the last");
+});
+
+Deno.test("progress: stop() removes tasks without final lines", async () => {
+  const out = recorder(true);
+  const manager = new RenderManager(out, "tty");
+  manager.task("Upload");
+  manager.task("Verify");
+  manager.stop();
+  assert(!out.writes.join("").includes("✔"));
+  const settled = out.writes.length;
+  await frames();
+  assertEquals(out.writes.length, settled);
+});
+
+Deno.test("progress: log lines are written above the frame", () => {
+  const out = recorder(true);
+  const manager = new RenderManager(out, "tty");
+  const task = manager.task("Upload");
+  const before = out.writes.length;
+  manager.write(out, "hello\n");
+  const [erase, text, frame] = out.writes.slice(before);
+  assertEquals(erase, ERASE_ONE);
+  assertEquals(text, "hello\n");
+  assertStringIncludes(frame, "Upload");
+  task.stop();
+});
+
+Deno.test("progress: suspend() hides the frame while a prompt runs", async () => {
+  const out = recorder(true);
+  const manager = new RenderManager(out, "tty");
+  const task = manager.task("Upload");
+  const answer = await manager.suspend(async () => {
+    assertEquals(out.writes.at(-1), ERASE_ONE);
+    const during = out.writes.length;
+    await frames();
+    assertEquals(out.writes.length, during, "no redraws while suspended");
+    return "yes";
+  });
+  assertEquals(answer, "yes");
+  assertStringIncludes(out.writes.at(-1)!, "Upload");
+  task.stop();
+});
@@ -0,0 +1,650 @@
+/**
+ * src/utils/prompt.ts
+ *
+ * Interactive prompts (confirm, free text, password, select, multi-select)
+ * read key by key from stdin in raw mode and drawn on stderr. When prompts
+ * are disabled — stdin is not a terminal, or `--yes` / `--no-input` was
+ * given — each prompt resolves to its default or fails with a CLIError.
+ */
+
+import { bold, cyan, dim, green, red } from "@std/fmt/colors";
+import type { ZodType, ZodTypeDef } from "zod";
+import { CLIError, EXIT_USAGE } from "../types.ts";
+import type { InputStream, OutputStream } from "../runtime.ts";
+import { interruptError } from "./errors.ts";
+
+/** How prompts behave for a run. */
+export interface PromptSettings {
+  /** Whether prompts may read from the terminal. */
+  interactive: boolean;
+  /** Answer every `confirm` with yes (`--yes`). */
+  assumeYes?: boolean;
+  /** Omit hints and the answered-prompt summary line (`--quiet`). */
+  quiet?: boolean;
+  /** Aborting it (e.g. on SIGTERM) fails the prompt being shown. */
+  signal?: AbortSignal;
+}
+
+/** Options for `confirm`. */
+export interface ConfirmOptions {
+  /** Answer used for an empty reply, and when prompts are disabled. */
+  default?: boolean;
+}
+
+/** Options for `prompt` and `password`. */
+export interface InputOptions<T = string> {
+  /**
+   * Raw reply used for an empty answer, and when prompts are disabled. It
+   * goes through `schema` like a typed reply. Ignored by `password`.
+   */
+  default?: string;
+  /**
+   * Zod schema the reply is validated (and transformed) with, e.g.
+   * `z.coerce.number().int().positive()`. Invalid replies are re-prompted.
+   */
+  schema?: ZodType<T, ZodTypeDef, unknown>;
+}
+
+/** One entry of a `select` / `multiSelect` list. */
+export interface Choice<T = string> {
+  /** Text shown in the list. */
+  label: string;
+  /** Value returned when the entry is picked. */
+  value: T;
+  /** Dimmed text shown after the label. */
+  hint?: string;
+}
+
+/** Options for `select`. */
+export interface SelectOptions<T = string> {
+  /** Entries to pick from; a plain string is both label and value. */
+  choices: readonly (Choice<T> | (T & string))[];
+  /** Value initially highlighted, and used when prompts are disabled. */
+  default?: T;
+}
+
+/** Options for `multiSelect`. */
+export interface MultiSelectOptions<T = string> {
+  /** Entries to pick from; a plain string is both label and value. */
+  choices: readonly (Choice<T> | (T & string))[];
+  /** Values initially checked, and used when prompts are disabled. */
+  default?: T[];
+  /** Zod schema for the picked values, e.g. `z.array(z.string()).min(1)`. */
+  schema?: ZodType<T[], ZodTypeDef, unknown>;
+}
+
+/** A decoded keypress. */
+type Key =
+  | { name: "up" | "down" | "enter" | "backspace" | "cancel" | "other" }
+  | { name: "char"; char: string };
+
+/** Result of handling a key: an answer, a validation error, or neither. */
+type Outcome<T> = { value: T } | { error: string } | undefined;
+
+/** What a single prompt draws and how it reacts to keys. */
+interface View<T> {
+  /** Lines to draw, the first one holding the question. */
+  lines(): string[];
+  /** Handle a keypress. */
+  key(key: Key): Outcome<T>;
+  /** Handle the end of stdin; `undefined` or an error fails the prompt. */
+  eof(): Outcome<T>;
+  /** The answer as shown in the summary line. */
+  answer(value: T): string;
+}
+
+/** Escape sequences for the arrow keys (CSI and SS3 forms). */
+// deno-lint-ignore no-control-regex
+const ESCAPE = /^\x1b(?:\[[0-9;]*[A-Za-z~]|O[A-Za-z])?/;
+
+/**
+ * Reads stdin as a sequence of keypresses. A single reader is shared by all
+ * prompts of a run, so scripted input (`"y\nadmin\n"`) feeds successive
+ * prompts in order.
+ */
+class KeyReader {
+  #reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  #decoder = new TextDecoder();
+  #pending = "";
+  #done = false;
+
+  constructor(private readonly stdin: InputStream) {}
+
+  /**
+   * Wait for the next keypress.
+   *
+   * @returns The key, or `null` once stdin is exhausted.
+   */
+  async next(): Promise<Key | null> {
+    while (!this.#pending) {
+      if (this.#done) return null;
+      this.#reader ??= this.stdin.readable.getReader();
+      const { value, done } = await this.#reader.read();
+      if (done) {
+        this.#done = true;
+        this.#pending += this.#decoder.decode();
+      } else {
+        this.#pending += this.#decoder.decode(value, { stream: true });
+      }
+    }
+    return this.#take();
+  }
+
+  /**
+   * Remove one key from the front of the pending input.
+   *
+   * @returns The decoded key.
+   */
+  #take(): Key {
+    const pending = this.#pending;
+    const consume = (n: number) => {
+      this.#pending = pending.slice(n);
+    };
+    if (pending[0] === "\x1b") {
+      const seq = ESCAPE.exec(pending)![0];
+      consume(seq.length);
+      const final = seq.at(-1);
+      if (seq.length > 1 && final === "A") return { name: "up" };
+      if (seq.length > 1 && final === "B") return { name: "down" };
+      return { name: "other" };
+    }
+    if (pending.startsWith("\r\n")) {
+      consume(2);
+      return { name: "enter" };
+    }
+    const char = String.fromCodePoint(pending.codePointAt(0)!);
+    consume(char.length);
+    switch (char) {
+      case "\r":
+      case "\n":
+        return { name: "enter" };
+      case "\x7f":
+      case "\b":
+        return { name: "backspace" };
+      case "\x03":
+        return { name: "cancel" };
+      default:
+        return char < " " ? { name: "other" } : { name: "char", char };
+    }
+  }
+}
+
+/**
+ * Validate a reply against an optional schema.
+ *
+ * @param schema - The schema, if any.
+ * @param raw - The reply.
+ * @returns The (transformed) value, or the first validation message.
+ */
+function validate<T>(
+  schema: ZodType<T, ZodTypeDef, unknown> | undefined,
+  raw: unknown,
+): { value: T } | { error: string } {
+  if (!schema) return { value: raw as T };
+  const parsed = schema.safeParse(raw);
+  return parsed.success
+    ? { value: parsed.data }
+    : { error: parsed.error.issues[0]?.message ?? "Invalid value" };
+}
+
+/**
+ * Normalize `select` / `multiSelect` choices.
+ *
+ * @param message - The question, for the error message.
+ * @param choices - Choices as given.
+ * @returns Choices with labels and values.
+ * @throws CLIError (code `INVALID_PROMPT`) if there are no choices.
+ */
+function toChoices<T>(
+  message: string,
+  choices: readonly (Choice<T> | (T & string))[],
+): Choice<T>[] {
+  if (choices.length === 0) {
+    throw new CLIError(`Cannot prompt for "${message}": no choices given`, 1, {
+      code: "INVALID_PROMPT",
+      details: { prompt: message },
+    });
+  }
+  return choices.map((c) =>
+    typeof c === "string" ? { label: c, value: c as T } : c as Choice<T>
+  );
+}
+
+/**
+ * Asks questions on a terminal, or answers them from defaults when prompts
+ * are disabled.
+ */
+export class Prompter {
+  #keys: KeyReader;
+  /** Number of lines drawn by the current prompt. */
+  #drawn = 0;
+
+  /**
+   * Create a prompter.
+   *
+   * @param stdin - Where keypresses are read from.
+   * @param out - Where prompts are drawn (normally stderr).
+   * @param settings - Whether prompts are enabled, `--yes`, `--quiet`.
+   */
+  constructor(
+    private readonly stdin: InputStream,
+    private readonly out: OutputStream,
+    private readonly settings: PromptSettings,
+  ) {
+    this.#keys = new KeyReader(stdin);
+  }
+
+  /**
+   * Ask a yes/no question. `--yes` answers it with yes without asking.
+   *
+   * @param message - The question.
+   * @param options - The default answer.
+   * @returns The answer.
+   * @throws CLIError (code `INPUT_REQUIRED`) if prompts are disabled and
+   *         there is no default.
+   */
+  async confirm(
+    message: string,
+    options: ConfirmOptions = {},
+  ): Promise<boolean> {
+    if (this.settings.assumeYes) return true;
+    const def = options.default;
+    if (!this.settings.interactive) return this.#fallback(message, def);
+    const hint = def === undefined ? "(y/n)" : def ? "(Y/n)" : "(y/N)";
+    let buffer = "";
+    const submit = (): Outcome<boolean> => {
+      const reply = buffer.trim().toLowerCase();
+      if (reply === "" && def !== undefined) return { value: def };
+      if (reply === "y" || reply === "yes") return { value: true };
+      if (reply === "n" || reply === "no") return { value: false };
+      return { error: "Please answer y or n" };
+    };
+    return await this.#ask(message, {
+      lines: () => [this.#question(message, hint, buffer)],
+      key: (key) => {
+        if (key.name === "enter") return submit();
+        buffer = edit(buffer, key);
+      },
+      eof: submit,
+      answer: (value) => value ? "yes" : "no",
+    });
+  }
+
+  /**
+   * Ask for a line of text.
+   *
+   * @typeParam T - The value type produced by `schema`.
+   * @param message - The question.
+   * @param options - Default reply and validation schema.
+   * @returns The validated reply.
+   * @throws CLIError (code `INPUT_REQUIRED`) if prompts are disabled and
+   *         there is no default, or `INVALID_INPUT` if the default is invalid.
+   */
+  async prompt<T = string>(
+    message: string,
+    options: InputOptions<T> = {},
+  ): Promise<T> {
+    return await this.#text(message, options, false);
+  }
+
+  /**
+   * Ask for a secret; typed characters are masked and never echoed back.
+   * Password prompts have no default, so they fail when prompts are
+   * disabled.
+   *
+   * @typeParam T - The value type produced by `schema`.
+   * @param message - The question.
+   * @param options - Validation schema.
+   * @returns The validated reply.
+   * @throws CLIError (code `INPUT_REQUIRED`) if prompts are disabled.
+   */
+  async password<T = string>(
+    message: string,
+    options: Omit<InputOptions<T>, "default"> = {},
+  ): Promise<T> {
+    return await this.#text(message, options, true);
+  }
+
+  /**
+   * Ask the user to pick one entry with the arrow keys and enter.
+   *
+   * @typeParam T - The choice value type.
+   * @param message - The question.
+   * @param options - Choices and the default value.
+   * @returns The picked value.
+   * @throws CLIError (code `INPUT_REQUIRED`) if prompts are disabled and
+   *         there is no default, or `INVALID_PROMPT` if `choices` is empty.
+   */
+  async select<T = string>(
+    message: string,
+    options: SelectOptions<T>,
+  ): Promise<T> {
+    const choices = toChoices(message, options.choices);
+    if (!this.settings.interactive) {
+      return this.#fallback(message, options.default);
+    }
+    let cursor = Math.max(
+      0,
+      choices.findIndex((c) => c.value === options.default),
+    );
+    return await this.#ask(message, {
+      lines: () => [
+        this.#question(message, "↑/↓ to move, enter to select"),
+        ...choices.map((c, i) => this.#choiceLine(c, i === cursor)),
+      ],
+      key: (key) => {
+        if (key.name === "enter") return { value: choices[cursor].value };
+        cursor = move(cursor, key, choices.length);
+      },
+      eof: () =>
+        options.default === undefined ? undefined : { value: options.default },
+      answer: (value) => choices.find((c) => c.value === value)?.label ?? "",
+    });
+  }
+
+  /**
+   * Ask the user to check any number of entries (space toggles, `a` toggles
+   * all, enter confirms).
+   *
+   * @typeParam T - The choice value type.
+   * @param message - The question.
+   * @param options - Choices, initially checked values and a schema.
+   * @returns The checked values, in choice order.
+   * @throws CLIError (code `INPUT_REQUIRED`) if prompts are disabled and
+   *         there is no default, `INVALID_INPUT` if the default is invalid,
+   *         or `INVALID_PROMPT` if `choices` is empty.
+   */
+  async multiSelect<T = string>(
+    message: string,
+    options: MultiSelectOptions<T>,
+  ): Promise<T[]> {
+    const choices = toChoices(message, options.choices);
+    if (!this.settings.interactive) {
+      const def = this.#fallback(message, options.default);
+      return this.#checkDefault(message, options.schema, def);
+    }
+    const checked = new Set(
+      choices.filter((c) => options.default?.includes(c.value)),
+    );
+    let cursor = 0;
+    const picked = () =>
+      choices.filter((c) => checked.has(c)).map((c) => c.value);
+    return await this.#ask(message, {
+      lines: () => [
+        this.#question(
+          message,
+          "↑/↓ to move, space to toggle, a to toggle all, enter to confirm",
+        ),
+        ...choices.map((c, i) => {
+          const box = checked.has(c) ? green("◉") : "◯";
+          return this.#choiceLine(
+            { ...c, label: `${box} ${c.label}` },
+            i === cursor,
+          );
+        }),
+      ],
+      key: (key) => {
+        if (key.name === "enter") return validate(options.schema, picked());
+        if (key.name === "char" && key.char === " ") {
+          const choice = choices[cursor];
+          if (!checked.delete(choice)) checked.add(choice);
+        } else if (key.name === "char" && key.char === "a") {
+          const all = checked.size === choices.length;
+          checked.clear();
+          if (!all) choices.forEach((c) => checked.add(c));
+        } else {
+          cursor = move(cursor, key, choices.length);
+        }
+      },
+      eof: () =>
+        options.default === undefined
+          ? undefined
+          : validate(options.schema, options.default),
+      answer: (values) =>
+        choices.filter((c) => values.includes(c.value)).map((c) => c.label)
+          .join(", "),
+    });
+  }
+
+  /**
+   * Shared implementation of `prompt` and `password`.
+   *
+   * @param message - The question.
+   * @param options - Default reply and validation schema.
+   * @param secret - Whether to mask the reply.
+   * @returns The validated reply.
+   */
+  async #text<T>(
+    message: string,
+    options: InputOptions<T>,
+    secret: boolean,
+  ): Promise<T> {
+    const def = secret ? undefined : options.default;
+    if (!this.settings.interactive) {
+      return this.#checkDefault(
+        message,
+        options.schema,
+        this.#fallback(message, def),
+      );
+    }
+    let buffer = "";
+    const submit = () =>
+      validate(
+        options.schema,
+        buffer === "" && def !== undefined ? def : buffer,
+      );
+    return await this.#ask(message, {
+      lines: () => [
+        this.#question(
+          message,
+          def ? `(${def})` : "",
+          secret ? "*".repeat([...buffer].length) : buffer,
+        ),
+      ],
+      key: (key) => {
+        if (key.name === "enter") return submit();
+        buffer = edit(buffer, key);
+      },
+      eof: submit,
+      answer: (value) => secret ? "*".repeat(8) : String(value),
+    });
+  }
+
+  /**
+   * Run a prompt: draw it, feed it keys until it produces an answer, then
+   * replace it with a one-line summary.
+   *
+   * @param message - The question (for the summary and errors).
+   * @param view - The prompt's drawing and key handling.
+   * @returns The answer.
+   * @throws CLIError on Ctrl-C (code `CANCELLED`, exit 130) or when stdin
+   *         ends without a valid answer (code `INPUT_REQUIRED`); the abort
+   *         reason if the run is cancelled.
+   */
+  async #ask<T>(message: string, view: View<T>): Promise<T> {
+    this.stdin.setRaw?.(true);
+    try {
+      let error: string | undefined;
+      while (true) {
+        const lines = view.lines();
+        if (error) lines.push(red(`✖ ${error}`));
+        this.#draw(lines);
+        const key = await this.#nextKey();
+        // Raw mode swallows the SIGINT Ctrl-C would send, so treat it alike
+        if (key?.name === "cancel") throw interruptError("SIGINT");
+        const outcome = key ? view.key(key) : view.eof();
+        if (!key && (!outcome || "error" in outcome)) {
+          throw inputRequired(
+            message,
+            outcome ? `invalid answer (${outcome.error})` : "stdin was closed",
+          );
+        }
+        error = outcome && "error" in outcome ? outcome.error : undefined;
+        if (outcome && "value" in outcome) {
+          this.#draw([]);
+          if (!this.settings.quiet) {
+            this.out.write(
+              `${green("✔")} ${bold(message)} ${dim("·")} ${
+                cyan(view.answer(outcome.value))
+              }\n`,
+            );
+          }
+          return outcome.value;
+        }
+      }
+    } catch (err) {
+      this.#draw([]);
+      throw err;
+    } finally {
+      this.stdin.setRaw?.(false);
+    }
+  }
+
+  /**
+   * Wait for the next key, giving up when the run is cancelled.
+   *
+   * @returns The key, or `null` once stdin is exhausted.
+   * @throws The abort reason if `settings.signal` is aborted first.
+   */
+  async #nextKey(): Promise<Key | null> {
+    const { signal } = this.settings;
+    if (!signal) return await this.#keys.next();
+    signal.throwIfAborted();
+    const aborted = Promise.withResolvers<never>();
+    const onAbort = () => aborted.reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    try {
+      return await Promise.race([this.#keys.next(), aborted.promise]);
+    } finally {
+      signal.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Replace the lines drawn so far with `lines` (the cursor is left at the
+   * end of the last line).
+   *
+   * @param lines - Lines to draw; empty to just erase.
+   */
+  #draw(lines: string[]): void {
+    let text = "";
+    if (this.#drawn > 1) text += `\x1b[${this.#drawn - 1}A`;
+    if (this.#drawn > 0) text += "\r\x1b[J";
+    text += lines.join("\n");
+    this.#drawn = lines.length;
+    this.out.write(text);
+  }
+
+  /**
+   * Format the question line.
+   *
+   * @param message - The question.
+   * @param hint - Dimmed hint (dropped in quiet mode).
+   * @param reply - What has been typed so far.
+   * @returns The line.
+   */
+  #question(message: string, hint: string, reply = ""): string {
+    const parts = [cyan("?"), bold(message)];
+    if (hint && !this.settings.quiet) parts.push(dim(hint));
+    return `${parts.join(" ")} ${reply}`;
+  }
+
+  /**
+   * Format one line of a choice list.
+   *
+   * @param choice - The choice.
+   * @param active - Whether the cursor is on it.
+   * @returns The line.
+   */
+  #choiceLine<T>(choice: Choice<T>, active: boolean): string {
+    const hint = choice.hint && !this.settings.quiet
+      ? ` ${dim(choice.hint)}`
+      : "";
+    return active
+      ? `${cyan("❯")} ${cyan(choice.label)}${hint}`
+      : `  ${choice.label}${hint}`;
+  }
+
+  /**
+   * Answer a prompt without asking: its default, if it has one.
+   *
+   * @param message - The question.
+   * @param def - The default answer.
+   * @returns The default.
+   * @throws CLIError (code `INPUT_REQUIRED`) if there is no default.
+   */
+  #fallback<T>(message: string, def: T | undefined): T {
+    if (def !== undefined) return def;
+    throw inputRequired(
+      message,
+      this.settings.assumeYes || this.stdin.isTerminal()
+        ? "prompts are disabled (--yes/--no-input) and there is no default"
+        : "stdin is not a terminal and there is no default",
+    );
+  }
+
+  /**
+   * Validate a default used in place of an answer.
+   *
+   * @param message - The question.
+   * @param schema - The prompt's schema, if any.
+   * @param value - The default.
+   * @returns The validated default.
+   * @throws CLIError (code `INVALID_INPUT`) if it fails validation.
+   */
+  #checkDefault<T>(
+    message: string,
+    schema: ZodType<T, ZodTypeDef, unknown> | undefined,
+    value: unknown,
+  ): T {
+    const result = validate(schema, value);
+    if ("value" in result) return result.value;
+    throw new CLIError(
+      `Invalid default for "${message}": ${result.error}`,
+      EXIT_USAGE,
+      { code: "INVALID_INPUT", details: { prompt: message } },
+    );
+  }
+}
+
+/**
+ * Apply a line-editing key to the reply typed so far.
+ *
+ * @param buffer - The reply so far.
+ * @param key - The key pressed.
+ * @returns The new reply.
+ */
+function edit(buffer: string, key: Key): string {
+  if (key.name === "char") return buffer + key.char;
+  if (key.name === "backspace") return [...buffer].slice(0, -1).join("");
+  return buffer;
+}
+
+/**
+ * Move a list cursor for an arrow key, wrapping around.
+ *
+ * @param cursor - Current index.
+ * @param key - The key pressed.
+ * @param length - Number of entries.
+ * @returns The new index.
+ */
+function move(cursor: number, key: Key, length: number): number {
+  if (key.name === "up") return (cursor - 1 + length) % length;
+  if (key.name === "down") return (cursor + 1) % length;
+  return cursor;
+}
+
+/**
+ * Build the error for a prompt that cannot be answered.
+ *
+ * @param message - The question.
+ * @param reason - Why no answer is available.
+ * @returns The error.
+ */
+function inputRequired(message: string, reason: string): CLIError {
+  return new CLIError(
+    `Cannot prompt for "${message}": ${reason}`,
+    EXIT_USAGE,
+    { code: "INPUT_REQUIRED", details: { prompt: message } },
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * src/utils/prompt_test.ts
+ *
+ * Interactive prompts driven by scripted keystrokes, their non-interactive
+ * fallbacks, and invalid prompt definitions.
+ */
+
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { CLI } from "../cli/mod.ts";
+import { KEYS, runCLI } from "../testing.ts";
+import { EXIT_SIGINT, EXIT_USAGE } from "../types.ts";
+
+/* ------------------------------------------------------------------ *
+ *  Prompts
+ * ------------------------------------------------------------------ */
+
+/**
+ * A CLI whose `init` command asks a few questions and prints the answers.
+ *
+ * @returns The CLI.
+ */
+function promptCLI(): CLI {
+  const cli = new CLI({ name: "app" });
+  cli.registerCommand(["init"], async (_args, _flags, ctx) => {
+    const name = await ctx.prompt("Project name", { default: "my-app" });
+    const region = await ctx.select("Region", {
+      choices: ["us-east-1", "eu-west-1", "ap-south-1"],
+      default: "us-east-1",
+    });
+    const ok = await ctx.confirm("Create it?");
+    ctx.log(JSON.stringify({ name, region, ok }));
+  });
+  return cli;
+}
+
+Deno.test("prompt: answered with scripted keystrokes", async () => {
+  const result = await runCLI(promptCLI(), ["init"], {
+    tty: true,
+    stdin: `demo${KEYS.enter}${KEYS.down}${KEYS.enter}y${KEYS.enter}`,
+  });
+  assertEquals(result.exitCode, 0);
+  assertEquals(JSON.parse(result.stdout), {
+    name: "demo",
+    region: "eu-west-1",
+    ok: true,
+  });
+});
+
+Deno.test("prompt: --yes answers without a terminal", async () => {
+  const result = await runCLI(promptCLI(), ["init", "--yes"]);
+  assertEquals(result.exitCode, 0);
+  assertEquals(JSON.parse(result.stdout), {
+    name: "my-app",
+    region: "us-east-1",
+    ok: true,
+  });
+});
+
+Deno.test("prompt: a question without a default fails without input", async () => {
+  const result = await runCLI(promptCLI(), ["init", "--no-input"]);
+  assertEquals(result.exitCode, EXIT_USAGE);
+  assertStringIncludes(result.stderr, "Create it?");
+});
+
+Deno.test("prompt: Ctrl-C cancels the command", async () => {
+  const result = await runCLI(promptCLI(), ["init"], {
+    tty: true,
+    stdin: KEYS.ctrlC,
+  });
+  assertEquals(result.exitCode, EXIT_SIGINT);
+  assertEquals(result.stdout, "");
+});
+
+/* ------------------------------------------------------------------ *
+ *  multiSelect
+ * ------------------------------------------------------------------ */
+
+/**
+ * A CLI whose `pick` command asks for any number of regions.
+ *
+ * @returns The CLI.
+ */
+function multiCLI(): CLI {
+  const cli = new CLI({ name: "app" });
+  cli.registerCommand(["pick"], async (_args, _flags, ctx) => {
+    const regions = await ctx.multiSelect("Regions", {
+      choices: ["us-east-1", "eu-west-1", "ap-south-1"],
+      default: ["eu-west-1"],
+    });
+    ctx.log(JSON.stringify(regions));
+  });
+  return cli;
+}
+
+Deno.test("prompt: multiSelect toggles with space and a", async () => {
+  const toggled = await runCLI(multiCLI(), ["pick"], {
+    tty: true,
+    stdin: `${KEYS.space}${KEYS.down}${KEYS.space}${KEYS.enter}`,
+  });
+  assertEquals(JSON.parse(toggled.stdout), ["us-east-1"]);
+  const wrapped = await runCLI(multiCLI(), ["pick"], {
+    tty: true,
+    stdin: `${KEYS.up}${KEYS.space}${KEYS.enter}`,
+  });
+  assertEquals(JSON.parse(wrapped.stdout), ["eu-west-1", "ap-south-1"]);
+  const all = await runCLI(multiCLI(), ["pick"], {
+    tty: true,
+    stdin: `a${KEYS.enter}`,
+  });
+  assertEquals(JSON.parse(all.stdout), [
+    "us-east-1",
+    "eu-west-1",
+    "ap-south-1",
+  ]);
+});
+
+Deno.test("prompt: multiSelect falls back to its default", async () => {
+  const result = await runCLI(multiCLI(), ["pick", "--no-input"]);
+  assertEquals(JSON.parse(result.stdout), ["eu-west-1"]);
+});
+
+/* ------------------------------------------------------------------ *
+ *  Invalid prompts
+ * ------------------------------------------------------------------ */
+
+Deno.test("prompt: select and multiSelect reject empty choices", async () => {
+  const cli = new CLI({ name: "app" });
+  cli.registerCommand(["one"], async (_args, _flags, ctx) => {
+    await ctx.select("Region", { choices: [], default: "x" });
+  });
+  cli.registerCommand(["many"], async (_args, _flags, ctx) => {
+    await ctx.multiSelect("Regions", { choices: [] });
+  });
+  for (const [argv, prompt] of [[["one"], "Region"], [["many"], "Regions"]]) {
+    for (const tty of [true, false]) {
+      const result = await runCLI(cli, [...argv, "--output=json"], {
+        tty,
+        stdin: KEYS.enter,
+      });
+      assertEquals(result.exitCode, 1);
+      const { error } = JSON.parse(result.stderr);
+      assertEquals(error.code, "INVALID_PROMPT");
+      assertStringIncludes(error.message, `"${prompt}": no choices given`);
+    }
+  }
+});
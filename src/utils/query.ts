@@ -0,0 +1,250 @@
+/**
+ * src/utils/query.ts
+ *
+ * A small JSONPath dialect for `--query`, in the spirit of `kubectl -o
+ * jsonpath`: `$.items[*].metadata.name`, `items[0]`, `..name`,
+ * `items[?(@.status == "Ready")]`, `items[-1:]`. The surrounding `{...}` and
+ * leading `$` are optional.
+ */
+
+import { CLIError, EXIT_USAGE } from "../types.ts";
+
+/** One step of a compiled query. */
+type Step =
+  | { kind: "key"; key: string }
+  | { kind: "index"; index: number }
+  | { kind: "slice"; start?: number; end?: number }
+  | { kind: "wildcard" }
+  | { kind: "descend"; key: string | null }
+  | { kind: "filter"; path: string[]; op?: string; value?: unknown };
+
+/**
+ * Throw a usage error for an invalid query.
+ *
+ * @param query - The query being compiled.
+ * @param reason - What is wrong with it.
+ * @returns Never returns.
+ */
+function invalid(query: string, reason: string): never {
+  throw new CLIError(`Invalid --query "${query}": ${reason}`, EXIT_USAGE, {
+    code: "INVALID_QUERY",
+  });
+}
+
+/**
+ * Parse a filter literal: a quoted string, number, boolean or null.
+ *
+ * @param raw - The literal as written.
+ * @returns Its value (unquoted strings are taken verbatim).
+ */
+function parseLiteral(raw: string): unknown {
+  const text = raw.trim();
+  if (/^(["']).*\1$/.test(text)) return text.slice(1, -1);
+  if (text === "true" || text === "false") return text === "true";
+  if (text === "null") return null;
+  const num = Number(text);
+  return text !== "" && !Number.isNaN(num) ? num : text;
+}
+
+/**
+ * Compile a query string into steps.
+ *
+ * @param query - The query, e.g. `{.items[*].name}`.
+ * @returns The steps to evaluate.
+ * @throws CLIError (code `INVALID_QUERY`) on a syntax error.
+ */
+function compile(query: string): Step[] {
+  let src = query.trim();
+  if (src.startsWith("{") && src.endsWith("}")) src = src.slice(1, -1).trim();
+  if (src.startsWith("$")) src = src.slice(1);
+  // Allow a bare first key (`items[0]` as well as `.items[0]`)
+  if (src && !src.startsWith(".") && !src.startsWith("[")) src = `.${src}`;
+
+  const steps: Step[] = [];
+  let i = 0;
+  const ident = (): string => {
+    const match = /^[^.[\]\s]+/.exec(src.slice(i));
+    if (!match) invalid(query, `expected a key at position ${i}`);
+    i += match[0].length;
+    return match[0];
+  };
+  while (i < src.length) {
+    if (src.startsWith("..", i)) {
+      i += 2;
+      if (src[i] === "*") {
+        i++;
+        steps.push({ kind: "descend", key: null });
+      } else if (src[i] === "[") {
+        steps.push({ kind: "descend", key: null });
+      } else {
+        steps.push({ kind: "descend", key: ident() });
+      }
+    } else if (src[i] === ".") {
+      i++;
+      if (src[i] === "*") {
+        i++;
+        steps.push({ kind: "wildcard" });
+      } else {
+        steps.push({ kind: "key", key: ident() });
+      }
+    } else if (src[i] === "[") {
+      const close = src.indexOf("]", i);
+      if (close === -1) invalid(query, "unterminated [");
+      const inner = src.slice(i + 1, close).trim();
+      i = close + 1;
+      if (inner === "*") {
+        steps.push({ kind: "wildcard" });
+      } else if (/^(["']).*\1$/.test(inner)) {
+        steps.push({ kind: "key", key: inner.slice(1, -1) });
+      } else if (/^-?\d+$/.test(inner)) {
+        steps.push({ kind: "index", index: Number(inner) });
+      } else if (/^(-?\d+)?:(-?\d+)?$/.test(inner)) {
+        const [start, end] = inner.split(":");
+        steps.push({
+          kind: "slice",
+          start: start ? Number(start) : undefined,
+          end: end ? Number(end) : undefined,
+        });
+      } else if (inner.startsWith("?(") && inner.endsWith(")")) {
+        const expr = inner.slice(2, -1).trim();
+        const match = /^@((?:\.[^.\s=!<>]+)+)\s*(?:(==|!=|<=|>=|<|>)\s*(.+))?$/
+          .exec(expr);
+        if (!match) invalid(query, `unsupported filter "${inner}"`);
+        steps.push({
+          kind: "filter",
+          path: match[1].slice(1).split("."),
+          op: match[2],
+          value: match[3] === undefined ? undefined : parseLiteral(match[3]),
+        });
+      } else {
+        invalid(query, `unsupported selector "[${inner}]"`);
+      }
+    } else {
+      invalid(query, `unexpected "${src[i]}" at position ${i}`);
+    }
+  }
+  return steps;
+}
+
+/**
+ * Child values of a container (array elements or object values).
+ *
+ * @param value - Any value.
+ * @returns Its children (empty for primitives).
+ */
+function children(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value !== null && typeof value === "object") return Object.values(value);
+  return [];
+}
+
+/**
+ * Whether `item` satisfies a filter step.
+ *
+ * @param item - The candidate element.
+ * @param step - The filter.
+ * @returns True if it matches.
+ */
+function matches(
+  item: unknown,
+  step: Extract<Step, { kind: "filter" }>,
+): boolean {
+  let value: unknown = item;
+  for (const key of step.path) {
+    value = value !== null && typeof value === "object"
+      ? (value as Record<string, unknown>)[key]
+      : undefined;
+  }
+  if (step.op === undefined) return value !== undefined && value !== null;
+  const expected = step.value;
+  switch (step.op) {
+    case "==":
+      return value === expected;
+    case "!=":
+      return value !== expected;
+    case "<":
+      return (value as number) < (expected as number);
+    case ">":
+      return (value as number) > (expected as number);
+    case "<=":
+      return (value as number) <= (expected as number);
+    default:
+      return (value as number) >= (expected as number);
+  }
+}
+
+/**
+ * Apply one step to every current match.
+ *
+ * @param nodes - Current matches.
+ * @param step - The step to apply.
+ * @returns The new matches.
+ */
+function apply(nodes: unknown[], step: Step): unknown[] {
+  const out: unknown[] = [];
+  for (const node of nodes) {
+    switch (step.kind) {
+      case "key":
+        if (node !== null && typeof node === "object" && step.key in node) {
+          out.push((node as Record<string, unknown>)[step.key]);
+        }
+        break;
+      case "index":
+        if (Array.isArray(node)) {
+          const idx = step.index < 0 ? node.length + step.index : step.index;
+          if (idx >= 0 && idx < node.length) out.push(node[idx]);
+        }
+        break;
+      case "slice":
+        if (Array.isArray(node)) out.push(...node.slice(step.start, step.end));
+        break;
+      case "wildcard":
+        out.push(...children(node));
+        break;
+      case "descend": {
+        const visit = (value: unknown): void => {
+          if (step.key === null) {
+            for (const child of children(value)) {
+              out.push(child);
+              visit(child);
+            }
+            return;
+          }
+          if (
+            value !== null && typeof value === "object" &&
+            !Array.isArray(value) && step.key in value
+          ) {
+            out.push((value as Record<string, unknown>)[step.key]);
+          }
+          for (const child of children(value)) visit(child);
+        };
+        visit(node);
+        break;
+      }
+      case "filter":
+        out.push(...children(node).filter((item) => matches(item, step)));
+        break;
+    }
+  }
+  return out;
+}
+
+/**
+ * Evaluate a JSONPath-style query against `data`.
+ *
+ * Queries made only of keys and indices return a single value (`undefined`
+ * if it does not exist); queries with wildcards, slices, filters or
+ * recursive descent return an array of every match.
+ *
+ * @param data - The value to query.
+ * @param query - The query, e.g. `$.items[*].name`.
+ * @returns The selected value(s).
+ * @throws CLIError (code `INVALID_QUERY`) on a syntax error.
+ */
+export function applyQuery(data: unknown, query: string): unknown {
+  const steps = compile(query);
+  let nodes: unknown[] = [data];
+  for (const step of steps) nodes = apply(nodes, step);
+  const definite = steps.every((s) => s.kind === "key" || s.kind === "index");
+  return definite ? nodes[0] : nodes;
+}
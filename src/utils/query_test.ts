@@ -0,0 +1,89 @@
+/**
+ * src/utils/query_test.ts
+ *
+ * The `--query` dialect: paths, indexes, wildcards, filters, and how missing
+ * paths and invalid expressions are reported.
+ */
+
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { CLIError, EXIT_USAGE } from "../types.ts";
+import { applyQuery } from "./query.ts";
+
+const DATA = {
+  items: [
+    { name: "web", status: { phase: "Ready" }, replicas: 3 },
+    { name: "db", status: { phase: "Pending" }, replicas: 1 },
+  ],
+  meta: { count: 2 },
+};
+
+/* ------------------------------------------------------------------ *
+ *  Selection
+ * ------------------------------------------------------------------ */
+
+Deno.test("query: keys and array indexes select a single value", () => {
+  assertEquals(applyQuery(DATA, "items[0].name"), "web");
+  assertEquals(applyQuery(DATA, "$.items[1].status.phase"), "Pending");
+  assertEquals(applyQuery(DATA, "{.meta.count}"), 2);
+});
+
+Deno.test("query: negative indexes and slices count from the end", () => {
+  assertEquals(applyQuery(DATA, "items[-1].name"), "db");
+  assertEquals(applyQuery(DATA, "items[1:]"), [DATA.items[1]]);
+  assertEquals(applyQuery(DATA, "items[:1]"), [DATA.items[0]]);
+});
+
+Deno.test("query: wildcards, recursive descent and filters return arrays", () => {
+  assertEquals(applyQuery(DATA, "items[*].name"), ["web", "db"]);
+  assertEquals(applyQuery(DATA, "..phase"), ["Ready", "Pending"]);
+  assertEquals(applyQuery(DATA, "items[?(@.replicas > 1)].name"), ["web"]);
+  assertEquals(
+    applyQuery(DATA, 'items[?(@.status.phase == "Pending")].name'),
+    ["db"],
+  );
+});
+
+Deno.test("query: the empty query returns the data", () => {
+  assertEquals(applyQuery(DATA, ""), DATA);
+});
+
+/* ------------------------------------------------------------------ *
+ *  Missing paths
+ * ------------------------------------------------------------------ */
+
+Deno.test("query: missing keys and out-of-range indexes are undefined", () => {
+  assertEquals(applyQuery(DATA, "missing.path"), undefined);
+  assertEquals(applyQuery(DATA, "items[5].name"), undefined);
+  assertEquals(applyQuery(DATA, "items[0].name.length"), undefined);
+});
+
+Deno.test("query: missing paths under a wildcard match nothing", () => {
+  assertEquals(applyQuery(DATA, "items[*].missing"), []);
+  assertEquals(applyQuery(DATA, "items[?(@.replicas > 5)]"), []);
+});
+
+/* ------------------------------------------------------------------ *
+ *  Invalid expressions
+ * ------------------------------------------------------------------ */
+
+Deno.test("query: invalid expressions are INVALID_QUERY usage errors", () => {
+  const cases: [string, string][] = [
+    ["items[", "unterminated ["],
+    ["items[*", "unterminated ["],
+    ["items[abc]", 'unsupported selector "[abc]"'],
+    ["items..", "expected a key"],
+    ["a b", 'unexpected " "'],
+  ];
+  for (const [query, reason] of cases) {
+    try {
+      applyQuery(DATA, query);
+      throw new Error(`no error for ${query}`);
+    } catch (err) {
+      if (!(err instanceof CLIError)) throw err;
+      assertEquals(err.exitCode, EXIT_USAGE);
+      assertEquals(err.code, "INVALID_QUERY");
+      assertStringIncludes(err.message, `Invalid --query "${query}"`);
+      assertStringIncludes(err.message, reason);
+    }
+  }
+});
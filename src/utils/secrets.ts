@@ -0,0 +1,151 @@
+/**
+ * src/utils/secrets.ts
+ *
+ * Secret flags and config values: marking them in Zod schemas, masking them
+ * wherever a run reports something (logs, error envelopes, spans, config
+ * dumps), and reading them from a file or stdin instead of the command line.
+ */
+
+import type { ZodTypeAny } from "zod";
+import { CLIError, EXIT_USAGE } from "../types.ts";
+import type { InputStream } from "../runtime.ts";
+
+/** What a secret value is replaced with. */
+export const REDACTED = "[REDACTED]";
+
+/** Schemas marked with `secret()`. */
+const SECRET_SCHEMAS = new WeakSet<ZodTypeAny>();
+
+/**
+ * Mark a flag or config key as secret in a `flagsSchema` / `configSchema`:
+ *
+ *   z.object({ token: secret(z.string()).optional() })
+ *
+ * Its value is then redacted from logs, error envelopes, spans and
+ * `config list`, and a secret flag can also be read from a file or stdin
+ * with `--<name>-file`.
+ *
+ * @typeParam T - The schema type.
+ * @param schema - The schema of the secret value.
+ * @returns The same schema, marked.
+ */
+export function secret<T extends ZodTypeAny>(schema: T): T {
+  SECRET_SCHEMAS.add(schema);
+  return schema;
+}
+
+/**
+ * Whether `schema` itself was marked with `secret()` (wrappers such as
+ * `.optional()` are not looked through; see `unwrapSchema`).
+ *
+ * @param schema - A Zod schema.
+ * @returns True if it is marked.
+ */
+export function isSecretSchema(schema: ZodTypeAny): boolean {
+  return SECRET_SCHEMAS.has(schema);
+}
+
+/**
+ * Masks the secret values of a run in everything it reports. Redaction is
+ * by value, so a secret is caught wherever it ends up: inside a message, an
+ * object being logged, or an error from a failed API call.
+ */
+export class Redactor {
+  /** Secret strings, longest first (so overlapping secrets mask fully). */
+  #secrets: string[] = [];
+
+  /**
+   * Register a secret value. Arrays and objects register each value they
+   * contain; empty values are ignored.
+   *
+   * @param value - The secret.
+   */
+  add(value: unknown): void {
+    if (Array.isArray(value)) {
+      value.forEach((item) => this.add(item));
+    } else if (typeof value === "object" && value !== null) {
+      Object.values(value).forEach((item) => this.add(item));
+    } else if (
+      (typeof value === "string" || typeof value === "number" ||
+        typeof value === "bigint") && String(value) !== ""
+    ) {
+      const text = String(value);
+      if (this.#secrets.includes(text)) return;
+      this.#secrets.push(text);
+      this.#secrets.sort((a, b) => b.length - a.length);
+    }
+  }
+
+  /**
+   * Replace every occurrence of a secret in `text`.
+   *
+   * @param text - Any text.
+   * @returns The text with secrets replaced by `REDACTED`.
+   */
+  string(text: string): string {
+    return this.#secrets.reduce(
+      (out, secret) => out.split(secret).join(REDACTED),
+      text,
+    );
+  }
+
+  /**
+   * Redact secrets in a value: strings (and secret numbers) are masked, and
+   * arrays and plain objects are copied with their contents redacted. Other
+   * objects are returned as they are.
+   *
+   * @typeParam T - The value type.
+   * @param value - Any value.
+   * @returns The redacted value.
+   */
+  value<T>(value: T): T {
+    if (!this.#secrets.length) return value;
+    if (typeof value === "string") return this.string(value) as T;
+    if (
+      (typeof value === "number" || typeof value === "bigint") &&
+      this.#secrets.includes(String(value))
+    ) return REDACTED as T;
+    if (Array.isArray(value)) return value.map((item) => this.value(item)) as T;
+    if (
+      typeof value === "object" && value !== null &&
+      Object.getPrototypeOf(value) === Object.prototype
+    ) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.value(item)]),
+      ) as T;
+    }
+    return value;
+  }
+}
+
+/**
+ * Read a secret from a file, or from stdin for "-". One trailing newline is
+ * removed.
+ *
+ * @param path - The file, or "-" for stdin.
+ * @param stdin - The run's stdin.
+ * @param flag - The flag the path was given with, for error messages.
+ * @returns The secret.
+ * @throws {CLIError} "FILE_NOT_READABLE" if the file can't be read.
+ */
+export async function readSecret(
+  path: string,
+  stdin: InputStream,
+  flag: string,
+): Promise<string> {
+  let text: string;
+  try {
+    text = path === "-"
+      ? await new Response(stdin.readable).text()
+      : await Deno.readTextFile(path);
+  } catch (err) {
+    throw new CLIError(
+      `Cannot read ${flag} ${path}: ${
+        err instanceof Error ? err.message : err
+      }`,
+      EXIT_USAGE,
+      { code: "FILE_NOT_READABLE", details: { flag, path } },
+    );
+  }
+  return text.replace(/\r?\n$/, "");
+}
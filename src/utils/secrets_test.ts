@@ -0,0 +1,222 @@
+/**
+ * src/utils/secrets_test.ts
+ *
+ * Secret flags and config keys kept out of what the CLI reports: log lines
+ * and `--verbose` dumps, error envelopes, `config list`, span attributes and
+ * recorded exceptions, and the errors for values that fail to coerce.
+ */
+
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { z } from "zod";
+import { CLI } from "../cli/mod.ts";
+import { runCLI } from "../testing.ts";
+import { CLIError, EXIT_USAGE } from "../types.ts";
+import { REDACTED, secret } from "./secrets.ts";
+
+const TOKEN = "s3cr3t-token-value";
+
+/** The config of `secretCLI`. */
+type SecretConfig = {
+  region: string;
+  github: { token?: string };
+};
+
+/**
+ * A CLI with a secret `token` flag and a secret `github.token` config key.
+ * Its `release` command logs, debugs and traces the token, and fails with
+ * it in the message when given `--fail`.
+ *
+ * @returns The CLI.
+ */
+function secretCLI(): CLI<SecretConfig> {
+  const cli = new CLI({
+    name: "app",
+    configSchema: z.object({
+      region: z.string().default("us-east-1"),
+      github: z.object({ token: secret(z.string()).optional() }).default({}),
+    }),
+  });
+  cli.registerCommand(["release"], async (_args, flags, ctx) => {
+    ctx.log(`using ${flags.token}`);
+    ctx.debug({ flags });
+    await ctx.withSpan("publish", (span) => {
+      span.setAttribute("auth", flags.token as string);
+      span.setAttributes({ header: `Bearer ${flags.token}` });
+      span.addEvent("sent", { token: flags.token as string });
+    }, { token: flags.token as string });
+    ctx.span?.setAttribute("release.token", flags.token as string);
+    if (flags.fail) throw new CLIError(`rejected ${flags.token}`, 4);
+  }, {
+    flags: [
+      { name: "token", type: "string", secret: true, env: "GITHUB_TOKEN" },
+      { name: "fail", type: "boolean" },
+    ],
+  });
+  return cli;
+}
+
+/**
+ * Every string in a run's spans: names, attributes, events and exceptions.
+ *
+ * @param spans - The recorded spans.
+ * @returns Them as JSON.
+ */
+function spanText(spans: unknown[]): string {
+  return JSON.stringify(spans);
+}
+
+/* ------------------------------------------------------------------ *
+ *  Logs and errors
+ * ------------------------------------------------------------------ */
+
+Deno.test("secrets: log lines and --verbose dumps are redacted", async () => {
+  const result = await runCLI(secretCLI(), [
+    "release",
+    `--token=${TOKEN}`,
+    "--verbose",
+  ]);
+  assertEquals(result.exitCode, 0);
+  assertStringIncludes(result.stdout, `using ${REDACTED}`);
+  assertStringIncludes(result.stderr, REDACTED);
+  assert(!result.output.includes(TOKEN));
+});
+
+Deno.test("secrets: a secret from the environment is redacted too", async () => {
+  const result = await runCLI(secretCLI(), ["release"], {
+    env: { GITHUB_TOKEN: TOKEN },
+  });
+  assertEquals(result.exitCode, 0);
+  assertStringIncludes(result.stdout, `using ${REDACTED}`);
+  assert(!result.output.includes(TOKEN));
+});
+
+Deno.test("secrets: error messages and envelopes are redacted", async () => {
+  const text = await runCLI(secretCLI(), [
+    "release",
+    `--token=${TOKEN}`,
+    "--fail",
+  ]);
+  assertEquals(text.exitCode, 4);
+  assertStringIncludes(text.stderr, `rejected ${REDACTED}`);
+  assert(!text.output.includes(TOKEN));
+
+  const json = await runCLI(secretCLI(), [
+    "release",
+    `--token=${TOKEN}`,
+    "--fail",
+    "--output=json",
+  ]);
+  assertEquals(json.exitCode, 4);
+  const { error } = JSON.parse(json.stderr);
+  assertEquals(error.message, `rejected ${REDACTED}`);
+  assert(!json.output.includes(TOKEN));
+});
+
+/* ------------------------------------------------------------------ *
+ *  Config
+ * ------------------------------------------------------------------ */
+
+Deno.test("secrets: config list redacts secret keys; config get does not", async () => {
+  const config = { region: "eu-west-1", github: { token: TOKEN } };
+  const list = await runCLI(secretCLI(), [
+    "config",
+    "list",
+    "--output=json",
+  ], { config });
+  assertEquals(list.exitCode, 0);
+  const values = Object.fromEntries(
+    JSON.parse(list.stdout).map((row: { key: string; value: unknown }) => [
+      row.key,
+      row.value,
+    ]),
+  );
+  assertEquals(values["github.token"], REDACTED);
+  assertEquals(values.region, "eu-west-1");
+  assert(!list.output.includes(TOKEN));
+
+  const get = await runCLI(secretCLI(), ["config", "get", "github.token"], {
+    config,
+  });
+  assertEquals(get.exitCode, 0);
+  assertStringIncludes(get.stdout, TOKEN);
+});
+
+/* ------------------------------------------------------------------ *
+ *  Spans
+ * ------------------------------------------------------------------ */
+
+Deno.test("secrets: span attributes and events are redacted", async () => {
+  const result = await runCLI(secretCLI(), ["release", `--token=${TOKEN}`]);
+  assertEquals(result.exitCode, 0);
+  const publish = result.spans.find((span) => span.name === "publish");
+  assert(publish, "the withSpan span is recorded");
+  assertEquals(publish.attributes.token, REDACTED);
+  assertEquals(publish.attributes.auth, REDACTED);
+  assertEquals(publish.attributes.header, `Bearer ${REDACTED}`);
+  assertEquals(publish.events[0].attributes?.token, REDACTED);
+  const command = result.spans.find((span) => span.name === "release");
+  assertEquals(command?.attributes["release.token"], REDACTED);
+  assert(!spanText(result.spans).includes(TOKEN));
+});
+
+Deno.test("secrets: recorded exceptions are redacted", async () => {
+  const result = await runCLI(secretCLI(), [
+    "release",
+    `--token=${TOKEN}`,
+    "--fail",
+  ]);
+  assertEquals(result.exitCode, 4);
+  const command = result.spans.find((span) => span.name === "release");
+  assert(command?.exceptions.length, "the failure is recorded");
+  assertStringIncludes(spanText(command.exceptions), `rejected ${REDACTED}`);
+  assert(!spanText(result.spans).includes(TOKEN));
+});
+
+/* ------------------------------------------------------------------ *
+ *  Coercion errors
+ * ------------------------------------------------------------------ */
+
+/**
+ * A CLI whose `unlock` command takes a secret number and a secret choice,
+ * one of them bound to an env variable, and a non-secret number.
+ *
+ * @returns The CLI.
+ */
+function coercionCLI(): CLI {
+  const cli = new CLI({ name: "app" });
+  cli.registerCommand(["unlock"], () => {}, {
+    flags: [
+      { name: "pin", type: "number", secret: true },
+      {
+        name: "tier",
+        type: "string",
+        choices: ["free", "pro"],
+        secret: true,
+        env: "TIER",
+      },
+      { name: "retries", type: "number" },
+    ],
+  });
+  return cli;
+}
+
+Deno.test("secrets: an invalid secret value is reported without it", async () => {
+  const cases: [string[], Record<string, string>, string, string][] = [
+    [["unlock", "--pin=hunter2"], {}, "hunter2", "--pin"],
+    [["unlock", "--tier=platinum-77"], {}, "platinum-77", "--tier"],
+    [["unlock"], { TIER: "platinum-77" }, "platinum-77", "--tier"],
+  ];
+  for (const [argv, env, value, flag] of cases) {
+    const result = await runCLI(coercionCLI(), argv, { env });
+    assertEquals(result.exitCode, EXIT_USAGE, argv.join(" "));
+    assertStringIncludes(result.stderr, flag);
+    assert(!result.output.includes(value), argv.join(" "));
+    assert(!spanText(result.spans).includes(value), argv.join(" "));
+  }
+});
+
+Deno.test("secrets: an invalid non-secret value is still echoed", async () => {
+  const result = await runCLI(coercionCLI(), ["unlock", "--retries=lots"]);
+  assertEquals(result.exitCode, EXIT_USAGE);
+  assertStringIncludes(result.stderr, 'got "lots"');
+});
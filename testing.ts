@@ -0,0 +1,21 @@
+/**
+ * testing.ts
+ *
+ * Test-harness entry-point (`@ggpwnkthx/generic-cli/testing`). Run a CLI
+ * in-process and capture its output, exit code and spans, or benchmark its
+ * commands.
+ */
+export {
+  benchmarkCLI,
+  type BenchmarkOptions,
+  type CLITestResult,
+  type CommandBenchmark,
+  formatBenchmark,
+  helpText,
+  KEYS,
+  type RecordedSpan,
+  RecordingTracer,
+  runCLI,
+  type RunCLIOptions,
+  TestSignals,
+} from "./src/testing.ts";
@@ -0,0 +1,89 @@
+/**
+ * testing_test.ts
+ *
+ * Tests of the `runCLI` harness itself: captured streams, exit codes, and
+ * env, cwd and stdin injection.
+ */
+
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { CLI, CLIError } from "./mod.ts";
+import { runCLI } from "./testing.ts";
+
+/* ------------------------------------------------------------------ *
+ *  Harness
+ * ------------------------------------------------------------------ */
+
+/**
+ * A CLI whose `echo` command reports what the harness gave it: its env,
+ * working directory and stdin on stdout, a warning on stderr, and a failure
+ * when asked to.
+ *
+ * @returns The CLI.
+ */
+function echoCLI(): CLI {
+  const cli = new CLI({ name: "app" });
+  cli.registerCommand(["echo"], async (_args, flags, ctx) => {
+    ctx.warn("reading stdin");
+    ctx.log(JSON.stringify({
+      greeting: ctx.runtime.env.get("GREETING") ?? null,
+      home: ctx.runtime.env.get("HOME"),
+      cwd: ctx.runtime.cwd(),
+      stdin: await ctx.readStdin(),
+    }));
+    if (flags.fail) throw new CLIError("asked to fail", 3);
+  }, { flags: [{ name: "fail", type: "boolean" }] });
+  return cli;
+}
+
+Deno.test("harness: captures stdout, stderr and the interleaved output", async () => {
+  const result = await runCLI(echoCLI(), ["echo"]);
+  assertEquals(result.exitCode, 0);
+  assertEquals(result.stderr, "reading stdin\n");
+  assertEquals(JSON.parse(result.stdout).stdin, "");
+  assert(result.output.startsWith("reading stdin\n{"));
+  assertEquals(result.output, result.stderr + result.stdout);
+});
+
+Deno.test("harness: reports the exit code and error of a failed run", async () => {
+  const result = await runCLI(echoCLI(), ["echo", "--fail"]);
+  assertEquals(result.exitCode, 3);
+  assertStringIncludes(result.stderr, "asked to fail");
+  assertEquals(JSON.parse(result.stdout).greeting, null);
+  assertEquals(result.forcedExit, undefined);
+});
+
+Deno.test("harness: injects env and cwd, and isolates HOME", async () => {
+  const cwd = await Deno.makeTempDir();
+  try {
+    const result = await runCLI(echoCLI(), ["echo"], {
+      env: { GREETING: "hello" },
+      cwd,
+    });
+    const seen = JSON.parse(result.stdout);
+    assertEquals(seen.greeting, "hello");
+    assertEquals(seen.cwd, cwd);
+    assert(seen.home !== Deno.env.get("HOME"));
+    assertStringIncludes(seen.home, "generic-cli-test-");
+  } finally {
+    await Deno.remove(cwd, { recursive: true });
+  }
+});
+
+Deno.test("harness: scripts stdin as text or bytes", async () => {
+  const text = await runCLI(echoCLI(), ["echo"], { stdin: "line 1\nline 2" });
+  assertEquals(JSON.parse(text.stdout).stdin, "line 1\nline 2");
+  const bytes = await runCLI(echoCLI(), ["echo"], {
+    stdin: new TextEncoder().encode("raw"),
+  });
+  assertEquals(JSON.parse(bytes.stdout).stdin, "raw");
+});
+
+Deno.test("harness: strips colors unless asked to keep them", async () => {
+  const plain = await runCLI(echoCLI(), ["echo"], { tty: true });
+  assertEquals(plain.stderr, "reading stdin\n");
+  const colored = await runCLI(echoCLI(), ["echo"], {
+    tty: true,
+    keepColors: true,
+  });
+  assertStringIncludes(colored.stderr, "\x1b[");
+});